@@ -0,0 +1,40 @@
+// Matcher benchmark: compares the indexed matcher with testing every entry
+// on every line. test/matcher.test.mjs checks that both find the same matches.
+//
+//   npm run bench                  # each fixture repeated to ~5 MB
+//   npm run bench -- --size 50     # ~50 MB per fixture
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ERROR_DB, StreamAnalyzer } from '../dist/index.js';
+
+const dir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const args = process.argv.slice(2);
+const sizeFlag = args.indexOf('--size');
+const targetBytes = (sizeFlag === -1 ? 5 : Number(args[sizeFlag + 1])) * 1024 * 1024;
+
+const fixtures = fs.readdirSync(dir)
+  .filter(f => f.endsWith('.log'))
+  .sort()
+  .map(f => ({ name: f, text: fs.readFileSync(path.join(dir, f), 'utf8') }));
+fixtures.push({ name: '(all fixtures)', text: fixtures.map(f => f.text).join('\n') });
+
+function run(lines, repeats, indexed) {
+  const analyzer = new StreamAnalyzer(ERROR_DB, { indexed });
+  const start = process.hrtime.bigint();
+  for (let r = 0; r < repeats; r++) {
+    for (const line of lines) analyzer.push(line);
+  }
+  return Number(process.hrtime.bigint() - start) / 1e9;
+}
+
+console.log(`${'fixture'.padEnd(16)} ${'MB'.padStart(6)} ${'naive MB/s'.padStart(11)} ${'indexed MB/s'.padStart(13)} ${'speedup'.padStart(8)}`);
+for (const { name, text } of fixtures) {
+  const lines = text.split('\n');
+  const repeats = Math.max(1, Math.round(targetBytes / Buffer.byteLength(text)));
+  const mb = (Buffer.byteLength(text) * repeats) / (1024 * 1024);
+  const naive = run(lines, repeats, false);
+  const indexed = run(lines, repeats, true);
+  console.log(`${name.padEnd(16)} ${mb.toFixed(1).padStart(6)} ${(mb / naive).toFixed(1).padStart(11)} ${(mb / indexed).toFixed(1).padStart(13)} ${`${(naive / indexed).toFixed(1)}x`.padStart(8)}`);
+}
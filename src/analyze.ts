@@ -0,0 +1,310 @@
+import { ERROR_DB, type ErrorEntry } from './database.js';
+import { BlockTracker } from './languages/index.js';
+import { PatternIndex, patternLineSpan } from './matcher.js';
+import { LogPreprocessor, type LogSegment } from './preprocess.js';
+import { rankMatches, scoreMatches } from './ranking.js';
+import { flattenErrors, parseDiagnosticLocation, parseStack, type StackError } from './stack.js';
+import { interpolate, templateValues } from './template.js';
+
+// ── Analysis ──
+
+export interface Occurrence {
+  /** The original (trimmed) line, or lines for a multi-line pattern. */
+  line: string;
+  lineNumber: number;
+  groups: string[];
+  /** Named capture groups; ones that didn't participate are empty. */
+  named: Record<string, string>;
+  /** Source position named on the line itself, e.g. by a `tsc` diagnostic. */
+  location: SourceLocation | null;
+  /** Error code on the line (`TS2339`, `ECONNREFUSED`, `ERR_REQUIRE_ESM`). */
+  code: string | null;
+  /**
+   * Index of the error block the line belongs to: a message line plus the
+   * indented stack frames and properties printed under it.
+   */
+  block: number;
+  /** Workspace package, task and CI group that printed the line (see preprocess.ts). */
+  segment: LogSegment | null;
+}
+
+/**
+ * One entry's results. `matchedLine`, `lineNumber` and `groups` describe the
+ * first occurrence; `occurrences` has every line the entry matched.
+ */
+export interface MatchResult {
+  entry: ErrorEntry;
+  matchedLine: string;
+  lineNumber: number;
+  groups: string[];
+  named: Record<string, string>;
+  occurrences: Occurrence[];
+  /** 0-1 likelihood that this is the root cause (see ranking.ts). */
+  confidence: number;
+}
+
+export interface OccurrenceStats {
+  total: number;
+  byFile: Record<string, number>;
+  byCode: Record<string, number>;
+}
+
+export interface SourceLocation {
+  file: string;
+  line: number;
+  col: number;
+}
+
+export interface ParsedError {
+  /** Error class from the first `Name: message` line, e.g. 'TypeError'. */
+  type: string | null;
+  message: string;
+  location: SourceLocation | null;
+  /** Every error, cause and sub-error found in the input, with all frames. */
+  stack: StackError[];
+  /** Interpolated fixes, one per matched entry, most likely first. */
+  suggestions: string[];
+  matches: MatchResult[];
+}
+
+const ERROR_CODE = /\b(TS\d{4,5}|ERR_[A-Z0-9_]+|E[A-Z]{3,}[A-Z0-9_]*|P\d{4}|E\d{4})\b/;
+
+/** Error code named on a line, if any. */
+export function errorCodeOf(line: string): string | null {
+  const m = line.match(ERROR_CODE);
+  return m ? m[1] : null;
+}
+
+export interface StreamAnalyzerOptions {
+  /**
+   * Test each line only against entries whose literal anchor it contains
+   * (see matcher.ts). Turn off to test every entry on every line.
+   */
+  indexed?: boolean;
+  /**
+   * Strip CI formatting (colors, timestamps, task prefixes) off each line
+   * and track its segment first. Default true.
+   */
+  preprocess?: boolean;
+}
+
+interface WindowLine {
+  text: string;
+  lineNumber: number;
+  block: number;
+  hits: number[];
+}
+
+/** Block tracking and the recent-lines window of one segment's output. */
+interface Lane {
+  blocks: BlockTracker;
+  /** `blocks.block` the last time it changed, and the analyzer-wide number given to it. */
+  local: number;
+  block: number;
+  window: WindowLine[];
+}
+
+/**
+ * Incremental matcher: feed it lines as they arrive and it returns new
+ * matches right away. Multi-line entries (patterns containing `\n`) are
+ * tested against a window of the most recent non-empty lines, so only a
+ * few lines are ever held in memory.
+ *
+ * Output of parallel workspace tasks is interleaved line by line, so each
+ * segment gets its own blocks and window.
+ */
+export class StreamAnalyzer {
+  private byTitle = new Map<string, MatchResult>();
+  private spans: number[];
+  private windowSize: number;
+  private index: PatternIndex | null;
+  private allEntries: number[];
+  private lineNumber = 0;
+  private blockCount = 0;
+  private lanes = new Map<string, Lane>();
+  private lastLane: { segment: LogSegment | null; lane: Lane } | null = null;
+  private preprocessor: LogPreprocessor | null;
+  readonly matches: MatchResult[] = [];
+
+  constructor(private db: readonly ErrorEntry[] = ERROR_DB, options: StreamAnalyzerOptions = {}) {
+    this.index = options.indexed === false ? null : new PatternIndex(db);
+    this.spans = this.index?.spans ?? db.map(e => patternLineSpan(e.pattern));
+    this.windowSize = Math.max(1, ...this.spans);
+    this.allEntries = db.map((_, i) => i);
+    this.preprocessor = options.preprocess === false ? null : new LogPreprocessor();
+  }
+
+  private lane(segment: LogSegment | null): Lane {
+    if (this.lastLane?.segment === segment) return this.lastLane.lane;
+    const key = segment?.package ? `${segment.package}\0${segment.task}` : '';
+    let lane = this.lanes.get(key);
+    if (!lane) {
+      lane = { blocks: new BlockTracker(), local: 0, block: 0, window: [] };
+      this.lanes.set(key, lane);
+    }
+    this.lastLane = { segment, lane };
+    return lane;
+  }
+
+  /**
+   * Analyze the next line of input. Returns entries matched for the first
+   * time; repeats are added to the existing result's `occurrences`.
+   */
+  push(rawLine: string): MatchResult[] {
+    this.lineNumber++;
+    const { text, segment } = this.preprocessor ? this.preprocessor.push(rawLine) : { text: rawLine, segment: null };
+    const line = text.trim();
+    const lane = this.lane(segment);
+    if (!lane.blocks.push(text)) return [];
+    if (lane.blocks.block !== lane.local) {
+      lane.local = lane.blocks.block;
+      lane.block = ++this.blockCount;
+    }
+    const language = lane.blocks.language?.name;
+    const window = lane.window;
+
+    window.push({ text: line, lineNumber: this.lineNumber, block: lane.block, hits: this.index?.scan(line) ?? [] });
+    if (window.length > this.windowSize) window.shift();
+
+    const candidates = this.index ? this.index.candidates(window.map(w => w.hits)) : this.allEntries;
+    const found: MatchResult[] = [];
+    for (const i of candidates) {
+      const entry = this.db[i];
+      const span = this.spans[i];
+      if (span > window.length) continue;
+      if (entry.language && entry.language !== language) continue;
+      const lines = window.slice(-span);
+      const match = span === 1 ? line.match(entry.pattern) : lines.map(l => l.text).join('\n').match(entry.pattern);
+      if (!match) continue;
+
+      const matchedLine = span === 1 ? line : match[0];
+      const occurrence: Occurrence = {
+        line: matchedLine,
+        lineNumber: lines[0].lineNumber,
+        groups: match.slice(1),
+        named: Object.fromEntries(Object.entries(match.groups ?? {}).map(([k, v]) => [k, v ?? ''])),
+        location: parseDiagnosticLocation(lines[0].text),
+        code: errorCodeOf(matchedLine),
+        block: lines[0].block,
+        segment,
+      };
+
+      // Entries sharing a title are one result; each line counts once
+      const existing = this.byTitle.get(entry.title);
+      if (existing) {
+        if (existing.occurrences[existing.occurrences.length - 1].lineNumber !== occurrence.lineNumber) {
+          existing.occurrences.push(occurrence);
+        }
+        continue;
+      }
+
+      const result: MatchResult = {
+        entry,
+        matchedLine,
+        lineNumber: occurrence.lineNumber,
+        groups: occurrence.groups,
+        named: occurrence.named,
+        occurrences: [occurrence],
+        confidence: 0,
+      };
+      this.byTitle.set(entry.title, result);
+      found.push(result);
+    }
+
+    this.matches.push(...found);
+    // Provisional until rankMatches sees the whole input
+    if (found.length) scoreMatches(this.matches);
+    return found;
+  }
+}
+
+/** Totals across every occurrence of every match, by file and by error code. */
+export function occurrenceStats(matches: MatchResult[]): OccurrenceStats {
+  const stats: OccurrenceStats = { total: 0, byFile: {}, byCode: {} };
+  for (const m of matches) {
+    for (const o of m.occurrences) {
+      stats.total++;
+      if (o.location) stats.byFile[o.location.file] = (stats.byFile[o.location.file] || 0) + 1;
+      if (o.code) stats.byCode[o.code] = (stats.byCode[o.code] || 0) + 1;
+    }
+  }
+  return stats;
+}
+
+/**
+ * Matches under each segment that printed one of their occurrences, the
+ * segment with the most likely root cause first. A match seen in several
+ * segments is listed under each; lines outside any segment are left out.
+ */
+export function matchesBySegment(matches: MatchResult[]): { segment: LogSegment; matches: MatchResult[] }[] {
+  const groups = new Map<LogSegment, MatchResult[]>();
+  for (const m of matches) {
+    for (const o of m.occurrences) {
+      if (!o.segment) continue;
+      const listed = groups.get(o.segment) ?? [];
+      if (listed[listed.length - 1] !== m) listed.push(m);
+      groups.set(o.segment, listed);
+    }
+  }
+  return Array.from(groups, ([segment, matches]) => ({ segment, matches }));
+}
+
+/** Every entry the input matches, most likely root cause first. */
+export function analyzeInput(input: string, db: readonly ErrorEntry[] = ERROR_DB, options: StreamAnalyzerOptions = {}): MatchResult[] {
+  const analyzer = new StreamAnalyzer(db, options);
+  for (const line of input.split('\n')) {
+    analyzer.push(line);
+  }
+  return rankMatches(analyzer.matches);
+}
+
+/** First frame in user code anywhere in the error tree. */
+export function stackLocation(stack: StackError[]): SourceLocation | null {
+  for (const err of flattenErrors(stack)) {
+    const frame = err.frames.find(f => f.isUserCode && f.line !== null);
+    if (frame) {
+      return { file: frame.file!, line: frame.line!, col: frame.col ?? 1 };
+    }
+  }
+  return null;
+}
+
+/**
+ * Best source location for the input. Pass `stack` to use an already parsed
+ * (for example source-mapped) tree instead of re-parsing the input.
+ */
+export function extractStackInfo(input: string, stack: StackError[] = parseStack(input)): SourceLocation | null {
+  const fromStack = stackLocation(stack);
+  if (fromStack) return fromStack;
+
+  // Fall back to compiler and linter diagnostics (`src/a.ts(3,7): error ...`)
+  for (const line of input.split('\n')) {
+    const loc = parseDiagnosticLocation(line);
+    if (loc) return loc;
+  }
+  return null;
+}
+
+/** Named captures and computed variables of a match's first occurrence. */
+export function matchValues(match: MatchResult): Record<string, string> {
+  return templateValues(match.entry, match.groups, match.named);
+}
+
+export function getSuggestions(input: string, db: readonly ErrorEntry[] = ERROR_DB): string[] {
+  return analyzeInput(input, db).map(m => interpolate(m.entry.fix, m.groups, matchValues(m)));
+}
+
+export function parseError(input: string, db: readonly ErrorEntry[] = ERROR_DB): ParsedError {
+  const matches = analyzeInput(input, db);
+  const headline = input.split('\n').map(l => l.trim()).find(l => l.length > 0) || '';
+  const head = headline.match(/^(?:Uncaught\s+)?([A-Z][\w$]*(?:Error|Exception|Warning))(?:\s*\[[^\]]+\])?:\s*(.*)$/);
+
+  return {
+    type: head ? head[1] : null,
+    message: head ? head[2] : headline,
+    location: extractStackInfo(input),
+    stack: parseStack(input),
+    suggestions: matches.map(m => interpolate(m.entry.fix, m.groups, matchValues(m))),
+    matches,
+  };
+}
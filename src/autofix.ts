@@ -0,0 +1,216 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { matchValues, type MatchResult } from './analyze.js';
+import { type ErrorEntry } from './database.js';
+import { interpolate, templateReferences } from './template.js';
+
+// ── Auto-fix Planning ──
+
+/**
+ * `launches` starts a program (a dev server, a script, a REPL) rather than
+ * fixing something and exiting. `shell-only` only changes the shell it runs
+ * in (`export`, `ulimit`), which is gone once the command's subshell exits.
+ */
+export type CommandRisk = 'safe' | 'launches' | 'shell-only' | 'destructive' | 'privileged';
+
+export interface FixStep {
+  /** Title of the entry that suggested the command. */
+  title: string;
+  /** Command for this platform with `$1` groups quoted in, before placeholders are filled. */
+  template: string;
+  /** Command with every placeholder resolved, or null while some are missing. */
+  command: string | null;
+  /** Placeholder values found in the error text. */
+  resolved: Record<string, string>;
+  /** Placeholder names that couldn't be resolved from the error text. */
+  missing: string[];
+  /** Risk of the entry's command as written, so captured text can't lower it. */
+  risk: CommandRisk;
+}
+
+/**
+ * Resolvers for named `$NAME` placeholders. Each one is tried against the
+ * matched line first and then against the whole input.
+ */
+const NAMED_RESOLVERS: Record<string, RegExp[]> = {
+  PORT: [
+    /EADDRINUSE[^\n]*?:(\d{2,5})\b/i,
+    /\bport\s+(\d{2,5})\b/i,
+    /(?:localhost|127\.0\.0\.1|0\.0\.0\.0|::):(\d{2,5})\b/i,
+  ],
+  PID: [/\bpid[:=\s]+(\d+)\b/i],
+};
+
+const PRIVILEGED = /(^|[;&|(]\s*)(sudo|doas|su|runas|pkexec)\b/;
+const DESTRUCTIVE = [
+  /(^|[;&|]\s*)rm\s+-\w*[rf]/,
+  /(^|[;&|]\s*)(rmdir|del|rd)\s/i,
+  /--force\b/,
+  /\bcache clean\b/,
+  /\bsystem prune\b/,
+  /\bgit\s+(reset\s+--hard|clean\s+-\w*f|push\s+(-f|--force))/,
+  /\bchmod\s+-R\b/,
+  /\bchown\s+-R\b/,
+  /(^|[;&|]\s*)(kill|killall|pkill|taskkill)\b/,
+  /\bkill-port\b/,
+  /\bmigrate\s+(reset|dev)\b/,
+];
+
+const LAUNCHES = [
+  /(^|[;&|]\s*)(node|deno|python3?)(?!\s+-m\b)(\s|$)/,
+  /\b(npm|pnpm|yarn|bun)\s+(start|run\s+(dev|start|serve|watch))\b/,
+  /(^|[;&|]\s*)open\s/,
+];
+
+/** Builtins whose whole effect is on the shell that runs them. */
+const SHELL_ONLY = /^(export|set|unset|ulimit|cd|source|\.|alias)(\s|$)/;
+
+/** System package managers, which a fix can only use where they are installed. */
+const PACKAGE_MANAGERS = new Set(['apt-get', 'apt', 'dnf', 'yum', 'pacman', 'zypper', 'apk', 'brew', 'port', 'choco', 'winget', 'scoop']);
+
+/** Each command in a `&&`, `||` or `;` chain, trimmed. */
+function commandSegments(cmd: string): string[] {
+  return cmd.split(/&&|\|\||;/).map(part => part.trim()).filter(Boolean);
+}
+
+/** Whether an executable is on PATH (with PATHEXT on Windows). */
+export function isOnPath(name: string): boolean {
+  const exts = process.platform === 'win32' ? (process.env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';') : [''];
+  for (const dir of (process.env.PATH ?? '').split(path.delimiter).filter(Boolean)) {
+    for (const ext of exts) {
+      try {
+        fs.accessSync(path.join(dir, name + ext), fs.constants.X_OK);
+        return true;
+      } catch {
+        // Not in this directory
+      }
+    }
+  }
+  return false;
+}
+
+/** System package managers a command calls, with or without `sudo`. */
+export function packageManagersUsed(cmd: string): string[] {
+  return commandSegments(cmd)
+    .map(segment => segment.replace(/^(sudo|doas)\s+(-\S+\s+)*/, '').split(/\s+/)[0])
+    .filter(program => PACKAGE_MANAGERS.has(program));
+}
+
+/** The auto-fix command an entry suggests on a platform, or null if it has none there. */
+export function selectCommand(entry: ErrorEntry, platform: NodeJS.Platform = process.platform): string | null {
+  const variants = entry.autoFixCmdByPlatform;
+  if (variants && platform in variants) return variants[platform] ?? null;
+  return entry.autoFixCmd ?? null;
+}
+
+export function classifyCommand(cmd: string): CommandRisk {
+  if (commandSegments(cmd).every(segment => SHELL_ONLY.test(segment))) return 'shell-only';
+  if (PRIVILEGED.test(cmd)) return 'privileged';
+  if (DESTRUCTIVE.some(re => re.test(cmd))) return 'destructive';
+  if (LAUNCHES.some(re => re.test(cmd))) return 'launches';
+  return 'safe';
+}
+
+/**
+ * A value quoted to reach the command as one argument: single quotes for
+ * POSIX shells, double quotes for cmd.exe. Null when it can't be passed
+ * safely: text starting with `-` would be read as an option, and cmd.exe
+ * expands `%` and `!` and can't escape `"` inside quotes.
+ */
+export function shellQuote(value: string, platform: NodeJS.Platform = process.platform): string | null {
+  if (value.startsWith('-')) return null;
+  if (/^[\w@+=:,./-]+$/.test(value)) return value;
+  if (platform !== 'win32') return `'${value.replace(/'/g, `'\\''`)}'`;
+  return /["%!\r\n]/.test(value) ? null : `"${value}"`;
+}
+
+/** Names of `$NAME` and `<name>` placeholders in a command. `$1`-style groups aren't included. */
+export function findPlaceholders(cmd: string): string[] {
+  const names = new Set<string>();
+  for (const m of cmd.matchAll(/\$([A-Z][A-Z0-9_]*)\b|<([a-z][\w-]*)>/g)) {
+    names.add(m[1] ?? m[2]);
+  }
+  return Array.from(names);
+}
+
+function resolveNamed(name: string, match: MatchResult, input: string): string | null {
+  for (const re of NAMED_RESOLVERS[name] ?? []) {
+    const found = match.matchedLine.match(re) ?? input.match(re);
+    if (found) return found[1];
+  }
+  return null;
+}
+
+/**
+ * Fill `$NAME` and `<name>` placeholders from `values`, each quoted with
+ * shellQuote; returns the names still missing, including any whose value
+ * can't be quoted.
+ */
+export function fillPlaceholders(
+  template: string,
+  values: Record<string, string>,
+  platform: NodeJS.Platform = process.platform,
+): { command: string; missing: string[] } {
+  const missing: string[] = [];
+  const command = template.replace(/\$([A-Z][A-Z0-9_]*)\b|<([a-z][\w-]*)>/g, (whole, upper: string | undefined, lower: string | undefined) => {
+    const name = upper ?? lower!;
+    const quoted = name in values ? shellQuote(values[name], platform) : null;
+    if (quoted !== null) return quoted;
+    if (!missing.includes(name)) missing.push(name);
+    return whole;
+  });
+  return { command, missing };
+}
+
+/**
+ * One step per distinct command suggested by the matches, with `$1` groups
+ * and any named placeholders the error text can answer already filled in.
+ * A command that needs a `$<variable>` the error didn't provide, a captured
+ * value that can't be quoted, or a system package manager `hasProgram`
+ * can't find is dropped. PATH is only searched for this machine's platform.
+ */
+export function buildFixPlan(
+  matches: MatchResult[],
+  input: string,
+  platform: NodeJS.Platform = process.platform,
+  hasProgram: (name: string) => boolean = platform === process.platform ? isOnPath : () => true,
+): FixStep[] {
+  const steps: FixStep[] = [];
+  const seen = new Set<string>();
+
+  for (const m of matches) {
+    const selected = selectCommand(m.entry, platform);
+    if (!selected) continue;
+
+    const variables = matchValues(m);
+    if (templateReferences(selected).names.some(name => !variables[name])) continue;
+    if (packageManagersUsed(selected).some(pm => !hasProgram(pm))) continue;
+
+    let unquotable = false;
+    const template = interpolate(selected, m.groups, variables, value => {
+      const quoted = shellQuote(value, platform);
+      if (quoted === null) unquotable = true;
+      return quoted ?? '';
+    });
+    if (unquotable) continue;
+
+    const values: Record<string, string> = {};
+    for (const name of findPlaceholders(template)) {
+      const value = variables[name] || resolveNamed(name, m, input);
+      if (value && shellQuote(value, platform) !== null) values[name] = value;
+    }
+    const { command, missing } = fillPlaceholders(template, values, platform);
+    if (seen.has(command)) continue;
+    seen.add(command);
+
+    steps.push({
+      title: m.entry.title,
+      template,
+      command: missing.length ? null : command,
+      resolved: values,
+      missing,
+      risk: classifyCommand(selected),
+    });
+  }
+  return steps;
+}
@@ -0,0 +1,1234 @@
+#!/usr/bin/env node
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { spawnSync } from 'node:child_process';
+import * as readline from 'node:readline';
+import { c } from './colors.js';
+import { type ErrorEntry } from './database.js';
+import { StreamAnalyzer, analyzeInput, extractStackInfo, matchesBySegment, occurrenceStats, type MatchResult } from './analyze.js';
+import { rankMatches } from './ranking.js';
+import { frameGroup, parseStack, type StackError, type StackFrame } from './stack.js';
+import { buildFixPlan, fillPlaceholders, type CommandRisk, type FixStep } from './autofix.js';
+import { buildCodeFrame, contextLocations, highlightCandidates, type CodeFrame } from './codeframe.js';
+import { applySourceMaps } from './sourcemap.js';
+import { followFile } from './follow.js';
+import { getFormatter, listFormatters } from './formatters.js';
+import { buildResults } from './results.js';
+import { runCommand } from './run.js';
+import { PackError, buildDatabase, entrySource, loadPackFile, loadPatternPacks, type PatternPack } from './packs.js';
+import { verifyDatabase, type VerifyIssue } from './verify.js';
+import { adaptDatabase, probeProject, type ProjectFacts } from './probe.js';
+import { runDoctor } from './doctor.js';
+import { renderFix } from './render.js';
+import { loadRedactionRules, redact, redactValue, type RedactionRule } from './redact.js';
+import { buildReport, reportMarkdown } from './report.js';
+import { cleanLog, segmentLabel } from './preprocess.js';
+import { FallbackError, createProvider, fallbackMatches, isFallbackEntry, loadFallbackCache, loadFallbackConfig, needsFallback, type FallbackConfig } from './fallback.js';
+import {
+  KNOWLEDGE_FILE,
+  KNOWLEDGE_SOURCE,
+  KnowledgeError,
+  errorHeadline,
+  findKnowledgeBase,
+  historyEntries,
+  learnFix,
+  loadKnowledgeBase,
+  recordDiagnosis,
+  recordLine,
+  saveKnowledgeBase,
+  type KnowledgeBase,
+} from './knowledge.js';
+
+// ── Display ──
+
+/** console.log for a given stream, so a diagnosis can go to stderr under `ai-error run`. */
+function printer(out: NodeJS.WriteStream): (line?: string) => void {
+  return (line = '') => {
+    out.write(`${line}\n`);
+  };
+}
+
+function printBanner(out: NodeJS.WriteStream = process.stdout): void {
+  const log = printer(out);
+  log('');
+  log(`${c.bgRed}${c.white}${c.bold}  AI-ERROR  ${c.reset} ${c.red}Error Parser & Fix Suggestions${c.reset}`);
+  log(`${c.dim}  by LXGIC Studios | 200+ error patterns${c.reset}`);
+  log('');
+}
+
+function severityColor(sev: string): string {
+  if (sev === 'error') return c.red;
+  if (sev === 'warning') return c.yellow;
+  return c.blue;
+}
+
+function severityIcon(sev: string): string {
+  if (sev === 'error') return `${c.red}✗${c.reset}`;
+  if (sev === 'warning') return `${c.yellow}⚠${c.reset}`;
+  return `${c.blue}ℹ${c.reset}`;
+}
+
+function formatFrame(frame: StackFrame, verbose: boolean): string {
+  const fn = frame.functionName ?? '<anonymous>';
+  const markers = [
+    frame.isAsync ? 'async' : '',
+    frame.isConstructor ? 'new' : '',
+    frame.isEval ? 'eval' : '',
+    frame.isNative ? 'native' : '',
+  ].filter(Boolean);
+  const tag = markers.length ? ` ${c.dim}[${markers.join(', ')}]${c.reset}` : '';
+  const loc = frame.file
+    ? ` ${c.dim}(${c.reset}${frame.file}${frame.line !== null ? `:${c.yellow}${frame.line}${c.reset}` : ''}${frame.col !== null ? `:${c.dim}${frame.col}` : ''}${c.dim})${c.reset}`
+    : '';
+  const generated = verbose && frame.generated
+    ? ` ${c.dim}← ${frame.generated.file}:${frame.generated.line}${frame.generated.col !== null ? `:${frame.generated.col}` : ''}${c.reset}`
+    : '';
+  return `${fn}${loc}${tag}${generated}`;
+}
+
+function printStackError(err: StackError, indent: string, label: string, verbose: boolean, out: NodeJS.WriteStream): void {
+  const log = printer(out);
+  const name = err.name ? `${err.name}${err.code ? ` [${err.code}]` : ''}` : '';
+  const heading = [name, err.message].filter(Boolean).join(': ') || '(no message)';
+  log(`${indent}${label}${c.bold}${c.red}${heading}${c.reset}`);
+
+  // Library frames are collapsed into one line per run unless --verbose
+  const frames = err.frames;
+  for (let i = 0; i < frames.length; i++) {
+    if (verbose || frames[i].isUserCode) {
+      const marker = frames[i].isUserCode ? `${c.green}›${c.reset}` : `${c.dim}·${c.reset}`;
+      log(`${indent}  ${marker} ${formatFrame(frames[i], verbose)}`);
+      continue;
+    }
+    const groups = new Map<string, number>();
+    let j = i;
+    while (j < frames.length && !frames[j].isUserCode) {
+      const group = frameGroup(frames[j]);
+      groups.set(group, (groups.get(group) || 0) + 1);
+      j++;
+    }
+    const count = j - i;
+    const summary = Array.from(groups.entries()).map(([g, n]) => (n > 1 ? `${g} ×${n}` : g)).join(', ');
+    log(`${indent}  ${c.dim}… ${count} library frame${count > 1 ? 's' : ''} (${summary})${c.reset}`);
+    i = j - 1;
+  }
+
+  err.errors.forEach((sub, n) => printStackError(sub, indent + '  ', `${c.dim}[${n + 1}/${err.errors.length}]${c.reset} `, verbose, out));
+  if (err.cause) printStackError(err.cause, indent + '  ', `${c.dim}Caused by:${c.reset} `, verbose, out);
+}
+
+function countLabel(counts: Record<string, number>, limit: number): string {
+  const sorted = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  const shown = sorted.slice(0, limit).map(([k, n]) => `${k} ×${n}`);
+  if (sorted.length > limit) shown.push(`… ${sorted.length - limit} more`);
+  return shown.join(', ');
+}
+
+/** Compact per-entry counts; --verbose lists every occurrence. */
+function printOccurrenceSection(matches: MatchResult[], verbose: boolean, out: NodeJS.WriteStream): void {
+  const log = printer(out);
+  const repeated = matches.filter(m => m.occurrences.length > 1);
+  if (repeated.length === 0) return;
+
+  log(`${c.dim}${'─'.repeat(60)}${c.reset}`);
+  log(`${c.bold}${c.magenta}Occurrences:${c.reset}`);
+  for (const m of repeated) {
+    const stats = occurrenceStats([m]);
+    const fileCount = Object.keys(stats.byFile).length;
+    const code = Object.entries(stats.byCode).sort((a, b) => b[1] - a[1])[0]?.[0];
+    const label = code ? `${code} ` : '';
+    const where = fileCount ? ` in ${fileCount} file${fileCount !== 1 ? 's' : ''}` : '';
+    log(`  ${severityIcon(m.entry.severity)} ${c.bold}${label}×${m.occurrences.length}${c.reset}${where} ${c.dim}${m.entry.title}${c.reset}`);
+
+    if (verbose) {
+      for (const o of m.occurrences) {
+        const loc = o.location ? `${o.location.file}:${o.location.line}:${o.location.col}` : `line ${o.lineNumber}`;
+        log(`      ${c.white}${loc}${c.reset} ${c.dim}${o.line.split('\n')[0].substring(0, 100)}${c.reset}`);
+      }
+    } else if (fileCount) {
+      log(`      ${c.dim}${countLabel(stats.byFile, 3)}${c.reset}`);
+    }
+  }
+
+  const all = occurrenceStats(matches);
+  if (Object.keys(all.byCode).length > 1) {
+    log(`  ${c.dim}By code: ${countLabel(all.byCode, 8)}${c.reset}`);
+  }
+  log('');
+}
+
+/** Which workspace packages (or CI steps) failed, and with what. */
+function printSegmentSection(matches: MatchResult[], out: NodeJS.WriteStream): void {
+  const log = printer(out);
+  const segments = matchesBySegment(matches);
+  if (segments.length === 0) return;
+
+  log(`${c.dim}${'─'.repeat(60)}${c.reset}`);
+  log(`${c.bold}${c.magenta}By package:${c.reset}`);
+  for (const { segment, matches: found } of segments) {
+    const worst = found.some(m => m.entry.severity === 'error') ? 'error' : found.some(m => m.entry.severity === 'warning') ? 'warning' : 'info';
+    log(`  ${severityIcon(worst)} ${c.bold}${segmentLabel(segment)}${c.reset} ${c.dim}${found.length} diagnos${found.length !== 1 ? 'es' : 'is'}${c.reset}`);
+    for (const m of found) {
+      log(`      ${severityColor(m.entry.severity)}${m.entry.title}${c.reset} ${c.dim}(line ${m.occurrences.find(o => o.segment === segment)!.lineNumber})${c.reset}`);
+    }
+  }
+  log('');
+}
+
+function printStackSection(stack: StackError[], verbose: boolean, out: NodeJS.WriteStream): void {
+  const log = printer(out);
+  if (!stack.some(err => err.frames.length > 0 || err.cause || err.errors.length > 0)) return;
+
+  log(`${c.dim}${'─'.repeat(60)}${c.reset}`);
+  log(`${c.bold}${c.magenta}Stack Trace:${c.reset}`);
+  for (const err of stack) printStackError(err, '  ', '', verbose, out);
+  log('');
+}
+
+function printCodeFrame(frame: CodeFrame, out: NodeJS.WriteStream): void {
+  const log = printer(out);
+  log(`  ${c.white}${frame.file}${c.reset}:${c.yellow}${frame.line}${c.reset}:${c.dim}${frame.col}${c.reset}`);
+  const width = String(frame.lines[frame.lines.length - 1].number).length;
+
+  for (const { number, text } of frame.lines) {
+    const isTarget = number === frame.line;
+    const gutter = `${isTarget ? `${c.red}>${c.reset}` : ' '} ${c.dim}${String(number).padStart(width)} |${c.reset}`;
+    log(`  ${gutter} ${isTarget ? text : `${c.dim}${text}${c.reset}`}`);
+    if (!isTarget) continue;
+
+    // Caret under the column, tildes under the identifier from the match
+    const marks: string[] = [];
+    const end = Math.max(frame.col, frame.highlight?.end ?? 0);
+    for (let col = 1; col <= end; col++) {
+      if (col === frame.col) marks.push('^');
+      else if (frame.highlight && col >= frame.highlight.start && col <= frame.highlight.end) marks.push('~');
+      else marks.push(text[col - 1] === '\t' ? '\t' : ' ');
+    }
+    log(`    ${' '.repeat(width)} ${c.dim}|${c.reset} ${c.red}${c.bold}${marks.join('').trimEnd()}${c.reset}`);
+  }
+  log('');
+}
+
+function printCodeSection(codeFrames: CodeFrame[], out: NodeJS.WriteStream): void {
+  const log = printer(out);
+  if (codeFrames.length === 0) return;
+  log(`${c.dim}${'─'.repeat(60)}${c.reset}`);
+  log(`${c.bold}${c.magenta}Code Context:${c.reset}`);
+  codeFrames.forEach(frame => printCodeFrame(frame, out));
+}
+
+function riskLabel(risk: CommandRisk): string {
+  if (risk === 'privileged') return `${c.bgRed}${c.white}${c.bold} privileged ${c.reset}`;
+  if (risk === 'destructive') return `${c.bgYellow}${c.bold} destructive ${c.reset}`;
+  if (risk === 'launches') return `${c.bgMagenta}${c.bold} launches ${c.reset}`;
+  if (risk === 'shell-only') return `${c.dim}[ shell-only ]${c.reset}`;
+  return `${c.bgGreen}${c.bold} safe ${c.reset}`;
+}
+
+function confidenceLabel(confidence: number): string {
+  const color = confidence >= 0.75 ? c.green : confidence >= 0.5 ? c.yellow : c.dim;
+  return `${color}${Math.round(confidence * 100)}% likely${c.reset}`;
+}
+
+function printMatch(match: MatchResult, input: string, autoFix: boolean, out: NodeJS.WriteStream = process.stdout): void {
+  const log = printer(out);
+  const { entry, matchedLine, lineNumber } = match;
+  const sc = severityColor(entry.severity);
+  const icon = severityIcon(entry.severity);
+
+  log(`${c.dim}${'─'.repeat(60)}${c.reset}`);
+  const times = match.occurrences.length > 1 ? ` ${c.bold}×${match.occurrences.length}${c.reset}` : '';
+  log(`${icon} ${c.bold}${sc}${entry.title}${c.reset}${times} ${c.dim}[${entry.category}]${c.reset} ${confidenceLabel(match.confidence)}`);
+  if (isFallbackEntry(entry)) {
+    log(`  ${c.dim}Suggested by ${entry.source!.slice(entry.source!.indexOf(':') + 1)}, not the error database; check it before acting on it.${c.reset}`);
+  }
+  log('');
+
+  // Matched line, and the package that printed it
+  const segment = match.occurrences[0].segment;
+  const where = segment ? ` ${c.cyan}${segmentLabel(segment)}${c.reset}${c.dim}` : '';
+  log(`  ${c.dim}Line ${lineNumber}${where}:${c.reset} ${c.white}${matchedLine.split('\n')[0].substring(0, 120)}${c.reset}`);
+  log('');
+
+  // Explanation
+  log(`  ${c.cyan}Why:${c.reset} ${entry.explanation}`);
+  log('');
+
+  // Fix and steps with captures and variables filled in
+  const { fix, steps, docs, autoFixCmd } = renderFix(match, input);
+  log(`  ${c.green}Fix:${c.reset} ${fix}`);
+  steps.forEach((step, i) => {
+    log(`    ${c.bold}${i + 1}.${c.reset} ${step.text}`);
+    if (step.code) {
+      for (const line of step.code.split('\n')) log(`       ${c.cyan}${line}${c.reset}`);
+    }
+  });
+
+  // Auto-fix command for this platform, placeholders filled where the error says
+  if (autoFixCmd) {
+    log('');
+    if (autoFix) {
+      log(`  ${c.bold}${c.yellow}Suggested command:${c.reset}`);
+      log(`  ${c.bgYellow}${c.bold} $ ${autoFixCmd} ${c.reset}`);
+    } else {
+      log(`  ${c.dim}Auto-fix: ${autoFixCmd}${c.reset}`);
+    }
+  }
+
+  if (docs.length) {
+    log('');
+    for (const doc of docs) log(`  ${c.blue}Docs:${c.reset} ${doc.title} ${c.dim}${doc.url}${c.reset}`);
+  }
+  log('');
+}
+
+/**
+ * `streamed` means the match blocks were already printed as they were found.
+ * `recorded` is what the knowledge base recorded this run as, null without one.
+ */
+function printResults(matches: MatchResult[], input: string, stack: StackError[], codeFrames: CodeFrame[], autoFix: boolean, verbose: boolean, streamed = false, recorded: string[] | null = null, out: NodeJS.WriteStream = process.stdout): void {
+  const log = printer(out);
+  if (matches.length === 0) {
+    log(`${c.yellow}No known error patterns found.${c.reset}`);
+    log(`${c.dim}If this is a new error, check Stack Overflow or the project's issue tracker.${c.reset}`);
+    if (recorded?.length) {
+      log(`${c.dim}Recorded as ${recorded[0]}. Once you know the fix: ai-error learn --id ${recorded[0]} --fix "..."${c.reset}`);
+    } else if (!recorded) {
+      log(`${c.dim}Run ai-error history --init to remember errors like this and the fixes your team finds.${c.reset}`);
+    }
+    log('');
+    printStackSection(stack, verbose, out);
+    printCodeSection(codeFrames, out);
+    return;
+  }
+
+  if (!streamed) {
+    const order = matches.length > 1 ? ` ${c.dim}(most likely root cause first)${c.reset}` : '';
+    log(`${c.bold}Found ${matches.length} error${matches.length > 1 ? 's' : ''}:${c.reset}${order}`);
+    log('');
+
+    for (const match of matches) {
+      printMatch(match, input, autoFix, out);
+    }
+  }
+
+  // Stack trace info
+  const stackInfo = extractStackInfo(input, stack);
+  if (stackInfo) {
+    log(`${c.dim}${'─'.repeat(60)}${c.reset}`);
+    log(`${c.bold}${c.magenta}Source Location:${c.reset}`);
+    log(`  ${c.white}${stackInfo.file}${c.reset}:${c.yellow}${stackInfo.line}${c.reset}:${c.dim}${stackInfo.col}${c.reset}`);
+    log('');
+  }
+
+  printStackSection(stack, verbose, out);
+
+  printCodeSection(codeFrames, out);
+
+  printOccurrenceSection(matches, verbose, out);
+
+  printSegmentSection(matches, out);
+
+  // Summary
+  const errors = matches.filter(m => m.entry.severity === 'error').length;
+  const warnings = matches.filter(m => m.entry.severity === 'warning').length;
+  const infos = matches.filter(m => m.entry.severity === 'info').length;
+
+  log(`${c.dim}${'─'.repeat(60)}${c.reset}`);
+  if (matches.length > 1 && streamed) {
+    // Blocks above were printed in arrival order with provisional scores
+    log(`${c.bold}Ranked by likelihood:${c.reset}`);
+    matches.forEach((m, i) => {
+      log(`  ${i + 1}. ${severityColor(m.entry.severity)}${m.entry.title}${c.reset} ${c.dim}(line ${m.lineNumber})${c.reset} ${confidenceLabel(m.confidence)}`);
+    });
+  } else if (matches.length > 1) {
+    const [top] = matches;
+    log(`${c.bold}Likely root cause:${c.reset} ${severityColor(top.entry.severity)}${top.entry.title}${c.reset} ${c.dim}(line ${top.lineNumber})${c.reset} ${confidenceLabel(top.confidence)}`);
+  }
+  const total = occurrenceStats(matches).total;
+  const totalNote = total > matches.length ? ` ${c.dim}(${total} occurrences)${c.reset}` : '';
+  log(`${c.bold}Summary:${c.reset} ${c.red}${errors} error${errors !== 1 ? 's' : ''}${c.reset} ${c.yellow}${warnings} warning${warnings !== 1 ? 's' : ''}${c.reset} ${c.blue}${infos} info${c.reset}${totalNote}`);
+  log('');
+}
+
+function printHelp(): void {
+  printBanner();
+  console.log(`${c.bold}Usage:${c.reset}`);
+  console.log(`  ${c.dim}$${c.reset} ai-error <error message>`);
+  console.log(`  ${c.dim}$${c.reset} ai-error "TypeError: Cannot read properties of undefined"`);
+  console.log(`  ${c.dim}$${c.reset} npm run build 2>&1 | ai-error`);
+  console.log(`  ${c.dim}$${c.reset} cat error.log | ai-error`);
+  console.log(`  ${c.dim}$${c.reset} ai-error run [options] -- <command> [args...]`);
+  console.log(`  ${c.dim}$${c.reset} ai-error db verify [pack.json...]`);
+  console.log(`  ${c.dim}$${c.reset} ai-error doctor`);
+  console.log(`  ${c.dim}$${c.reset} npm run build 2>&1 | ai-error report [--json] [--output <file>]`);
+  console.log(`  ${c.dim}$${c.reset} ai-error history [--init] [--unknown]`);
+  console.log(`  ${c.dim}$${c.reset} ai-error learn [--id <fingerprint> | <error message>] --fix <text>`);
+  console.log('');
+  console.log(`${c.bold}Options:${c.reset}`);
+  console.log(`  ${c.cyan}--auto-fix${c.reset}     Show suggested fix commands prominently`);
+  console.log(`  ${c.cyan}--apply${c.reset}        Run the suggested fix commands (asks before destructive ones)`);
+  console.log(`  ${c.cyan}--dry-run${c.reset}      Show the fix plan and its risk labels without running anything`);
+  console.log(`  ${c.cyan}--yes${c.reset}          Don't ask before destructive commands`);
+  console.log(`  ${c.cyan}--allow-privileged${c.reset} Allow sudo and other privileged commands`);
+  console.log(`  ${c.cyan}--json${c.reset}         Output results as JSON (same as --format json)`);
+  console.log(`  ${c.cyan}--format <name>${c.reset} terminal, ${listFormatters().map(f => f.name).join(', ')}`);
+  console.log(`  ${c.cyan}--verbose${c.reset}      Show every stack frame instead of collapsing library frames`);
+  console.log(`  ${c.cyan}--no-source-maps${c.reset} Report compiled locations instead of resolving .map files`);
+  console.log(`  ${c.cyan}--context [N]${c.reset}  Show N lines of code around each location (default ${DEFAULT_CONTEXT_LINES})`);
+  console.log(`  ${c.cyan}--cwd <dir>${c.reset}    Resolve source paths and config from this directory`);
+  console.log(`  ${c.cyan}--follow <file>${c.reset} Tail a log file and diagnose errors as they appear`);
+  console.log(`  ${c.cyan}--from-start${c.reset}   With --follow, read the existing contents first`);
+  console.log(`  ${c.cyan}--list${c.reset}         List all known error patterns`);
+  console.log(`  ${c.cyan}--stats${c.reset}        Show error database statistics`);
+  console.log(`  ${c.cyan}--pack <name>${c.reset}  Load a pattern pack from an npm package (repeatable)`);
+  console.log(`  ${c.cyan}--allow-project-packs${c.reset} Load npm packs listed in the project's .ai-error.json`);
+  console.log(`  ${c.cyan}--no-config${c.reset}    Ignore .ai-error.json, user pattern packs and the knowledge base`);
+  console.log(`  ${c.cyan}--no-probe${c.reset}     Don't tailor fixes to the project's package manager, tsconfig and Node version`);
+  console.log(`  ${c.cyan}--no-history${c.reset}   Don't record this run in the knowledge base`);
+  console.log(`  ${c.cyan}--no-redact${c.reset}    Don't redact secrets, emails and home paths from shared output`);
+  console.log(`  ${c.cyan}--redact-pattern <regex>${c.reset} Also redact matches of this regex (repeatable)`);
+  console.log(`  ${c.cyan}--no-fallback${c.reset}  Don't ask the configured fallback provider about unknown errors`);
+  console.log(`  ${c.cyan}--help${c.reset}         Show this help message`);
+  console.log('');
+  console.log(`${c.bold}Pipe Support:${c.reset}`);
+  console.log(`  Pipe any error output directly into ai-error.`);
+  console.log(`  It'll match against 200+ known Node.js/TypeScript, Python, Go, Rust and Java error patterns.`);
+  console.log('');
+  console.log(`${c.bold}Examples:${c.reset}`);
+  console.log(`  ${c.dim}$${c.reset} node app.js 2>&1 | ai-error --auto-fix`);
+  console.log(`  ${c.dim}$${c.reset} tsc --noEmit 2>&1 | ai-error --json`);
+  console.log(`  ${c.dim}$${c.reset} ai-error "Cannot find module 'express'"`);
+  console.log(`  ${c.dim}$${c.reset} ai-error run -- npm run build`);
+  console.log('');
+}
+
+function printStats(db: ErrorEntry[], packs: PatternPack[]): void {
+  printBanner();
+
+  const categories = new Map<string, number>();
+  const sources = new Map<string, number>();
+  let errors = 0, warnings = 0, infos = 0;
+
+  for (const entry of db) {
+    categories.set(entry.category, (categories.get(entry.category) || 0) + 1);
+    sources.set(entrySource(entry), (sources.get(entrySource(entry)) || 0) + 1);
+    if (entry.severity === 'error') errors++;
+    else if (entry.severity === 'warning') warnings++;
+    else infos++;
+  }
+
+  console.log(`${c.bold}Error Database Statistics:${c.reset}`);
+  console.log(`  ${c.white}Total patterns:${c.reset} ${c.bold}${db.length}${c.reset}`);
+  console.log(`  ${c.red}Errors:${c.reset} ${errors}  ${c.yellow}Warnings:${c.reset} ${warnings}  ${c.blue}Info:${c.reset} ${infos}`);
+  console.log('');
+
+  console.log(`${c.bold}By Category:${c.reset}`);
+  const sorted = Array.from(categories.entries()).sort((a, b) => b[1] - a[1]);
+  for (const [cat, count] of sorted) {
+    const bar = '█'.repeat(count);
+    console.log(`  ${c.cyan}${cat.padEnd(18)}${c.reset} ${c.dim}${String(count).padStart(3)}${c.reset} ${c.blue}${bar}${c.reset}`);
+  }
+  console.log('');
+
+  console.log(`${c.bold}By Source:${c.reset}`);
+  for (const [source, count] of sources) {
+    const origin = packs.find(p => p.name === source)?.origin;
+    console.log(`  ${c.cyan}${source.padEnd(18)}${c.reset} ${c.dim}${String(count).padStart(3)}${c.reset}${origin ? ` ${c.dim}${origin}${c.reset}` : ''}`);
+  }
+  console.log('');
+}
+
+function printList(db: ErrorEntry[]): void {
+  printBanner();
+  console.log(`${c.bold}All ${db.length} Known Error Patterns:${c.reset}`);
+  console.log('');
+
+  let currentCategory = '';
+  const sorted = [...db].sort((a, b) => a.category.localeCompare(b.category));
+
+  for (const entry of sorted) {
+    if (entry.category !== currentCategory) {
+      currentCategory = entry.category;
+      console.log(`  ${c.bold}${c.cyan}${currentCategory}${c.reset}`);
+    }
+    const icon = severityIcon(entry.severity);
+    const source = entry.source ? ` ${c.dim}(${entry.source})${c.reset}` : '';
+    console.log(`    ${icon} ${c.white}${entry.title}${c.reset}${source}`);
+  }
+  console.log('');
+}
+
+// ── Applying Fixes ──
+
+interface Prompt {
+  ask(question: string): Promise<string>;
+  close(): void;
+}
+
+/**
+ * Prompt on the terminal even when the error text came in on a pipe, by
+ * reading /dev/tty. Returns null when there is no terminal to ask.
+ */
+function openPrompt(output: NodeJS.WritableStream): Prompt | null {
+  let input: NodeJS.ReadableStream = process.stdin;
+  if (!process.stdin.isTTY) {
+    try {
+      input = fs.createReadStream('', { fd: fs.openSync('/dev/tty', 'r') });
+    } catch {
+      return null;
+    }
+  }
+  const rl = readline.createInterface({ input, output });
+  return {
+    ask: question => new Promise(resolve => rl.question(question, answer => resolve(answer.trim()))),
+    close: () => {
+      rl.close();
+      if (input !== process.stdin) (input as fs.ReadStream).destroy();
+    },
+  };
+}
+
+interface ApplyOptions {
+  dryRun: boolean;
+  yes: boolean;
+  allowPrivileged: boolean;
+  cwd: string;
+  /** Where the plan and progress go; the commands' own output follows it. */
+  out: NodeJS.WriteStream;
+}
+
+async function applyFixes(plan: FixStep[], options: ApplyOptions): Promise<void> {
+  const log = printer(options.out);
+  log(`${c.dim}${'─'.repeat(60)}${c.reset}`);
+  if (plan.length === 0) {
+    log(`${c.dim}No fix commands to run for this platform (${process.platform}).${c.reset}`);
+    log('');
+    return;
+  }
+
+  log(`${c.bold}Fix Plan${options.dryRun ? ' (dry run)' : ''}:${c.reset}`);
+  plan.forEach((step, n) => {
+    const cmd = step.command ?? step.template;
+    const missing = step.missing.length ? ` ${c.yellow}needs ${step.missing.join(', ')}${c.reset}` : '';
+    log(`  ${n + 1}. ${riskLabel(step.risk)} ${c.white}${cmd}${c.reset}${missing}`);
+    log(`     ${c.dim}${step.title}${c.reset}`);
+  });
+  log('');
+  if (options.dryRun) return;
+
+  const prompt = openPrompt(options.out);
+  let failed = 0;
+  try {
+    for (const step of plan) {
+      let command = step.command;
+
+      if (command === null) {
+        if (!prompt) {
+          log(`${c.yellow}Skipped${c.reset} ${step.template} ${c.dim}(no terminal to ask for ${step.missing.join(', ')})${c.reset}`);
+          continue;
+        }
+        const answers: Record<string, string> = { ...step.resolved };
+        for (const name of step.missing) {
+          const answer = await prompt.ask(`${c.cyan}?${c.reset} Value for ${c.bold}${name}${c.reset} in "${step.template}": `);
+          if (answer) answers[name] = answer;
+        }
+        const filled = fillPlaceholders(step.template, answers);
+        if (filled.missing.length) {
+          log(`${c.yellow}Skipped${c.reset} ${step.template} ${c.dim}(no usable value for ${filled.missing.join(', ')})${c.reset}`);
+          continue;
+        }
+        command = filled.command;
+      }
+
+      // Values are quoted in as single arguments, so the risk is the template's
+      const risk = step.risk;
+      if (risk === 'shell-only') {
+        // A subshell would apply it and exit, so nothing would change
+        log(`${c.cyan}Run it yourself:${c.reset} ${command} ${c.dim}(only changes the shell it runs in)${c.reset}`);
+        continue;
+      }
+      if (risk === 'privileged' && !options.allowPrivileged) {
+        log(`${c.red}Refused${c.reset} ${command} ${c.dim}(privileged; pass --allow-privileged to run it)${c.reset}`);
+        continue;
+      }
+      if (risk !== 'safe' && !options.yes) {
+        const kind = risk === 'launches' ? 'command that starts a program' : `${risk} command`;
+        const answer = prompt ? await prompt.ask(`${c.yellow}?${c.reset} Run ${kind} ${c.bold}${command}${c.reset}? [y/N] `) : '';
+        if (!/^y(es)?$/i.test(answer)) {
+          log(`${c.yellow}Skipped${c.reset} ${command}${prompt ? '' : ` ${c.dim}(no terminal to confirm; pass --yes)${c.reset}`}`);
+          continue;
+        }
+      }
+
+      log(`${c.dim}$ ${command}${c.reset}`);
+      const result = spawnSync(command, { shell: true, stdio: ['inherit', options.out, 'inherit'], cwd: options.cwd });
+      const status = result.error ? result.error.message : result.signal ? `signal ${result.signal}` : `exit ${result.status}`;
+      if (result.status === 0) {
+        log(`${c.green}✓${c.reset} ${command} ${c.dim}(${status})${c.reset}`);
+      } else {
+        failed++;
+        log(`${c.red}✗${c.reset} ${command} ${c.dim}(${status})${c.reset}`);
+      }
+    }
+  } finally {
+    prompt?.close();
+  }
+  log('');
+  if (failed > 0) process.exitCode = 1;
+}
+
+// ── Arguments ──
+
+/** Flags that consume the following argument as their value. */
+const VALUE_FLAGS = new Set(['--pack', '--cwd', '--follow', '--format', '--fix', '--title', '--cmd', '--step', '--id', '--output', '--redact-pattern']);
+
+/** Lines of piped or followed input kept for stack traces and placeholder lookup. */
+const MAX_TAIL_LINES = 5000;
+
+/** Default number of lines shown either side of a location by --context. */
+const DEFAULT_CONTEXT_LINES = 3;
+
+/** Code frames shown without --verbose. */
+const MAX_CODE_FRAMES = 3;
+
+function flagValues(args: string[], flag: string): string[] {
+  const values: string[] = [];
+  for (let i = 0; i < args.length - 1; i++) {
+    if (args[i] === flag) values.push(args[i + 1]);
+  }
+  return values;
+}
+
+function positionalArgs(args: string[]): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (VALUE_FLAGS.has(args[i]) || (args[i] === '--context' && /^\d+$/.test(args[i + 1] ?? ''))) {
+      i++;
+      continue;
+    }
+    if (args[i].startsWith('--')) continue;
+    out.push(args[i]);
+  }
+  return out;
+}
+
+/** Lines of context requested with `--context [N]` or `--context=N`, or null when off. */
+function contextLines(args: string[]): number | null {
+  for (let i = 0; i < args.length; i++) {
+    const eq = args[i].match(/^--context=(\d+)$/);
+    if (eq) return parseInt(eq[1]);
+    if (args[i] === '--context') {
+      return /^\d+$/.test(args[i + 1] ?? '') ? parseInt(args[i + 1]) : DEFAULT_CONTEXT_LINES;
+    }
+  }
+  return null;
+}
+
+/** `--format <name>`, with `--json` as shorthand for `--format json`. */
+function outputFormat(args: string[]): string {
+  return flagValues(args, '--format').pop() ?? (args.includes('--json') ? 'json' : 'terminal');
+}
+
+function loadDatabase(args: string[], cwd: string): { db: ErrorEntry[]; packs: PatternPack[] } {
+  try {
+    const packs = loadPatternPacks({
+      cwd,
+      packages: flagValues(args, '--pack'),
+      noConfig: args.includes('--no-config'),
+      allowProjectPacks: args.includes('--allow-project-packs'),
+      onIgnoredPackages: (origin, names) => {
+        console.error(`${c.yellow}Not loading npm packs from ${origin}:${c.reset} ${names.join(', ')} (pass --allow-project-packs or list them in ~/.ai-error.json)`);
+      },
+    });
+    return { db: buildDatabase(packs), packs };
+  } catch (err) {
+    if (err instanceof PackError || err instanceof KnowledgeError) {
+      console.error(`${c.red}${err instanceof PackError ? 'Pattern pack' : 'Knowledge base'} error:${c.reset} ${err.message}`);
+      process.exit(1);
+    }
+    throw err;
+  }
+}
+
+/** Redaction rules for shared output; null when --no-redact turns it off. */
+function redactionRules(args: string[], cwd: string): RedactionRule[] | null {
+  return args.includes('--no-redact') ? null : forcedRedactionRules(args, cwd);
+}
+
+/** Redaction rules for what is redacted even with --no-redact: the knowledge base and fallback requests. */
+function forcedRedactionRules(args: string[], cwd: string): RedactionRule[] {
+  try {
+    return loadRedactionRules({ cwd, patterns: flagValues(args, '--redact-pattern'), noConfig: args.includes('--no-config') });
+  } catch (err) {
+    if (err instanceof PackError) {
+      console.error(`${c.red}Redaction rule error:${c.reset} ${err.message}`);
+      process.exit(1);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Matches from the configured fallback provider when the database found
+ * nothing convincing. Off unless "fallback" is configured; a provider that
+ * fails or times out only costs a warning. The request is always redacted.
+ */
+async function askFallback(matches: MatchResult[], input: string, stack: StackError[], codeFrames: CodeFrame[], args: string[], cwd: string): Promise<MatchResult[]> {
+  if (args.includes('--no-fallback') || args.includes('--no-config')) return [];
+  let config: FallbackConfig | null;
+  try {
+    config = loadFallbackConfig({ cwd });
+  } catch (err) {
+    if (err instanceof PackError) {
+      console.error(`${c.red}Fallback config error:${c.reset} ${err.message}`);
+      process.exit(1);
+    }
+    throw err;
+  }
+  if (!config || !needsFallback(matches, config.minConfidence)) return [];
+
+  // Source files are only read for the provider when "sendCode" asks for it, with or without --context
+  const context = !config.sendCode ? [] : codeFrames.length ? codeFrames : contextLocations(input, stack).slice(0, MAX_CODE_FRAMES)
+    .map(loc => buildCodeFrame(loc, highlightCandidates(matches), { cwd, context: DEFAULT_CONTEXT_LINES }))
+    .filter((frame): frame is CodeFrame => frame !== null);
+  try {
+    return await fallbackMatches(createProvider(config), input, matches, stack, context, {
+      timeoutMs: config.timeoutMs,
+      minConfidence: config.minConfidence,
+      cache: config.cacheDays > 0 ? loadFallbackCache() : null,
+      cacheDays: config.cacheDays,
+      rules: forcedRedactionRules(args, cwd),
+    });
+  } catch (err) {
+    if (err instanceof FallbackError) {
+      console.error(`${c.yellow}Fallback provider skipped:${c.reset} ${err.message}`);
+      return [];
+    }
+    throw err;
+  }
+}
+
+// ── Knowledge Base ──
+
+function openKnowledgeBase(file: string): KnowledgeBase {
+  try {
+    return loadKnowledgeBase(file);
+  } catch (err) {
+    if (err instanceof KnowledgeError) {
+      console.error(`${c.red}Knowledge base error:${c.reset} ${err.message}`);
+      process.exit(1);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Count this run in the project's (or user's) knowledge base. Returns the
+ * fingerprints recorded, or null when there is no knowledge base to record in.
+ */
+function recordHistory(matches: MatchResult[], input: string, args: string[], cwd: string): string[] | null {
+  if (args.includes('--no-history') || args.includes('--no-config')) return null;
+  const file = findKnowledgeBase(cwd);
+  if (!file) return null;
+  try {
+    const kb = loadKnowledgeBase(file);
+    // The file gets committed, so it is redacted even with --no-redact
+    const recorded = recordDiagnosis(kb, matches, input, new Date(), forcedRedactionRules(args, cwd));
+    saveKnowledgeBase(kb);
+    return recorded;
+  } catch (err) {
+    // A broken or read-only knowledge base shouldn't cost the diagnosis
+    console.error(`${c.yellow}Knowledge base not updated:${c.reset} ${err instanceof Error ? err.message : String(err)}`);
+    return [];
+  }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/** `ai-error learn --fix <text>`: attach a team fix to an error's fingerprint, recording the error if it's new. */
+async function learnMode(args: string[], cwd: string): Promise<void> {
+  const fix = flagValues(args, '--fix').pop();
+  const id = flagValues(args, '--id').pop();
+  const text = id ? '' : positionalArgs(args).slice(1).join(' ') || (!process.stdin.isTTY ? await readStdin() : '');
+  const headline = errorHeadline(text);
+  if (!fix || (!id && !headline)) {
+    console.error(`${c.red}Usage:${c.reset} ai-error learn [--id <fingerprint> | <error message>] --fix <text> [--title <text>] [--step <text>]... [--cmd <command>] [--global]`);
+    process.exit(2);
+  }
+
+  const file = args.includes('--global')
+    ? path.join(os.homedir(), KNOWLEDGE_FILE)
+    : findKnowledgeBase(cwd) ?? path.join(probeProject(cwd).root, KNOWLEDGE_FILE);
+  const kb = openKnowledgeBase(file);
+  const fingerprint = id ?? recordLine(kb, headline!, null, new Date(), forcedRedactionRules(args, cwd));
+  const record = kb.records[fingerprint];
+  if (!record) {
+    console.error(`${c.red}No record ${fingerprint} in ${file}.${c.reset} ${c.dim}ai-error history lists the fingerprints.${c.reset}`);
+    process.exit(1);
+  }
+
+  const title = flagValues(args, '--title').pop()
+    ?? (record.title ? `${record.title} (team fix)` : record.text.length > 60 ? `${record.text.slice(0, 57)}...` : record.text);
+  const steps = flagValues(args, '--step').map(step => ({ text: step }));
+  const cmd = flagValues(args, '--cmd').pop();
+  learnFix(kb, fingerprint, { title, fix, ...(steps.length ? { steps } : {}), ...(cmd ? { autoFixCmd: cmd } : {}) });
+  saveKnowledgeBase(kb);
+
+  if (outputFormat(args) === 'json') {
+    console.log(JSON.stringify({ file, fingerprint, ...record }, null, 2));
+    return;
+  }
+  console.log(`${c.green}✓${c.reset} Learned ${c.bold}${title}${c.reset} ${c.dim}(${fingerprint})${c.reset}`);
+  console.log(`  ${c.dim}Matches:${c.reset} ${record.text}`);
+  console.log(`  ${c.green}Fix:${c.reset} ${fix}`);
+  console.log(`${c.dim}Saved to ${file}. Commit it to share the fix with your team.${c.reset}`);
+}
+
+/** Most frequent errors shown without --verbose. */
+const HISTORY_LIMIT = 20;
+
+/** `ai-error history`: the most frequent errors in the knowledge base; `--init` starts one. */
+function historyMode(args: string[], cwd: string): void {
+  const userFile = path.join(os.homedir(), KNOWLEDGE_FILE);
+  if (args.includes('--init')) {
+    const file = args.includes('--global') ? userFile : path.join(probeProject(cwd).root, KNOWLEDGE_FILE);
+    if (!fs.existsSync(file)) saveKnowledgeBase({ file, records: {} });
+    console.log(`${c.green}✓${c.reset} Recording diagnoses in ${file}`);
+    console.log(`${c.dim}Commit it to share learned fixes with your team.${c.reset}`);
+    return;
+  }
+
+  const file = args.includes('--global') ? (fs.existsSync(userFile) ? userFile : null) : findKnowledgeBase(cwd);
+  if (!file) {
+    console.log(`${c.yellow}No knowledge base found.${c.reset} ${c.dim}Run ai-error history --init to start recording.${c.reset}`);
+    return;
+  }
+  let entries = historyEntries(openKnowledgeBase(file));
+  if (args.includes('--unknown')) entries = entries.filter(e => e.title === null && !e.learned);
+
+  if (outputFormat(args) === 'json') {
+    console.log(JSON.stringify({ file, entries }, null, 2));
+    return;
+  }
+
+  printBanner();
+  const total = entries.reduce((sum, e) => sum + e.count, 0);
+  console.log(`${c.bold}History:${c.reset} ${file} ${c.dim}(${entries.length} error${entries.length !== 1 ? 's' : ''}, ${total} occurrence${total !== 1 ? 's' : ''})${c.reset}`);
+  console.log('');
+  for (const e of args.includes('--verbose') ? entries : entries.slice(0, HISTORY_LIMIT)) {
+    const label = e.learned ? `${c.green}✓${c.reset} ${e.learned.title}` : e.title ?? `${c.yellow}unknown${c.reset}`;
+    console.log(`  ${c.bold}×${e.count}${c.reset} ${c.dim}${e.lastWeek} this week, last ${e.lastSeen.slice(0, 10)}${c.reset}  ${c.cyan}${e.fingerprint}${c.reset}  ${label}`);
+    console.log(`      ${c.dim}${e.text.substring(0, 100)}${c.reset}`);
+    if (e.learned) console.log(`      ${c.green}Fix:${c.reset} ${e.learned.fix}`);
+  }
+  if (entries.length > HISTORY_LIMIT && !args.includes('--verbose')) {
+    console.log(`  ${c.dim}… ${entries.length - HISTORY_LIMIT} more (--verbose lists them all)${c.reset}`);
+  }
+  console.log('');
+  if (entries.some(e => !e.learned && e.title === null)) {
+    console.log(`${c.dim}Record what fixed an unknown error: ai-error learn --id <fingerprint> --fix "..."${c.reset}`);
+    console.log('');
+  }
+}
+
+// ── Main ──
+
+/**
+ * Analyze the input and print the diagnosis in the format the flags ask for.
+ * Pass `streamed` when the matches were already found (and printed) line by line.
+ */
+async function diagnose(input: string, args: string[], db: ErrorEntry[], cwd: string, streamed?: MatchResult[], out: NodeJS.WriteStream = process.stdout): Promise<void> {
+  const log = printer(out);
+  const format = outputFormat(args);
+  const autoFix = args.includes('--auto-fix');
+  const verbose = args.includes('--verbose');
+
+  let matches = streamed ? rankMatches(streamed) : analyzeInput(input, db);
+  // Everything past matching reads the log without colors, timestamps and task prefixes
+  input = cleanLog(input);
+  const parsedStack = parseStack(input);
+  const stack = args.includes('--no-source-maps') ? parsedStack : applySourceMaps(parsedStack, { cwd });
+
+  const context = contextLines(args);
+  const codeFrames: CodeFrame[] = [];
+  if (context !== null) {
+    const candidates = highlightCandidates(matches);
+    const locations = contextLocations(input, stack);
+    for (const loc of verbose ? locations : locations.slice(0, MAX_CODE_FRAMES)) {
+      const frame = buildCodeFrame(loc, candidates, { cwd, context });
+      if (frame) codeFrames.push(frame);
+    }
+  }
+
+  const recorded = recordHistory(matches, input, args, cwd);
+
+  const suggested = await askFallback(matches, input, stack, codeFrames, args, cwd);
+  if (suggested.length) {
+    matches = [...matches, ...suggested].sort((a, b) => b.confidence - a.confidence);
+    // Streamed blocks are already on screen; these arrived after
+    if (streamed && format === 'terminal') suggested.forEach(m => printMatch(m, input, autoFix, out));
+  }
+
+  if (format !== 'terminal') {
+    // Everything but the terminal view tends to get shared, so it is redacted unless --no-redact
+    const formatter = getFormatter(format)!;
+    const results = buildResults(matches, input, stack, context !== null ? codeFrames : undefined);
+    const rules = redactionRules(args, cwd);
+    // The root is redacted like the paths it is compared with
+    log(formatter.format(rules ? redactValue(results, rules) : results, { cwd: rules ? redact(cwd, rules) : cwd }));
+  } else {
+    if (!streamed) printBanner(out);
+    printResults(matches, input, stack, codeFrames, autoFix, verbose, streamed !== undefined, recorded, out);
+    if (args.includes('--apply') || args.includes('--dry-run')) {
+      await applyFixes(buildFixPlan(matches, input), {
+        dryRun: args.includes('--dry-run'),
+        yes: args.includes('--yes'),
+        allowPrivileged: args.includes('--allow-privileged'),
+        cwd,
+        out,
+      });
+    }
+  }
+}
+
+/**
+ * Read a pipe line by line, printing each match as soon as it is found.
+ * Only the last MAX_TAIL_LINES lines are kept for the stack trace and code
+ * context sections at the end.
+ */
+async function streamStdin(args: string[], db: ErrorEntry[], cwd: string): Promise<void> {
+  const live = outputFormat(args) === 'terminal';
+  const autoFix = args.includes('--auto-fix');
+  const analyzer = new StreamAnalyzer(db);
+  const tail: string[] = [];
+  let sawInput = false;
+
+  const rl = readline.createInterface({ input: process.stdin });
+  for await (const line of rl) {
+    tail.push(line);
+    if (tail.length > MAX_TAIL_LINES) tail.shift();
+    if (line.trim()) sawInput = true;
+
+    const found = analyzer.push(line);
+    if (!live || found.length === 0) continue;
+    if (analyzer.matches.length === found.length) printBanner();
+    for (const match of found) printMatch(match, cleanLog(tail.join('\n')), autoFix);
+  }
+
+  if (!sawInput) {
+    if (live) printHelp();
+    process.exit(0);
+  }
+  if (live && analyzer.matches.length === 0) printBanner();
+
+  await diagnose(tail.join('\n'), args, db, cwd, analyzer.matches);
+}
+
+/** Tail a log file and print diagnoses as they appear, until interrupted. */
+async function followMode(file: string, args: string[], db: ErrorEntry[], cwd: string): Promise<void> {
+  const jsonOutput = outputFormat(args) === 'json';
+  const rules = jsonOutput ? redactionRules(args, cwd) : null;
+  const autoFix = args.includes('--auto-fix');
+  const analyzer = new StreamAnalyzer(db);
+  const recent: string[] = [];
+  const controller = new AbortController();
+
+  process.once('SIGINT', () => controller.abort());
+  process.once('SIGTERM', () => controller.abort());
+
+  if (!jsonOutput) {
+    printBanner();
+    console.log(`${c.dim}Following ${file} (Ctrl-C to stop)${c.reset}`);
+    console.log('');
+  }
+
+  await followFile(file, line => {
+    recent.push(line);
+    if (recent.length > MAX_TAIL_LINES) recent.shift();
+
+    for (const match of analyzer.push(line)) {
+      if (jsonOutput) {
+        // One JSON object per line so consumers can process matches as they come
+        const { fix, steps, docs, autoFixCmd } = renderFix(match, cleanLog(recent.join('\n')));
+        const line = {
+          title: match.entry.title,
+          category: match.entry.category,
+          source: entrySource(match.entry),
+          severity: match.entry.severity,
+          fix,
+          steps,
+          docs,
+          autoFixCmd,
+          matchedLine: match.matchedLine,
+          lineNumber: match.lineNumber,
+          segment: match.occurrences[0].segment,
+          confidence: match.confidence,
+        };
+        console.log(JSON.stringify(rules ? redactValue(line, rules) : line));
+      } else {
+        printMatch(match, cleanLog(recent.join('\n')), autoFix);
+      }
+    }
+  }, {
+    signal: controller.signal,
+    fromStart: args.includes('--from-start'),
+    onReset: reason => {
+      if (!jsonOutput) console.log(`${c.dim}${file} was ${reason}; reading from the top${c.reset}`);
+    },
+  }).catch(err => {
+    console.error(`${c.red}Could not follow ${file}:${c.reset} ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  });
+
+  if (!jsonOutput) {
+    console.log('');
+    console.log(`${c.bold}Stopped.${c.reset} ${analyzer.matches.length} distinct error${analyzer.matches.length !== 1 ? 's' : ''} seen.`);
+  }
+}
+
+/** `ai-error db verify [pack.json...]`: check examples, shadowing, placeholders and backtracking. */
+function verifyMode(files: string[], args: string[], packs: PatternPack[], cwd: string): void {
+  let filePacks: PatternPack[];
+  try {
+    filePacks = files.map(f => loadPackFile(path.resolve(cwd, f)));
+  } catch (err) {
+    if (err instanceof PackError) {
+      console.error(`${c.red}Pattern pack error:${c.reset} ${err.message}`);
+      process.exit(1);
+    }
+    throw err;
+  }
+
+  // With pack files, check just their entries, against everything else that is loaded.
+  // Learned fixes are left out: they are meant to take over their lines from other entries.
+  const own = new Set(filePacks.flatMap(p => p.entries));
+  const db = buildDatabase([...filePacks, ...packs.filter(p => p.name !== KNOWLEDGE_SOURCE)]);
+  const report = verifyDatabase(db, own.size ? { only: e => own.has(e) } : {});
+
+  if (outputFormat(args) === 'json') {
+    console.log(JSON.stringify(report, null, 2));
+    process.exit(report.errors ? 1 : 0);
+  }
+
+  printBanner();
+  const byEntry = new Map<string, VerifyIssue[]>();
+  for (const issue of report.issues) {
+    const key = `${issue.title}\0${issue.source}`;
+    byEntry.set(key, [...(byEntry.get(key) ?? []), issue]);
+  }
+  for (const issues of byEntry.values()) {
+    const { title, source } = issues[0];
+    console.log(`${c.bold}${title}${c.reset} ${c.dim}(${source})${c.reset}`);
+    for (const issue of issues) {
+      const icon = issue.level === 'error' ? `${c.red}✗${c.reset}` : `${c.yellow}⚠${c.reset}`;
+      console.log(`  ${icon} ${c.dim}${issue.kind}${c.reset} ${issue.message}`);
+    }
+    console.log('');
+  }
+
+  console.log(`${c.dim}${'─'.repeat(60)}${c.reset}`);
+  const clean = report.errors === 0 && report.warnings === 0;
+  console.log(`${c.bold}Checked ${report.checked} entr${report.checked !== 1 ? 'ies' : 'y'} and ${report.examples} examples:${c.reset} ${clean ? `${c.green}no issues` : `${c.red}${report.errors} error${report.errors !== 1 ? 's' : ''}${c.reset} ${c.yellow}${report.warnings} warning${report.warnings !== 1 ? 's' : ''}`}${c.reset}`);
+  console.log('');
+  process.exit(report.errors ? 1 : 0);
+}
+
+/** `ai-error report`: a redacted Markdown (or --json) bundle of the input, diagnoses, stack and environment. */
+async function reportMode(args: string[], db: ErrorEntry[], cwd: string): Promise<void> {
+  const format = outputFormat(args);
+  if (format !== 'terminal' && format !== 'markdown' && format !== 'json') {
+    console.error(`${c.red}ai-error report writes markdown or json only${c.reset}`);
+    process.exit(2);
+  }
+  const raw = positionalArgs(args).slice(1).join(' ') || (!process.stdin.isTTY ? await readStdin() : '');
+  const input = cleanLog(raw);
+  if (!input.trim()) {
+    console.error(`${c.red}Usage:${c.reset} npm run build 2>&1 | ai-error report [--json] [--output <file>] [--no-redact] [--redact-pattern <regex>]...`);
+    process.exit(2);
+  }
+
+  const parsedStack = parseStack(input);
+  const stack = args.includes('--no-source-maps') ? parsedStack : applySourceMaps(parsedStack, { cwd });
+  const rules = redactionRules(args, cwd);
+  const report = buildReport(buildResults(analyzeInput(raw, db), input, stack), input, probeProject(cwd), { redact: rules !== null, rules: rules ?? undefined });
+  const text = format === 'json' ? JSON.stringify(report, null, 2) : reportMarkdown(report);
+
+  const output = flagValues(args, '--output').pop();
+  if (!output) {
+    console.log(text);
+    return;
+  }
+  fs.writeFileSync(path.resolve(cwd, output), `${text}\n`);
+  const redacted = Object.values(report.redactions).reduce((sum, n) => sum + n, 0);
+  console.error(`${c.green}✓${c.reset} Wrote ${output} ${c.dim}(${rules ? `${redacted} redaction${redacted !== 1 ? 's' : ''}` : 'not redacted'})${c.reset}`);
+}
+
+/** `ai-error doctor`: report known misconfigurations in the project before anything fails. */
+function doctorMode(args: string[], facts: ProjectFacts): void {
+  const findings = runDoctor(facts);
+  const failed = findings.some(f => f.severity === 'error');
+
+  if (outputFormat(args) === 'json') {
+    console.log(JSON.stringify({ facts, findings }, null, 2));
+    process.exit(failed ? 1 : 0);
+  }
+
+  printBanner();
+  const pkg = facts.packageJson;
+  const ts = facts.tsconfig?.compilerOptions;
+  console.log(`${c.bold}Project:${c.reset} ${facts.root}`);
+  console.log(`  ${c.white}Node:${c.reset}            ${facts.nodeVersion}${facts.engines ? ` ${c.dim}(engines ${facts.engines})${c.reset}` : ''}${facts.pinnedNode ? ` ${c.dim}(pinned ${facts.pinnedNode.version})${c.reset}` : ''}`);
+  console.log(`  ${c.white}Platform:${c.reset}        ${facts.platform}`);
+  console.log(`  ${c.white}Package:${c.reset}         ${pkg ? `${String(pkg.name ?? '(unnamed)')} ${c.dim}(${facts.packageType ?? 'commonjs'}${facts.workspace ? ', workspace' : ''})${c.reset}` : `${c.dim}no package.json${c.reset}`}`);
+  console.log(`  ${c.white}Package manager:${c.reset} ${facts.packageManager ?? `${c.dim}unknown${c.reset}`}${facts.lockfiles.length ? ` ${c.dim}(${facts.lockfiles.map(f => path.relative(facts.root, f) || path.basename(f)).join(', ')})${c.reset}` : ''}`);
+  console.log(`  ${c.white}TypeScript:${c.reset}      ${facts.tsconfig ? `module ${String(ts?.module ?? 'default')}, moduleResolution ${String(ts?.moduleResolution ?? 'default')} ${c.dim}(${path.relative(facts.root, facts.tsconfig.file)})${c.reset}` : `${c.dim}no tsconfig.json${c.reset}`}`);
+  console.log('');
+
+  for (const finding of findings) {
+    const icon = finding.severity === 'error' ? `${c.red}✗${c.reset}` : finding.severity === 'warning' ? `${c.yellow}⚠${c.reset}` : `${c.blue}ℹ${c.reset}`;
+    console.log(`${icon} ${c.bold}${finding.title}${c.reset} ${c.dim}(${finding.id})${c.reset}`);
+    console.log(`  ${finding.detail}`);
+    console.log(`  ${c.green}Fix:${c.reset} ${finding.fix}`);
+    console.log('');
+  }
+
+  console.log(`${c.dim}${'─'.repeat(60)}${c.reset}`);
+  const errors = findings.filter(f => f.severity === 'error').length;
+  const warnings = findings.filter(f => f.severity === 'warning').length;
+  console.log(`${c.bold}Doctor:${c.reset} ${findings.length ? `${c.red}${errors} error${errors !== 1 ? 's' : ''}${c.reset} ${c.yellow}${warnings} warning${warnings !== 1 ? 's' : ''}` : `${c.green}no known misconfigurations`}${c.reset}`);
+  console.log('');
+  process.exit(failed ? 1 : 0);
+}
+
+async function runMode(command: string[], args: string[], db: ErrorEntry[], cwd: string): Promise<void> {
+  if (command.length === 0) {
+    console.error(`${c.red}Usage:${c.reset} ai-error run [options] -- <command> [args...]`);
+    process.exit(2);
+  }
+
+  const result = await runCommand(command, { cwd });
+
+  if (result.exitCode !== 0) {
+    if (result.truncated) {
+      console.error(`${c.dim}(output was longer than the analysis buffer; only the tail was analyzed)${c.reset}`);
+    }
+    // stdout is the command's, and may be redirected to a file, so the diagnosis goes to stderr
+    await diagnose(result.output, args, db, cwd, undefined, process.stderr);
+  }
+
+  // Preserve CI semantics: die the way the child died, or exit with its code
+  if (result.signal) {
+    process.kill(process.pid, result.signal);
+    return;
+  }
+  process.exit(result.exitCode ?? 1);
+}
+
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+
+  // `ai-error run [options] -- <command>`: options end at `--`
+  const isRun = argv[0] === 'run';
+  const separator = argv.indexOf('--');
+  const args = isRun ? argv.slice(1, separator === -1 ? undefined : separator) : argv;
+  const command = isRun && separator !== -1 ? argv.slice(separator + 1) : [];
+
+  if (args.includes('--help') || args.includes('-h')) {
+    printHelp();
+    process.exit(0);
+  }
+
+  const format = outputFormat(args);
+  if (format !== 'terminal' && !getFormatter(format)) {
+    const names = ['terminal', ...listFormatters().map(f => f.name)];
+    console.error(`${c.red}Unknown format:${c.reset} ${format} ${c.dim}(expected one of ${names.join(', ')})${c.reset}`);
+    process.exit(2);
+  }
+
+  const cwd = path.resolve(flagValues(args, '--cwd').pop() ?? process.cwd());
+  if (argv[0] === 'doctor') {
+    doctorMode(args, probeProject(cwd));
+    return;
+  }
+  if (argv[0] === 'history') {
+    historyMode(args, cwd);
+    return;
+  }
+  if (argv[0] === 'learn') {
+    await learnMode(args, cwd);
+    return;
+  }
+
+  const loaded = loadDatabase(args, cwd);
+  const packs = loaded.packs;
+  const db = args.includes('--no-probe') ? loaded.db : adaptDatabase(loaded.db, probeProject(cwd));
+
+  if (isRun) {
+    await runMode(command, args, db, cwd);
+    return;
+  }
+
+  if (argv[0] === 'report') {
+    await reportMode(args, db, cwd);
+    return;
+  }
+
+  if (argv[0] === 'db') {
+    const [sub, ...files] = positionalArgs(args).slice(1);
+    if (sub !== 'verify') {
+      console.error(`${c.red}Usage:${c.reset} ai-error db verify [pack.json...]`);
+      process.exit(2);
+    }
+    verifyMode(files, args, packs, cwd);
+    return;
+  }
+
+  if (args.includes('--stats')) {
+    printStats(db, packs);
+    process.exit(0);
+  }
+
+  if (args.includes('--list')) {
+    printList(db);
+    process.exit(0);
+  }
+
+  const followed = flagValues(args, '--follow').pop();
+  if (followed) {
+    if (format !== 'terminal' && format !== 'json') {
+      console.error(`${c.red}--follow supports terminal and json output only${c.reset}`);
+      process.exit(2);
+    }
+    await followMode(path.resolve(cwd, followed), args, db, cwd);
+    return;
+  }
+
+  // Determine input source
+  if (!process.stdin.isTTY) {
+    await streamStdin(args, db, cwd);
+    return;
+  }
+
+  // Get from args (skip flags)
+  const input = positionalArgs(args).join(' ');
+  if (!input.trim()) {
+    if (format === 'terminal') {
+      printHelp();
+    }
+    process.exit(0);
+  }
+
+  await diagnose(input, args, db, cwd);
+}
+
+main().catch(err => {
+  console.error(`${c.red}ai-error failed:${c.reset} ${err instanceof Error ? err.stack ?? err.message : String(err)}`);
+  process.exit(1);
+});
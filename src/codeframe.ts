@@ -0,0 +1,124 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { type MatchResult, type SourceLocation } from './analyze.js';
+import { flattenErrors, parseDiagnosticLocation, type StackError } from './stack.js';
+
+// ── Code Frames ──
+
+export interface CodeLine {
+  number: number;
+  text: string;
+}
+
+export interface CodeFrame {
+  /** Path as it appeared in the trace. */
+  file: string;
+  /** Path the source was read from. */
+  resolvedPath: string;
+  line: number;
+  col: number;
+  lines: CodeLine[];
+  /** Identifier from the match groups found on the failing line, 1-based columns. */
+  highlight: { text: string; start: number; end: number } | null;
+}
+
+export interface CodeFrameOptions {
+  /** Directory that relative paths are resolved against. */
+  cwd?: string;
+  /** Lines shown above and below the location. */
+  context?: number;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+// Captured values that are identifiers but never the interesting part of a line
+const LITERALS = new Set(['undefined', 'null', 'true', 'false', 'this']);
+
+function findHighlight(text: string, col: number, candidates: string[]): CodeFrame['highlight'] {
+  let best: CodeFrame['highlight'] = null;
+  for (const word of candidates) {
+    const re = new RegExp(`(?<![\\w$])${word.replace(/\$/g, '\\$')}(?![\\w$])`, 'g');
+    for (const m of text.matchAll(re)) {
+      const start = m.index! + 1;
+      const candidate = { text: word, start, end: start + word.length - 1 };
+      // Closest occurrence to the reported column wins
+      if (!best || Math.abs(start - col) < Math.abs(best.start - col)) best = candidate;
+    }
+    if (best) return best;
+  }
+  return best;
+}
+
+/** Identifiers worth underlining, taken from the capture groups of the matches. */
+export function highlightCandidates(matches: MatchResult[]): string[] {
+  const words = new Set<string>();
+  for (const m of matches) {
+    for (const g of m.groups) {
+      if (g && IDENTIFIER.test(g) && !LITERALS.has(g)) words.add(g);
+    }
+  }
+  return Array.from(words);
+}
+
+/**
+ * Read `context` lines either side of a location. Returns null when the file
+ * can't be read or the line is past its end.
+ */
+export function buildCodeFrame(location: SourceLocation, candidates: string[] = [], options: CodeFrameOptions = {}): CodeFrame | null {
+  const cwd = options.cwd ?? process.cwd();
+  const context = options.context ?? 3;
+  const resolvedPath = path.resolve(cwd, location.file);
+
+  let source: string;
+  try {
+    source = fs.readFileSync(resolvedPath, 'utf8');
+  } catch {
+    return null;
+  }
+
+  const all = source.split(/\r?\n/);
+  if (location.line < 1 || location.line > all.length) return null;
+
+  const first = Math.max(1, location.line - context);
+  const last = Math.min(all.length, location.line + context);
+  const lines: CodeLine[] = [];
+  for (let n = first; n <= last; n++) {
+    lines.push({ number: n, text: all[n - 1] });
+  }
+
+  return {
+    file: location.file,
+    resolvedPath,
+    line: location.line,
+    col: location.col,
+    lines,
+    highlight: findHighlight(all[location.line - 1], location.col, candidates),
+  };
+}
+
+/**
+ * Locations worth showing code for: user-code stack frames first, then
+ * compiler/linter diagnostics. Duplicates are dropped.
+ */
+export function contextLocations(input: string, stack: StackError[]): SourceLocation[] {
+  const seen = new Set<string>();
+  const out: SourceLocation[] = [];
+  const add = (loc: SourceLocation): void => {
+    const key = `${loc.file}:${loc.line}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    out.push(loc);
+  };
+
+  for (const err of flattenErrors(stack)) {
+    for (const frame of err.frames) {
+      if (frame.isUserCode && frame.file && frame.line !== null) {
+        add({ file: frame.file, line: frame.line, col: frame.col ?? 1 });
+      }
+    }
+  }
+  for (const line of input.split('\n')) {
+    const loc = parseDiagnosticLocation(line);
+    if (loc) add(loc);
+  }
+  return out;
+}
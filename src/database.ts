@@ -0,0 +1,287 @@
+import { LANGUAGE_PACKS } from './languages/index.js';
+import { type FixAlternative } from './probe.js';
+
+// ── Error Database ──
+
+/**
+ * Version of the entry shape. 2 added named captures, `variables`, `steps`
+ * and `docs`; pattern packs declare the version they're written against.
+ */
+export const ENTRY_SCHEMA_VERSION = 2;
+
+/** One step of a fix, in order. `$1` and `$<name>` are filled in text and code. */
+export interface FixInstruction {
+  text: string;
+  /** Code, config or a command to go with the step. */
+  code?: string;
+  /** Language of `code` ('ts', 'json', 'sh', ...), for fenced output. */
+  lang?: string;
+}
+
+export interface DocLink {
+  title: string;
+  url: string;
+}
+
+/**
+ * A value computed from a capture and referenced like a named group,
+ * `$<name>`. A variable named like a command placeholder (`PORT`) also
+ * fills `$PORT`.
+ */
+export interface VariableSpec {
+  /** Capture group number or name to start from. */
+  from: number | string;
+  /** Keep the first group of this regex's match against the capture. */
+  match?: RegExp;
+  /**
+   * `package` turns a module specifier (`lodash/fp`, `@a/b/c`) into the
+   * package to install, `types` into its @types package.
+   */
+  transform?: 'lower' | 'upper' | 'basename' | 'package' | 'types';
+  /** Used when the capture is empty or `match` doesn't match. */
+  default?: string;
+}
+
+export interface ErrorEntry {
+  pattern: RegExp;
+  title: string;
+  category: string;
+  explanation: string;
+  /** One-line summary of the fix; `steps` has the details. */
+  fix: string;
+  steps?: FixInstruction[];
+  /** Official documentation for the error. Node and Rust error codes get a link without listing it. */
+  docs?: DocLink[];
+  variables?: Record<string, VariableSpec>;
+  autoFixCmd?: string;
+  /** Per-platform replacements for autoFixCmd. `null` means no command on that platform. */
+  autoFixCmdByPlatform?: Partial<Record<NodeJS.Platform, string | null>>;
+  severity: 'error' | 'warning' | 'info';
+  /** Higher priority entries are tested first. Built-ins are 0. */
+  priority?: number;
+  /** Title of an entry this one replaces (pattern packs only). */
+  overrides?: string;
+  /** Name of the pattern pack the entry came from. Unset for built-ins. */
+  source?: string;
+  /** Sample lines this entry should be the diagnosis for (`ai-error db verify`). */
+  examples?: string[];
+  /** Near misses the pattern must not match. */
+  counterExamples?: string[];
+  /** Only match inside blocks detected as this language (see languages/). */
+  language?: string;
+  /** Project-specific replacements for the fix, checked in order (see probe.ts). */
+  alternatives?: FixAlternative[];
+}
+
+export const BUILTIN_SOURCE = 'built-in';
+
+const CORE_ENTRIES: ErrorEntry[] = [
+  // ─── Node.js Core Errors ───
+  { pattern: /Cannot find module '(?<module>[^']+)'/i, title: 'Module Not Found', category: 'Node.js', explanation: "Node can't locate the module you're trying to import. It's either not installed or the path is wrong.", fix: "Install the missing package or check your import path.", steps: [{ text: "If '$<module>' is a path, check it against the importing file's directory, including the extension ESM needs." }, { text: 'If it is a package, make sure it is in package.json and installed.', code: 'npm install $<package>', lang: 'sh' }], variables: { package: { from: 'module', transform: 'package' } }, autoFixCmd: 'npm install $<package>', severity: 'error', examples: ['Error: Cannot find module \'express\''], counterExamples: ['Cannot find module express'] },
+  { pattern: /Error: Cannot find module '([^']+)'\nRequire stack:/i, title: 'Module Not Found (Require Stack)', category: 'Node.js', explanation: "The module isn't in node_modules. The require stack shows where it was imported from.", fix: "Run npm install to restore missing dependencies.", autoFixCmd: 'npm install', severity: 'error', examples: ['Error: Cannot find module \'dotenv\'\nRequire stack:\n- /app/index.js'], counterExamples: ['Error: Cannot find module \'dotenv\''] },
+  { pattern: /MODULE_NOT_FOUND/i, title: 'Module Not Found', category: 'Node.js', explanation: "A required module doesn't exist. Check that all deps are installed.", fix: "Delete node_modules and reinstall.", autoFixCmd: 'rm -rf node_modules && npm install', severity: 'error', examples: ['  code: \'MODULE_NOT_FOUND\','], counterExamples: ['code: \'MODULE_FOUND\''] },
+  { pattern: /SyntaxError: Unexpected token/i, title: 'Syntax Error', category: 'JavaScript', explanation: "There's a syntax mistake in your code. Could be a missing bracket, comma, or using newer syntax without proper config.", fix: "Check the line number in the error. Look for missing punctuation or unsupported syntax.", severity: 'error', examples: ['SyntaxError: Unexpected token \'export\''], counterExamples: ['SyntaxError: Unexpected identifier \'foo\''] },
+  { pattern: /SyntaxError: Unexpected end of (input|JSON)/i, title: 'Unexpected End of Input', category: 'JavaScript', explanation: "Your code or JSON ends abruptly. Usually a missing closing bracket or brace.", fix: "Count your opening and closing brackets. Make sure they match.", severity: 'error', examples: ['SyntaxError: Unexpected end of JSON input'], counterExamples: ['SyntaxError: Unexpected end of file'] },
+  { pattern: /SyntaxError: Cannot use import statement outside a module/i, title: 'ESM Import Outside Module', category: 'Node.js', explanation: "You're using ES module import syntax but Node thinks this is a CommonJS file.", fix: 'Add "type": "module" to package.json, or rename the file to .mjs, or switch to require().', docs: [{ title: 'Node.js: Enabling ES modules', url: 'https://nodejs.org/api/esm.html#enabling' }], alternatives: [{ when: { packageType: 'module' }, fix: 'package.json already has "type": "module", so something else loads this file as CommonJS: a .cjs extension, a nested package.json with "type": "commonjs", or a tool like Jest or ts-node compiling to CommonJS.' }], severity: 'error', examples: ['SyntaxError: Cannot use import statement outside a module'], counterExamples: ['SyntaxError: Cannot use \'import.meta\' outside a module'] },
+  { pattern: /ReferenceError: (\w+) is not defined/i, title: 'Variable Not Defined', category: 'JavaScript', explanation: "You're trying to use a variable or function that doesn't exist in the current scope.", fix: "Check for typos in the variable name. Make sure it's imported or declared before use.", severity: 'error', examples: ['ReferenceError: window is not defined'], counterExamples: ['ReferenceError: Cannot access \'user\' before initialization'] },
+  { pattern: /TypeError: (\w+) is not a function/i, title: 'Not a Function', category: 'JavaScript', explanation: "You're trying to call something as a function but it isn't one. Could be undefined, null, or a different type.", fix: "Check that the variable is actually a function. Log its type before calling it.", severity: 'error', examples: ['TypeError: fetchUser is not a function'], counterExamples: ['TypeError: api.fetchUser is not a function'] },
+  { pattern: /TypeError: Cannot read propert(?:y|ies) of (?<value>undefined|null)(?: \(reading '(?<property>[^']+)'\))?/i, title: 'Property Access on Null/Undefined', category: 'JavaScript', explanation: "You're trying to access a property on something that's undefined or null.", fix: "Add null checks before accessing properties. Use optional chaining (?.) for safe access.", steps: [{ text: 'Find the expression on the reported line that is $<value>; the stack trace points at it.' }, { text: 'Guard the access with optional chaining, or start from an empty value.', code: 'users?.map(user => ...)\nconst [users, setUsers] = useState([])', lang: 'ts' }, { text: 'If the value comes from async data, render a loading state until it arrives.' }], severity: 'error', examples: ['TypeError: Cannot read properties of undefined (reading \'map\')', 'TypeError: Cannot read properties of null (reading \'addEventListener\')'], counterExamples: ['TypeError: Cannot read private member #x from an object'] },
+  { pattern: /TypeError: Cannot set propert(y|ies) of (undefined|null)/i, title: 'Set Property on Null/Undefined', category: 'JavaScript', explanation: "You're trying to set a property on undefined or null.", fix: "Initialize the object before setting properties on it.", severity: 'error', examples: ['TypeError: Cannot set properties of null (setting \'innerHTML\')'], counterExamples: ['TypeError: Cannot set property x of #<Object> which has only a getter'] },
+  { pattern: /TypeError: Assignment to constant variable/i, title: 'Const Reassignment', category: 'JavaScript', explanation: "You're trying to reassign a const variable. That's not allowed.", fix: "Change const to let if you need to reassign, or use a different variable name.", severity: 'error', examples: ['TypeError: Assignment to constant variable.'], counterExamples: ['TypeError: Assignment to read-only properties is not allowed'] },
+  { pattern: /TypeError: (\w+)\.(\w+) is not a function/i, title: 'Method Not Found', category: 'JavaScript', explanation: "The method you're calling doesn't exist on that object.", fix: "Check the API docs for the correct method name. The object might be a different type than expected.", severity: 'error', examples: ['TypeError: res.status is not a function'], counterExamples: ['TypeError: status is not a function'] },
+  { pattern: /RangeError: Maximum call stack size exceeded/i, title: 'Stack Overflow', category: 'JavaScript', explanation: "You've got infinite recursion. A function keeps calling itself without a proper base case.", fix: "Add or fix the base case in your recursive function. Check for circular references.", severity: 'error', examples: ['RangeError: Maximum call stack size exceeded'], counterExamples: ['RangeError: Maximum BigInt size exceeded'] },
+  { pattern: /RangeError: Invalid array length/i, title: 'Invalid Array Length', category: 'JavaScript', explanation: "You're trying to create an array with a negative or impossibly large length.", fix: "Check the value being passed to Array() or array operations.", severity: 'error', examples: ['RangeError: Invalid array length'], counterExamples: ['RangeError: Invalid string length'] },
+  { pattern: /Error: ENOENT: no such file or directory/i, title: 'File Not Found', category: 'Node.js FS', explanation: "Node can't find the file or directory at the given path.", fix: "Check that the path exists. Use path.resolve() for absolute paths.", severity: 'error', examples: ['Error: ENOENT: no such file or directory, open \'/app/config.json\''], counterExamples: ['Error: ENOTDIR: not a directory, open \'/app/config.json/x\''] },
+  { pattern: /Error: EACCES: permission denied/i, title: 'Permission Denied', category: 'Node.js FS', explanation: "Your process doesn't have the right permissions to access this file or directory.", fix: "Check file permissions. You might need sudo, or run chmod on the file.", autoFixCmd: 'sudo chmod -R 755 .', severity: 'error', examples: ['Error: EACCES: permission denied, mkdir \'/usr/local/lib/node_modules/pnpm\''], counterExamples: ['Error: EPERM: operation not permitted, unlink \'C:\\app\\tmp\''] },
+  { pattern: /Error: EADDRINUSE\b(?<address>.*)/i, title: 'Port Already in Use', category: 'Node.js Network', explanation: "Something else is already listening on that port.", fix: "Kill the other process or use a different port.", steps: [{ text: 'Find the process listening on port $<PORT> (on Windows: netstat -ano | findstr :$<PORT>).', code: 'lsof -i :$<PORT>', lang: 'sh' }, { text: "Stop the process holding the port if it's a leftover dev server, or start this one on another port." }], variables: { PORT: { from: 'address', match: /:(\d{2,5})$/ } }, autoFixCmd: 'lsof -i :$PORT | grep LISTEN', autoFixCmdByPlatform: { win32: 'netstat -ano | findstr :$PORT' }, severity: 'error', examples: ['Error: EADDRINUSE: address already in use 0.0.0.0:8080'], counterExamples: ['Error: EADDRNOTAVAIL: address not available 10.0.0.5:8080'] },
+  { pattern: /\bECONNREFUSED\b/i, title: 'Connection Refused', category: 'Node.js Network', explanation: "The server you're trying to connect to isn't accepting connections.", fix: "Make sure the target service is running and the host/port are correct.", steps: [{ text: 'Check that the service is running and listening on the host and port in the error.' }, { text: 'In Docker Compose, connect to the service name instead of localhost; inside a container localhost is the container itself.' }, { text: 'On Node 17+, localhost can resolve to ::1 first. Use 127.0.0.1 if the server only listens on IPv4.' }], severity: 'error', examples: ['Error: ECONNREFUSED: connection refused by 10.0.0.12:8080', 'Error: connect ECONNREFUSED 127.0.0.1:8080'], counterExamples: ['Error: ECONNABORTED: connection aborted'] },
+  { pattern: /\bECONNRESET\b/i, title: 'Connection Reset', category: 'Node.js Network', explanation: "The connection was forcibly closed by the remote server.", fix: "The server might be overloaded or your request was too large. Add retry logic.", severity: 'error', examples: ['Error: ECONNRESET: socket closed by peer', 'Error: read ECONNRESET'], counterExamples: ['Error: ECONNREFUSED: connection refused'] },
+  { pattern: /Error: ETIMEDOUT/i, title: 'Connection Timed Out', category: 'Node.js Network', explanation: "The connection took too long and was dropped.", fix: "Check network connectivity. Increase timeout settings if needed.", severity: 'error', examples: ['Error: ETIMEDOUT: connection timed out after 30000ms'], counterExamples: ['Error: ESOCKETTIMEDOUT'] },
+  { pattern: /Error: EMFILE: too many open files/i, title: 'Too Many Open Files', category: 'Node.js FS', explanation: "Your process has hit the OS file descriptor limit.", fix: "Close file handles when done. Increase the ulimit.", autoFixCmd: 'ulimit -n 10240', autoFixCmdByPlatform: { win32: null }, severity: 'error', examples: ['Error: EMFILE: too many open files, watch \'/app/src\''], counterExamples: ['Error: ENFILE: file table overflow'] },
+  { pattern: /Error: ENOMEM/i, title: 'Out of Memory', category: 'Node.js', explanation: "The process ran out of available memory.", fix: "Increase the memory limit or optimize your code to use less memory.", autoFixCmd: 'export NODE_OPTIONS=--max-old-space-size=4096', autoFixCmdByPlatform: { win32: 'set NODE_OPTIONS=--max-old-space-size=4096' }, severity: 'error', examples: ['Error: ENOMEM: not enough memory, read'], counterExamples: ['Error: ENOENT: no such file or directory'] },
+  { pattern: /FATAL ERROR: (CALL_AND_RETRY_LAST|Reached heap limit) Allocation failed/i, title: 'Heap Out of Memory', category: 'Node.js', explanation: "V8's heap is full. Your app is using too much memory.", fix: "Increase heap size or find and fix memory leaks.", steps: [{ text: 'Raise the heap limit for the command that crashed.', code: 'NODE_OPTIONS=--max-old-space-size=8192 npm run build', lang: 'sh' }, { text: 'If memory keeps growing, compare heap snapshots (node --inspect, then the Memory tab in Chrome DevTools) to find the leak.' }], docs: [{ title: 'Node.js: --max-old-space-size', url: 'https://nodejs.org/api/cli.html#--max-old-space-sizesize-in-mib' }], autoFixCmd: 'export NODE_OPTIONS=--max-old-space-size=8192', autoFixCmdByPlatform: { win32: 'set NODE_OPTIONS=--max-old-space-size=8192' }, severity: 'error', examples: ['FATAL ERROR: Reached heap limit Allocation failed - JavaScript heap out of memory', 'FATAL ERROR: CALL_AND_RETRY_LAST Allocation failed - JavaScript heap out of memory'], counterExamples: ['FATAL ERROR: v8::ToLocalChecked Empty MaybeLocal.'] },
+  { pattern: /Error \[ERR_REQUIRE_ESM\]/i, title: 'Require ESM Module', category: 'Node.js', explanation: "You're using require() on an ESM-only package. It won't work.", fix: "Switch to dynamic import() or use an older version of the package that supports CommonJS.", steps: [{ text: 'Load the package with a dynamic import, which works from CommonJS.', code: "const { default: fetch } = await import('node-fetch');", lang: 'js' }, { text: 'Or move the project to ESM with "type": "module" in package.json.' }, { text: 'Or pin the last major version of the package that still ships CommonJS.' }], severity: 'error', examples: ['Error [ERR_REQUIRE_ESM]: require() of ES Module /app/node_modules/node-fetch/src/index.js not supported.'], counterExamples: ['Error [ERR_REQUIRE_ASYNC_MODULE]: require() cannot be used on an ESM graph with top-level await'] },
+  { pattern: /ERR_MODULE_NOT_FOUND/i, title: 'ES Module Not Found', category: 'Node.js', explanation: "Node can't resolve the ES module. File extensions are required in ESM.", fix: "Add the .js extension to your import paths. ESM doesn't do auto-resolution like CommonJS.", severity: 'error', examples: ['Error [ERR_MODULE_NOT_FOUND]: Cannot find package \'zod\' imported from /app/src/index.mjs'], counterExamples: ['Error [ERR_PACKAGE_PATH_NOT_EXPORTED]: Package subpath \'./utils\' is not defined by "exports"'] },
+  { pattern: /ERR_UNKNOWN_FILE_EXTENSION/i, title: 'Unknown File Extension', category: 'Node.js', explanation: "Node doesn't know how to handle this file type.", fix: 'Make sure you\'re using .js, .mjs, or .cjs. Check your "type" field in package.json.', alternatives: [{ when: { packageType: 'module' }, fix: "In an ESM package ts-node needs its ESM loader (node --loader ts-node/esm). tsx handles both module types: npx tsx <file>." }], severity: 'error', examples: ['TypeError [ERR_UNKNOWN_FILE_EXTENSION]: Unknown file extension ".ts" for /app/src/index.ts'], counterExamples: ['TypeError [ERR_UNKNOWN_BUILTIN_MODULE]: No such built-in module: node:foo'] },
+  { pattern: /Error \[ERR_HTTP_HEADERS_SENT\]/i, title: 'Headers Already Sent', category: 'Node.js HTTP', explanation: "You're trying to set headers after the response was already sent.", fix: "Make sure you only send one response per request. Add return after res.send() or res.end().", steps: [{ text: 'Return when you send a response so the handler stops there.', code: "if (!user) return res.status(404).json({ error: 'Not found' });", lang: 'js' }, { text: 'Check for middleware that calls next() after responding, and async code that responds in both then and catch.' }], severity: 'error', examples: ['Error [ERR_HTTP_HEADERS_SENT]: Cannot set headers after they are sent to the client'], counterExamples: ['Error [ERR_HTTP_INVALID_HEADER_VALUE]: Invalid value "undefined" for header "Location"'] },
+  { pattern: /ERR_INVALID_ARG_TYPE/i, title: 'Invalid Argument Type', category: 'Node.js', explanation: "A function got the wrong type of argument.", fix: "Check the expected types in the docs. You might be passing a string where a Buffer is needed (or similar).", severity: 'error', examples: ['TypeError [ERR_INVALID_ARG_TYPE]: The "path" argument must be of type string. Received undefined'], counterExamples: ['TypeError [ERR_INVALID_ARG_VALUE]: The argument \'flags\' is invalid. Received \'rw+x\''] },
+  { pattern: /UnhandledPromiseRejection/i, title: 'Unhandled Promise Rejection', category: 'Node.js', explanation: "A promise was rejected but nothing caught the error.", fix: "Add .catch() to your promises or wrap async code in try/catch.", steps: [{ text: 'Await the promise inside try/catch, or add .catch().', code: 'try {\n  await saveUser(user);\n} catch (err) {\n  logger.error(err);\n}', lang: 'ts' }, { text: 'The stack under the rejection shows which call went unhandled.' }], docs: [{ title: 'Node.js: --unhandled-rejections', url: 'https://nodejs.org/api/cli.html#--unhandled-rejectionsmode' }], severity: 'error', examples: ['[UnhandledPromiseRejection: This error originated either by throwing inside of an async function without a catch block, or by rejecting a promise which was not handled with .catch().]'], counterExamples: ['(node:123) PromiseRejectionHandledWarning: Promise rejection was handled asynchronously'] },
+  { pattern: /Warning: .* did not .* await/i, title: 'Missing Await', category: 'Node.js', explanation: "You forgot to await an async operation.", fix: "Add the await keyword before the async function call.", severity: 'warning', examples: ['Warning: a promise was created in a handler but was not returned from it, so the caller did not properly await it'], counterExamples: ['Warning: a promise was rejected with a non-error: [object String]'] },
+
+  // ─── TypeScript Errors ───
+  { pattern: /TS2307: Cannot find module '(?<module>[^']+)'/i, title: 'TS: Module Not Found', category: 'TypeScript', explanation: "TypeScript can't find type declarations for this module.", fix: "Install the @types package for the module.", docs: [{ title: 'TSConfig: moduleResolution', url: 'https://www.typescriptlang.org/tsconfig/#moduleResolution' }], autoFixCmd: 'npm install -D $<types>', variables: { types: { from: 'module', transform: 'types' } }, alternatives: [{ when: { compilerOptions: { moduleResolution: ['node16', 'nodenext'] } }, fix: "For a package, install it or its @types package. For a relative import, node16/nodenext resolution needs the emitted extension in the path (./util.js for util.ts)." }], severity: 'error', examples: ['src/api.ts(3,21): error TS2307: Cannot find module \'axios\' or its corresponding type declarations.'], counterExamples: ['src/api.ts(3,21): error TS2306: File \'/app/src/types.ts\' is not a module.'] },
+  { pattern: /TS2304: Cannot find name '(\w+)'/i, title: 'TS: Name Not Found', category: 'TypeScript', explanation: "TypeScript doesn't recognize this identifier. It might need to be imported or declared.", fix: "Import the missing type/value or add a type declaration.", severity: 'error', examples: ['src/app.ts(10,5): error TS2304: Cannot find name \'describe\'.'], counterExamples: ['src/app.ts(10,5): error TS2552: Cannot find name \'Reqest\'. Did you mean \'Request\'?'] },
+  { pattern: /TS2339: Property '(\w+)' does not exist on type/i, title: 'TS: Property Missing', category: 'TypeScript', explanation: "The type definition doesn't include this property.", fix: "Check the type definition. You might need to extend the type or use a type assertion.", severity: 'error', examples: ['src/user.ts(14,10): error TS2339: Property \'email\' does not exist on type \'User\'.'], counterExamples: ['src/user.ts(14,10): error TS2341: Property \'id\' is private and only accessible within class \'User\'.'] },
+  { pattern: /TS2345: Argument of type '(.+)' is not assignable to parameter of type '(.+)'/i, title: 'TS: Type Mismatch', category: 'TypeScript', explanation: "You're passing the wrong type to a function.", fix: "Convert or cast the value to the expected type. Check your function signature.", severity: 'error', examples: ['src/api.ts(52,17): error TS2345: Argument of type \'string | undefined\' is not assignable to parameter of type \'string\'.'], counterExamples: ['src/api.ts(52,17): error TS2322: Type \'number\' is not assignable to type \'string\'.'] },
+  { pattern: /TS2322: Type '(.+)' is not assignable to type '(.+)'/i, title: 'TS: Assignment Type Mismatch', category: 'TypeScript', explanation: "You're trying to assign a value of the wrong type.", fix: "Fix the value to match the expected type, or update the type annotation.", severity: 'error', examples: ['src/user.ts(30,5): error TS2322: Type \'number\' is not assignable to type \'string\'.'], counterExamples: ['src/user.ts(30,5): error TS2345: Argument of type \'number\' is not assignable to parameter of type \'string\'.'] },
+  { pattern: /TS2532: Object is possibly 'undefined'/i, title: 'TS: Possibly Undefined', category: 'TypeScript', explanation: "TypeScript thinks this value could be undefined.", fix: "Add a null check, use optional chaining (?.), or use non-null assertion (!) if you're sure.", steps: [{ text: 'Narrow the value before using it.', code: 'if (user) {\n  console.log(user.name);\n}', lang: 'ts' }, { text: 'Or read it with optional chaining and a default.', code: "const name = user?.name ?? 'anonymous';", lang: 'ts' }], docs: [{ title: 'TypeScript: Narrowing', url: 'https://www.typescriptlang.org/docs/handbook/2/narrowing.html' }], severity: 'error', examples: ['src/list.tsx(12,18): error TS2532: Object is possibly \'undefined\'.'], counterExamples: ['src/list.tsx(12,18): error TS18048: \'user\' is possibly \'undefined\'.'] },
+  { pattern: /TS2531: Object is possibly 'null'/i, title: 'TS: Possibly Null', category: 'TypeScript', explanation: "TypeScript thinks this value could be null.", fix: "Add a null check before using the value.", severity: 'error', examples: ['src/dom.ts(4,3): error TS2531: Object is possibly \'null\'.'], counterExamples: ['src/dom.ts(4,3): error TS18047: \'el\' is possibly \'null\'.'] },
+  { pattern: /TS2554: Expected (\d+) arguments?, but got (\d+)/i, title: 'TS: Wrong Argument Count', category: 'TypeScript', explanation: "You're passing the wrong number of arguments to a function.", fix: "Check the function signature and pass the correct number of args.", severity: 'error', examples: ['src/auth.ts(19,12): error TS2554: Expected 2 arguments, but got 1.'], counterExamples: ['src/auth.ts(19,12): error TS2555: Expected at least 2 arguments, but got 1.'] },
+  { pattern: /TS2551: Property '(\w+)' does not exist.*Did you mean '(\w+)'/i, title: 'TS: Property Typo', category: 'TypeScript', explanation: "Looks like a typo. TypeScript found a similar property name.", fix: "Use the suggested property name instead.", severity: 'error', examples: ['src/date.ts(44,7): error TS2551: Property \'toLocalString\' does not exist on type \'Date\'. Did you mean \'toLocaleString\'?'], counterExamples: ['src/date.ts(44,7): error TS2339: Property \'toLocalString\' does not exist on type \'Date\'.'] },
+  { pattern: /TS2349: This expression is not callable/i, title: 'TS: Not Callable', category: 'TypeScript', explanation: "You're trying to call something that TypeScript doesn't think is a function.", fix: "Check the type of what you're calling. It might need a type assertion.", severity: 'error', examples: ['src/index.ts(8,1): error TS2349: This expression is not callable.'], counterExamples: ['src/index.ts(8,1): error TS2351: This expression is not constructable.'] },
+  { pattern: /TS2355: A function whose declared type is neither 'void' nor 'any' must return a value/i, title: 'TS: Missing Return', category: 'TypeScript', explanation: "Your function has a return type but doesn't return anything on all code paths.", fix: "Add return statements to cover all branches.", severity: 'error', examples: ['src/calc.ts(3,24): error TS2355: A function whose declared type is neither \'void\' nor \'any\' must return a value.'], counterExamples: ['src/calc.ts(3,24): error TS2366: Function lacks ending return statement and return type does not include \'undefined\'.'] },
+  { pattern: /TS2366: Function lacks ending return statement/i, title: 'TS: Missing Return Statement', category: 'TypeScript', explanation: "Not all code paths in this function return a value.", fix: "Add a return statement at the end of the function.", severity: 'error', examples: ['src/db.ts(77,1): error TS2366: Function lacks ending return statement and return type does not include \'undefined\'.'], counterExamples: ['src/db.ts(77,1): error TS2355: A function whose declared type is neither \'void\' nor \'any\' must return a value.'] },
+  { pattern: /TS2564: Property '(\w+)' has no initializer/i, title: 'TS: Uninitialized Property', category: 'TypeScript', explanation: "A class property isn't initialized in the constructor.", fix: "Initialize it in the constructor, add a default value, or use the ! definite assignment assertion.", severity: 'error', examples: ['src/db.ts(9,3): error TS2564: Property \'pool\' has no initializer and is not definitely assigned in the constructor.'], counterExamples: ['src/db.ts(9,3): error TS2565: Property \'pool\' is used before being assigned.'] },
+  { pattern: /TS2556: A spread argument must.*have a tuple type or be passed to a rest parameter/i, title: 'TS: Invalid Spread', category: 'TypeScript', explanation: "TypeScript can't verify the spread argument matches what's expected.", fix: "Use 'as const' on the array or explicitly type it as a tuple.", severity: 'error', examples: ['src/log.ts(5,10): error TS2556: A spread argument must either have a tuple type or be passed to a rest parameter.'], counterExamples: ['src/log.ts(5,10): error TS2488: Type \'number\' must have a \'[Symbol.iterator]()\' method that returns an iterator.'] },
+  { pattern: /TS1005: '(.+)' expected/i, title: 'TS: Syntax Expected', category: 'TypeScript', explanation: "TypeScript was expecting a specific token at this position.", fix: "Check for missing semicolons, brackets, or commas near the error line.", severity: 'error', examples: ['src/app.ts(18,1): error TS1005: \';\' expected.'], counterExamples: ['src/app.ts(18,1): error TS1109: Expression expected.'] },
+  { pattern: /TS1128: Declaration or statement expected/i, title: 'TS: Declaration Expected', category: 'TypeScript', explanation: "Something unexpected appeared where TypeScript wanted a declaration.", fix: "Check for extra closing braces or misplaced code.", severity: 'error', examples: ['src/app.ts(40,1): error TS1128: Declaration or statement expected.'], counterExamples: ['src/app.ts(40,1): error TS1109: Expression expected.'] },
+  { pattern: /TS1192: Module.*has no default export/i, title: 'TS: No Default Export', category: 'TypeScript', explanation: "You're doing a default import but the module doesn't have one.", fix: "Use named imports: import { thing } from 'module' instead of import thing from 'module'.", severity: 'error', examples: ['src/auth.ts(5,8): error TS1192: Module \'"./session"\' has no default export.'], counterExamples: ['src/auth.ts(5,8): error TS2305: Module \'"./session"\' has no exported member \'Session\'.'] },
+  { pattern: /TS1259: Module.*can only be default-imported using.*esModuleInterop/i, title: 'TS: Need esModuleInterop', category: 'TypeScript', explanation: "This CommonJS module needs esModuleInterop to work with default imports.", fix: 'Set "esModuleInterop": true in your tsconfig.json.', steps: [{ text: 'Turn the flag on in tsconfig.json.', code: '"compilerOptions": {\n  "esModuleInterop": true\n}', lang: 'json' }], docs: [{ title: 'TSConfig: esModuleInterop', url: 'https://www.typescriptlang.org/tsconfig/#esModuleInterop' }], alternatives: [{ when: { compilerOptions: { esModuleInterop: true } }, fix: "esModuleInterop is already on in tsconfig.json, so the compiler reporting this uses another config (tsconfig.build.json, a Jest or ts-node config) or the file isn't in the config's include list." }], severity: 'error', examples: ['src/server.ts(2,8): error TS1259: Module \'"express"\' can only be default-imported using the \'esModuleInterop\' flag'], counterExamples: ['src/server.ts(2,8): error TS1192: Module \'"express"\' has no default export.'] },
+  { pattern: /TS2688: Cannot find type definition file for '(?<name>[^']+)'/i, title: 'TS: Missing Type Definitions', category: 'TypeScript', explanation: "TypeScript can't find the type definitions referenced in your config.", fix: "Install the missing @types package.", docs: [{ title: 'TSConfig: types', url: 'https://www.typescriptlang.org/tsconfig/#types' }], autoFixCmd: 'npm install -D $<types>', variables: { types: { from: 'name', transform: 'types' } }, severity: 'error', examples: ['error TS2688: Cannot find type definition file for \'node\'.'], counterExamples: ['error TS2307: Cannot find module \'node:fs\' or its corresponding type declarations.'] },
+  { pattern: /TS6133: '(\w+)' is declared but its value is never read/i, title: 'TS: Unused Variable', category: 'TypeScript', explanation: "You declared a variable but never used it.", fix: "Remove the unused variable or prefix it with _ to suppress the warning.", severity: 'warning', examples: ['src/card.tsx(8,10): error TS6133: \'useMemo\' is declared but its value is never read.'], counterExamples: ['src/card.tsx(8,10): error TS6192: All imports in import declaration are unused.'] },
+  { pattern: /TS7006: Parameter '(\w+)' implicitly has an 'any' type/i, title: 'TS: Implicit Any', category: 'TypeScript', explanation: "TypeScript can't infer the type and strict mode doesn't allow implicit any.", fix: "Add an explicit type annotation to the parameter.", severity: 'error', examples: ['src/card.tsx(22,31): error TS7006: Parameter \'event\' implicitly has an \'any\' type.'], counterExamples: ['src/card.tsx(22,31): error TS7031: Binding element \'props\' implicitly has an \'any\' type.'] },
+  { pattern: /TS7053: Element implicitly has an 'any' type/i, title: 'TS: Implicit Any Index', category: 'TypeScript', explanation: "You're using a dynamic key to access an object and TypeScript can't verify the type.", fix: "Add an index signature to the type or use a type assertion.", severity: 'error', examples: ['src/routes.ts(18,40): error TS7053: Element implicitly has an \'any\' type because expression of type \'string\' can\'t be used to index type \'{}\'.'], counterExamples: ['src/routes.ts(18,40): error TS7006: Parameter \'key\' implicitly has an \'any\' type.'] },
+  { pattern: /TS18046: '(\w+)' is of type 'unknown'/i, title: 'TS: Unknown Type', category: 'TypeScript', explanation: "The variable is typed as unknown and you need to narrow it before use.", fix: "Add a type guard: if (typeof x === 'string') or if (x instanceof Error).", severity: 'error', examples: ['src/format.ts(61,20): error TS18046: \'err\' is of type \'unknown\'.'], counterExamples: ['src/format.ts(61,20): error TS18048: \'err\' is possibly \'undefined\'.'] },
+  { pattern: /TS2571: Object is of type 'unknown'/i, title: 'TS: Object Unknown Type', category: 'TypeScript', explanation: "You're trying to use a value typed as 'unknown' without narrowing it first.", fix: "Use type guards to narrow the type before accessing properties.", severity: 'error', examples: ['src/format.ts(61,20): error TS2571: Object is of type \'unknown\'.'], counterExamples: ['src/format.ts(61,20): error TS2532: Object is possibly \'undefined\'.'] },
+  { pattern: /TS2769: No overload matches this call/i, title: 'TS: No Matching Overload', category: 'TypeScript', explanation: "None of the function's overload signatures match your arguments.", fix: "Check the function's overload signatures and fix your arguments.", severity: 'error', examples: ['src/server.ts(31,24): error TS2769: No overload matches this call.'], counterExamples: ['src/server.ts(31,24): error TS2345: Argument of type \'string\' is not assignable to parameter of type \'number\'.'] },
+  { pattern: /TS2741: Property '(\w+)' is missing in type/i, title: 'TS: Missing Property', category: 'TypeScript', explanation: "An object is missing a required property.", fix: "Add the missing property to the object.", severity: 'error', examples: ['src/auth.ts(27,3): error TS2741: Property \'token\' is missing in type \'{ user: User; }\' but required in type \'Session\'.'], counterExamples: ['src/auth.ts(27,3): error TS2739: Type \'{}\' is missing the following properties from type \'Session\': user, token'] },
+  { pattern: /TS2559: Type '(.+)' has no properties in common with type/i, title: 'TS: No Common Properties', category: 'TypeScript', explanation: "The object you're passing shares zero properties with the expected type.", fix: "Check that you're passing the right object. There might be a naming mismatch.", severity: 'error', examples: ['src/opts.ts(6,9): error TS2559: Type \'{ verbose: true; }\' has no properties in common with type \'Options\'.'], counterExamples: ['src/opts.ts(6,9): error TS2353: Object literal may only specify known properties, and \'verbose\' does not exist in type \'Options\'.'] },
+
+  // ─── npm Errors ───
+  { pattern: /npm ERR! code ERESOLVE/i, title: 'npm: Dependency Resolution Failed', category: 'npm', explanation: "npm can't resolve conflicting dependency versions.", fix: "Try npm install --legacy-peer-deps, or manually fix the version conflicts.", steps: [{ text: 'Read the "Could not resolve dependency" lines to see which package wants which peer version.' }, { text: 'Upgrade or downgrade one side so the versions agree.' }, { text: 'If the peer range is just stale, install with --legacy-peer-deps.', code: 'npm install --legacy-peer-deps', lang: 'sh' }], autoFixCmd: 'npm install --legacy-peer-deps', alternatives: [{ when: { packageManager: ['pnpm', 'yarn', 'bun'] }, explanation: "npm can't resolve the dependency tree, but this project is locked with another package manager. npm ignores that lockfile and doesn't understand workspace: dependencies.", fix: "Install with the project's package manager instead of npm. --legacy-peer-deps doesn't apply there.", autoFixCmd: 'npm install' }], severity: 'error', examples: ['npm ERR! code ERESOLVE'], counterExamples: ['npm ERR! ERESOLVE could not resolve'] },
+  { pattern: /npm ERR! code ENOENT/i, title: 'npm: File Not Found', category: 'npm', explanation: "npm can't find a required file, usually package.json.", fix: "Make sure you're in the right directory and package.json exists.", severity: 'error', examples: ['npm ERR! code ENOENT'], counterExamples: ['npm ERR! code ENOTEMPTY'] },
+  { pattern: /npm ERR! code E404/i, title: 'npm: Package Not Found', category: 'npm', explanation: "The package doesn't exist on the npm registry.", fix: "Check the package name for typos. It might be scoped or renamed.", severity: 'error', examples: ['npm ERR! code E404'], counterExamples: ['npm ERR! 404 Not Found - GET https://registry.npmjs.org/left-padd'] },
+  { pattern: /npm ERR! code E403/i, title: 'npm: Access Forbidden', category: 'npm', explanation: "You don't have permission to access this package.", fix: "Check your npm auth. Run npm login if needed.", autoFixCmd: 'npm login', severity: 'error', examples: ['npm ERR! code E403'], counterExamples: ['npm ERR! code E401'] },
+  { pattern: /npm ERR! code EINTEGRITY/i, title: 'npm: Integrity Check Failed', category: 'npm', explanation: "The downloaded package doesn't match the expected checksum.", fix: "Clear the npm cache and reinstall.", steps: [{ text: 'Clear the cache.', code: 'npm cache clean --force', lang: 'sh' }, { text: 'If the lockfile was edited by hand or merged badly, delete its entry for the package and reinstall.', code: 'npm install', lang: 'sh' }], autoFixCmd: 'npm cache clean --force && rm -rf node_modules && npm install', severity: 'error', examples: ['npm ERR! code EINTEGRITY'], counterExamples: ['npm ERR! code EBADENGINE'] },
+  { pattern: /npm ERR! peer dep missing/i, title: 'npm: Missing Peer Dependency', category: 'npm', explanation: "A package needs a peer dependency that isn't installed.", fix: "Install the peer dependency manually.", severity: 'warning', examples: ['npm ERR! peer dep missing: react@^17.0.0, required by react-beautiful-dnd@13.1.1'], counterExamples: ['npm WARN ERESOLVE overriding peer dependency'] },
+  { pattern: /npm WARN deprecated/i, title: 'npm: Deprecated Package', category: 'npm', explanation: "A package you're using has been deprecated.", fix: "Look for a replacement package in the deprecation message.", severity: 'warning', examples: ['npm WARN deprecated inflight@1.0.6: This module is not supported, and leaks memory.'], counterExamples: ['npm WARN config global `--global`, `--local` are deprecated. Use `--location=global` instead.'] },
+  { pattern: /npm ERR! code EAUDIT/i, title: 'npm: Audit Failure', category: 'npm', explanation: "npm audit found security vulnerabilities.", fix: "Run npm audit fix to auto-patch what it can.", autoFixCmd: 'npm audit fix', severity: 'warning', examples: ['npm ERR! code EAUDIT'], counterExamples: ['npm ERR! code EAI_AGAIN'] },
+  { pattern: /npm ERR! code EPERM/i, title: 'npm: Permission Error', category: 'npm', explanation: "npm doesn't have permission to write to the install directory.", fix: "Fix ownership of node_modules or use --prefix.", autoFixCmd: 'sudo chown -R $(whoami) node_modules', severity: 'error', examples: ['npm ERR! code EPERM'], counterExamples: ['npm ERR! code EACCES'] },
+  { pattern: /npm ERR! code EJSONPARSE/i, title: 'npm: JSON Parse Error', category: 'npm', explanation: "package.json has invalid JSON.", fix: "Check package.json for syntax errors. Use a JSON validator.", severity: 'error', examples: ['npm ERR! code EJSONPARSE'], counterExamples: ['npm ERR! JSON.parse Unexpected token } in JSON at position 200'] },
+
+  // ─── Build Tool Errors ───
+  { pattern: /error TS5058: The specified path does not exist/i, title: 'TS Config: Path Not Found', category: 'TypeScript', explanation: "A path in tsconfig.json doesn't exist.", fix: "Check rootDir, outDir, and include paths in tsconfig.json.", severity: 'error', examples: ['error TS5058: The specified path does not exist: \'tsconfig.app.json\'.'], counterExamples: ['error TS5057: Cannot find a tsconfig.json file at the specified directory: \'./app\'.'] },
+  { pattern: /error TS6059: File.*is not under 'rootDir'/i, title: 'TS Config: File Outside rootDir', category: 'TypeScript', explanation: "A file you're importing lives outside the rootDir defined in tsconfig.", fix: 'Move the file inside rootDir or update your tsconfig "rootDir" and "include" settings.', severity: 'error', examples: ['tsconfig.json(3,5): error TS6059: File \'/repo/scripts/seed.ts\' is not under \'rootDir\' \'/repo/src\'.'], counterExamples: ['tsconfig.json(3,5): error TS6307: File \'/repo/scripts/seed.ts\' is not listed within the file list of project.'] },
+  { pattern: /webpack.*Module not found/i, title: 'Webpack: Module Not Found', category: 'Webpack', explanation: "Webpack can't resolve an import.", fix: "Check the import path. You might need a webpack resolver alias or to install the package.", severity: 'error', examples: ['ERROR in ./src/index.js webpack: Module not found: Error: Can\'t resolve \'lodash\' in \'/app/src\''], counterExamples: ['webpack 5.90.0 compiled successfully in 2345 ms'] },
+  { pattern: /Module build failed.*ENOENT/i, title: 'Build: File Missing', category: 'Build', explanation: "The build tool can't find a file referenced in your code.", fix: "Check import paths for typos. Make sure the file exists.", severity: 'error', examples: ['Module build failed (from ./node_modules/postcss-loader/dist/cjs.js): ENOENT: postcss.config.js not found'], counterExamples: ['Module build failed (from ./node_modules/babel-loader/lib/index.js): SyntaxError: Unexpected token (3:10)'] },
+  { pattern: /error: linker.*not found/i, title: 'Build: Linker Not Found', category: 'Build', explanation: "The C/C++ linker isn't installed or configured.", fix: "Install build tools for your platform.", autoFixCmd: 'xcode-select --install', autoFixCmdByPlatform: { linux: 'sudo apt-get install -y build-essential', win32: 'npm install -g windows-build-tools' }, severity: 'error', examples: ['error: linker `cc` not found'], counterExamples: ['error: linking with `cc` failed: exit status: 1'] },
+  { pattern: /gyp ERR!/i, title: 'node-gyp Build Error', category: 'Build', explanation: "A native addon failed to compile with node-gyp.", fix: "Install build tools: Python, make, and a C++ compiler.", autoFixCmd: 'npm install -g node-gyp', severity: 'error', examples: ['gyp ERR! stack Error: Could not find any Python installation to use'], counterExamples: ['gyp info it worked if it ends with ok'] },
+  { pattern: /esbuild.*error/i, title: 'esbuild Error', category: 'Build', explanation: "esbuild encountered an error during bundling.", fix: "Check the error details for the specific file and line.", severity: 'error', examples: ['✘ [ERROR] esbuild: error: Could not resolve "lodash-es"'], counterExamples: ['esbuild 0.20.2 finished in 120ms'] },
+  { pattern: /vite.*error/i, title: 'Vite Build Error', category: 'Build', explanation: "Vite encountered an error during build or dev.", fix: "Check the error message for specifics. Clear the .vite cache if needed.", autoFixCmd: 'rm -rf node_modules/.vite && npm run dev', severity: 'error', examples: ['[vite] Internal server error: Failed to resolve import "./Chart" from "src/App.tsx"'], counterExamples: ['vite v5.2.0 building for production...'] },
+
+  // ─── React Errors ───
+  { pattern: /Invalid hook call/i, title: 'React: Invalid Hook Call', category: 'React', explanation: "You're calling a hook outside a function component, or you have multiple React copies.", fix: "Only call hooks at the top level of function components. Check for duplicate React installations.", steps: [{ text: 'Move the hook call to the top level of a function component or custom hook, outside conditions and loops.' }, { text: 'Check for more than one copy of React.', code: 'npm ls react', lang: 'sh' }, { text: 'In a monorepo or with npm link, make the app and the library resolve the same react package.' }], docs: [{ title: 'React: Rules of Hooks', url: 'https://react.dev/reference/rules/rules-of-hooks' }], autoFixCmd: 'npm ls react', severity: 'error', examples: ['Error: Invalid hook call. Hooks can only be called inside of the body of a function component.'], counterExamples: ['Warning: React Hook useEffect has a missing dependency: \'load\'.'] },
+  { pattern: /Too many re-renders/i, title: 'React: Infinite Re-render Loop', category: 'React', explanation: "Your component keeps re-rendering in a loop. Usually caused by setting state during render.", fix: "Don't call setState directly in the component body. Use useEffect for side effects.", steps: [{ text: 'Look for a state setter called directly in the component body, or in an onClick written as a call.', code: 'onClick={() => setOpen(true)}   // not onClick={setOpen(true)}', lang: 'tsx' }, { text: 'Move side effects that set state into useEffect with the right dependencies.' }], severity: 'error', examples: ['Error: Too many re-renders. React limits the number of renders to prevent an infinite loop.'], counterExamples: ['Too many requests, please retry later'] },
+  { pattern: /Each child in a list should have a unique "key" prop/i, title: 'React: Missing Key Prop', category: 'React', explanation: "When rendering lists, each element needs a unique key prop.", fix: "Add a key prop using a unique identifier (not array index if possible).", severity: 'warning', examples: ['Warning: Each child in a list should have a unique "key" prop.'], counterExamples: ['Warning: Encountered two children with the same key, `1`.'] },
+  { pattern: /Cannot update a component.*while rendering a different component/i, title: 'React: State Update During Render', category: 'React', explanation: "You're updating one component's state while another is rendering.", fix: "Move the state update into useEffect.", severity: 'error', examples: ['Warning: Cannot update a component (`App`) while rendering a different component (`Child`).'], counterExamples: ['Warning: Can\'t perform a React state update on an unmounted component.'] },
+  { pattern: /Minified React error #(?<code>\d+)/i, title: 'React: Minified Error', category: 'React', explanation: "This is a production React error. Look up the error number for details.", fix: "Open the decoder page for error #$<code>, or reproduce the error in a development build for the full message.", docs: [{ title: 'React error #$<code>', url: 'https://react.dev/errors/$<code>' }], severity: 'error', examples: ['Error: Minified React error #418; visit https://react.dev/errors/418 for the full message'], counterExamples: ['Error: Minified exception occurred; use the non-minified dev environment'] },
+  { pattern: /Objects are not valid as a React child/i, title: 'React: Invalid Child', category: 'React', explanation: "You're trying to render a plain object as JSX. React can't do that.", fix: "Convert the object to a string or extract the values you want to display.", severity: 'error', examples: ['Error: Objects are not valid as a React child (found: object with keys {id, name}).'], counterExamples: ['Warning: Functions are not valid as a React child.'] },
+  { pattern: /Maximum update depth exceeded/i, title: 'React: Max Update Depth', category: 'React', explanation: "Same as infinite re-render. A state update triggers another state update endlessly.", fix: "Check your useEffect dependencies. Make sure you're not creating infinite loops.", severity: 'error', examples: ['Error: Maximum update depth exceeded. This can happen when a component repeatedly calls setState.'], counterExamples: ['RangeError: Maximum call stack size exceeded'] },
+  { pattern: /Hydration failed because/i, title: 'React: Hydration Mismatch', category: 'React', explanation: "The server-rendered HTML doesn't match what the client rendered.", fix: "Make sure your component renders the same content on server and client. Avoid using Date or Math.random during render.", steps: [{ text: 'Find the element React names in the diff and render the same markup on both sides.' }, { text: 'Move values that differ (Date.now(), Math.random(), window, localStorage) into useEffect so they only apply after hydration.', code: 'const [now, setNow] = useState<string | null>(null);\nuseEffect(() => setNow(new Date().toLocaleString()), []);', lang: 'tsx' }, { text: 'Check for invalid nesting, like a <div> inside a <p>, which the browser rearranges.' }], docs: [{ title: 'React: hydrateRoot', url: 'https://react.dev/reference/react-dom/client/hydrateRoot' }], severity: 'error', examples: ['Uncaught Error: Hydration failed because the initial UI does not match what was rendered on the server.'], counterExamples: ['Warning: Text content did not match. Server: "1" Client: "2"'] },
+  { pattern: /React.createElement: type is invalid/i, title: 'React: Invalid Element Type', category: 'React', explanation: "You're passing undefined or null as a component type.", fix: "Check your imports. The component might not be exported correctly.", severity: 'error', examples: ['Warning: React.createElement: type is invalid -- expected a string (for built-in components) or a class/function but got: undefined.'], counterExamples: ['Warning: React.jsx: type is invalid -- expected a string'] },
+
+  // ─── Next.js Errors ───
+  { pattern: /Error: Hydration failed/i, title: 'Next.js: Hydration Error', category: 'Next.js', explanation: "Server and client HTML don't match. Common with dynamic content.", fix: "Use suppressHydrationWarning or move dynamic content into useEffect.", severity: 'error', examples: ['Error: Hydration failed'], counterExamples: ['Error: Hydrating the page took too long'] },
+  { pattern: /Error: NEXT_NOT_FOUND/i, title: 'Next.js: Page Not Found', category: 'Next.js', explanation: "The notFound() function was called.", fix: "Check your routing. The page might not exist at the expected path.", severity: 'error', examples: ['Error: NEXT_NOT_FOUND'], counterExamples: ['Error: NEXT_REDIRECT'] },
+  { pattern: /Module not found: Can't resolve '(?<module>[^']+)'/i, title: 'Next.js: Module Not Found', category: 'Next.js', explanation: "Next.js can't resolve this import. The package might not be installed.", fix: "Install the missing package.", steps: [{ text: "For an alias like @/, check the paths in tsconfig.json or jsconfig.json and the file's exact name and case." }, { text: 'For a package, install it.', code: 'npm install $<package>', lang: 'sh' }], autoFixCmd: 'npm install $<package>', variables: { package: { from: 'module', transform: 'package' } }, severity: 'error', examples: ['Module not found: Can\'t resolve \'@/components/Chart\''], counterExamples: ['Module not found: Error: Package path ./server is not exported from package /app/node_modules/react-dom'] },
+
+  // ─── Express/HTTP Errors ───
+  { pattern: /Error: listen EADDRINUSE\b(?<address>.*)/i, title: 'Express: Port in Use', category: 'Express', explanation: "The port is already taken by another process.", fix: "Kill the process on that port or choose a different one.", autoFixCmd: 'npx kill-port $PORT', variables: { PORT: { from: 'address', match: /:(\d{2,5})$/ } }, severity: 'error', examples: ['Error: listen EADDRINUSE: address already in use :::3000'], counterExamples: ['Error: listen EACCES: permission denied 0.0.0.0:80'] },
+  { pattern: /PayloadTooLargeError/i, title: 'Express: Payload Too Large', category: 'Express', explanation: "The request body exceeds the size limit.", fix: "Increase the body parser limit: app.use(express.json({ limit: '10mb' }))", severity: 'error', examples: ['PayloadTooLargeError: request entity too large'], counterExamples: ['RangeError: Request body larger than maxBodyLength limit'] },
+  { pattern: /Error: Request aborted/i, title: 'HTTP: Request Aborted', category: 'HTTP', explanation: "The client closed the connection before the server finished responding.", fix: "Handle the 'aborted' event on the request. Add timeout handling.", severity: 'warning', examples: ['Error: Request aborted'], counterExamples: ['Error: Request failed with status code 500'] },
+
+  // ─── Database Errors ───
+  { pattern: /ER_DUP_ENTRY/i, title: 'MySQL: Duplicate Entry', category: 'Database', explanation: "You're trying to insert a row that violates a unique constraint.", fix: "Check for existing records before inserting, or use INSERT ... ON DUPLICATE KEY UPDATE.", severity: 'error', examples: ['Error: ER_DUP_ENTRY: Duplicate entry \'alice@example.com\' for key \'users.email\''], counterExamples: ['Error: ER_NO_SUCH_TABLE: Table \'app.users\' doesn\'t exist'] },
+  { pattern: /ER_ACCESS_DENIED_ERROR/i, title: 'MySQL: Access Denied', category: 'Database', explanation: "Wrong username or password for the database.", fix: "Check your database credentials in your .env file.", severity: 'error', examples: ['Error: ER_ACCESS_DENIED_ERROR: Access denied for user \'root\'@\'localhost\' (using password: YES)'], counterExamples: ['Error: ER_DBACCESS_DENIED_ERROR: Access denied for user \'app\'@\'%\' to database \'prod\''] },
+  { pattern: /SQLITE_BUSY/i, title: 'SQLite: Database Busy', category: 'Database', explanation: "Another process has a lock on the SQLite database.", fix: "Add WAL mode: PRAGMA journal_mode=WAL; or add retry logic.", severity: 'error', examples: ['Error: SQLITE_BUSY: database is locked'], counterExamples: ['Error: SQLITE_CANTOPEN: unable to open database file'] },
+  { pattern: /SQLITE_CONSTRAINT/i, title: 'SQLite: Constraint Violation', category: 'Database', explanation: "An insert or update violates a database constraint.", fix: "Check unique constraints, foreign keys, and NOT NULL requirements.", severity: 'error', examples: ['Error: SQLITE_CONSTRAINT: UNIQUE constraint failed: users.email'], counterExamples: ['Error: SQLITE_MISMATCH: datatype mismatch'] },
+  { pattern: /relation "(\w+)" does not exist/i, title: 'PostgreSQL: Table Not Found', category: 'Database', explanation: "The table doesn't exist in the database.", fix: "Run your migrations. Check the schema and table name.", autoFixCmd: 'npx prisma migrate dev', severity: 'error', examples: ['error: relation "users" does not exist'], counterExamples: ['error: column "email" does not exist'] },
+  { pattern: /duplicate key value violates unique constraint/i, title: 'PostgreSQL: Duplicate Key', category: 'Database', explanation: "You're trying to insert a row with a duplicate unique key.", fix: "Use ON CONFLICT DO UPDATE or check for existing records first.", severity: 'error', examples: ['error: duplicate key value violates unique constraint "users_email_key"'], counterExamples: ['error: null value in column "email" violates not-null constraint'] },
+  { pattern: /ECONNREFUSED.*5432/i, title: 'PostgreSQL: Connection Refused', category: 'Database', explanation: "Can't connect to PostgreSQL on port 5432.", fix: "Make sure PostgreSQL is running.", autoFixCmd: 'brew services start postgresql', autoFixCmdByPlatform: { linux: 'sudo systemctl start postgresql', win32: 'net start postgresql' }, severity: 'error', examples: ['Error: connect ECONNREFUSED 127.0.0.1:5432'], counterExamples: ['Error: connect ECONNREFUSED 127.0.0.1:3306'] },
+  { pattern: /ECONNREFUSED.*27017/i, title: 'MongoDB: Connection Refused', category: 'Database', explanation: "Can't connect to MongoDB on port 27017.", fix: "Make sure MongoDB is running.", autoFixCmd: 'brew services start mongodb-community', autoFixCmdByPlatform: { linux: 'sudo systemctl start mongod', win32: 'net start MongoDB' }, severity: 'error', examples: ['MongoServerSelectionError: connect ECONNREFUSED 127.0.0.1:27017'], counterExamples: ['MongoServerSelectionError: getaddrinfo ENOTFOUND mongo'] },
+  { pattern: /ECONNREFUSED.*6379/i, title: 'Redis: Connection Refused', category: 'Database', explanation: "Can't connect to Redis on port 6379.", fix: "Make sure Redis is running.", autoFixCmd: 'brew services start redis', autoFixCmdByPlatform: { linux: 'sudo systemctl start redis-server', win32: null }, severity: 'error', examples: ['Error: connect ECONNREFUSED 127.0.0.1:6379'], counterExamples: ['Error: connect ECONNREFUSED 127.0.0.1:6380'] },
+  { pattern: /MongoServerError: E11000 duplicate key/i, title: 'MongoDB: Duplicate Key', category: 'Database', explanation: "A document with that unique key already exists.", fix: "Check for existing documents or use upsert.", severity: 'error', examples: ['MongoServerError: E11000 duplicate key error collection: app.users index: email_1 dup key: { email: "a@b.c" }'], counterExamples: ['MongoServerError: Authentication failed.'] },
+  { pattern: /Prisma.*error/i, title: 'Prisma Error', category: 'Database', explanation: "Prisma ORM encountered an error.", fix: "Run prisma generate if schema changed. Check your database connection.", autoFixCmd: 'npx prisma generate', severity: 'error', examples: ['Prisma schema validation error: Argument "url" is missing.'], counterExamples: ['Prisma schema loaded from prisma/schema.prisma'] },
+  { pattern: /PrismaClientKnownRequestError/i, title: 'Prisma: Known Request Error', category: 'Database', explanation: "A known Prisma error occurred. Check the error code for details.", fix: "Look up the Prisma error code at prisma.io/docs/reference/api-reference/error-reference.", severity: 'error', examples: ['PrismaClientKnownRequestError: Invalid `prisma.user.create()` invocation: Unique constraint failed on the fields: (`email`)'], counterExamples: ['PrismaClientInitializationError: Can\'t reach database server at `db:5432`'] },
+
+  // ─── Docker Errors ───
+  { pattern: /docker.*Cannot connect to the Docker daemon/i, title: 'Docker: Daemon Not Running', category: 'Docker', explanation: "Docker isn't running on your machine.", fix: "Start Docker Desktop or the Docker daemon.", steps: [{ text: 'Start Docker Desktop, or the service on Linux.', code: 'sudo systemctl start docker', lang: 'sh' }, { text: 'If it is running, check that your user can reach the socket (the docker group on Linux) and that DOCKER_HOST or the docker context points at it.', code: 'docker context ls', lang: 'sh' }], autoFixCmd: 'open -a Docker', autoFixCmdByPlatform: { linux: 'sudo systemctl start docker', win32: null }, severity: 'error', examples: ['docker: Cannot connect to the Docker daemon at unix:///var/run/docker.sock. Is the docker daemon running?'], counterExamples: ['docker: permission denied while trying to connect to the Docker daemon socket'] },
+  { pattern: /docker.*no space left on device/i, title: 'Docker: No Space Left', category: 'Docker', explanation: "Docker has run out of disk space.", fix: "Prune unused images and containers.", autoFixCmd: 'docker system prune -a', severity: 'error', examples: ['docker: write /var/lib/docker/tmp/GetImageBlob: no space left on device.'], counterExamples: ['docker: image is up to date for node:20'] },
+  { pattern: /docker.*port is already allocated/i, title: 'Docker: Port Allocated', category: 'Docker', explanation: "The port is already mapped to another container or process.", fix: "Stop the conflicting container or use a different port mapping.", severity: 'error', examples: ['docker: Error response from daemon: Bind for 0.0.0.0:5432 failed: port is already allocated.'], counterExamples: ['docker: Error response from daemon: Conflict. The container name "/db" is already in use.'] },
+  { pattern: /docker.*image.*not found/i, title: 'Docker: Image Not Found', category: 'Docker', explanation: "The Docker image doesn't exist locally or in the registry.", fix: "Pull the image first or check the image name.", severity: 'error', examples: ['docker: Error response from daemon: pull access denied, image acme/api:latest not found'], counterExamples: ['docker: Error response from daemon: No such container: web'] },
+
+  // ─── Git Errors ───
+  { pattern: /fatal: not a git repository/i, title: 'Git: Not a Repository', category: 'Git', explanation: "You're not in a git repository.", fix: "Initialize one or navigate to the right directory.", autoFixCmd: 'git init', severity: 'error', examples: ['fatal: not a git repository (or any of the parent directories): .git'], counterExamples: ['fatal: not a valid object name: \'main\''] },
+  { pattern: /fatal: remote origin already exists/i, title: 'Git: Remote Exists', category: 'Git', explanation: "The remote 'origin' is already configured.", fix: "Remove and re-add it, or use set-url.", autoFixCmd: 'git remote set-url origin <new-url>', severity: 'error', examples: ['fatal: remote origin already exists.'], counterExamples: ['fatal: No such remote \'origin\''] },
+  { pattern: /error: failed to push some refs/i, title: 'Git: Push Rejected', category: 'Git', explanation: "The remote has commits you don't have locally.", fix: "Pull first, resolve any conflicts, then push.", steps: [{ text: 'Bring in the remote commits.', code: 'git pull --rebase', lang: 'sh' }, { text: 'Resolve any conflicts, then continue the rebase.', code: 'git add <file>\ngit rebase --continue', lang: 'sh' }, { text: 'Push again.', code: 'git push', lang: 'sh' }], autoFixCmd: 'git pull --rebase && git push', severity: 'error', examples: ['error: failed to push some refs to \'github.com:acme/web.git\''], counterExamples: ['error: src refspec main does not match any'] },
+  { pattern: /CONFLICT.*Merge conflict in/i, title: 'Git: Merge Conflict', category: 'Git', explanation: "There are conflicting changes that git can't auto-merge.", fix: "Open the conflicted files, resolve the conflict markers, then git add and commit.", steps: [{ text: 'List the conflicted files.', code: 'git status', lang: 'sh' }, { text: 'Edit each one to keep the right code and remove the <<<<<<<, ======= and >>>>>>> markers.' }, { text: 'Mark them resolved and finish the merge.', code: 'git add <file>\ngit commit', lang: 'sh' }], severity: 'error', examples: ['CONFLICT (content): Merge conflict in src/index.ts'], counterExamples: ['Auto-merging src/index.ts'] },
+  { pattern: /fatal: Authentication failed/i, title: 'Git: Auth Failed', category: 'Git', explanation: "Your git credentials are wrong or expired.", fix: "Update your credentials or set up SSH keys.", severity: 'error', examples: ['fatal: Authentication failed for \'https://github.com/acme/web.git/\''], counterExamples: ['fatal: repository \'https://github.com/acme/missing.git/\' not found'] },
+
+  // ─── Environment & Config Errors ───
+  { pattern: /Error: Missing required environment variable/i, title: 'Missing Env Variable', category: 'Config', explanation: "A required environment variable isn't set.", fix: "Check your .env file and make sure all required vars are defined.", severity: 'error', examples: ['Error: Missing required environment variable: DATABASE_URL'], counterExamples: ['Warning: environment variable NODE_ENV is not set'] },
+  { pattern: /blocked by CORS policy|CORS.*blocked/i, title: 'CORS Blocked', category: 'HTTP', explanation: "Cross-Origin Resource Sharing policy is blocking your request.", fix: "Configure CORS on the server to allow your origin.", steps: [{ text: "Allow the page's origin on the server, for example with the cors middleware in Express.", code: "app.use(cors({ origin: 'https://app.example.com', credentials: true }));", lang: 'js' }, { text: 'Make sure OPTIONS preflight requests reach that middleware and get a 2xx response.' }, { text: 'In development, a dev-server proxy avoids cross-origin requests altogether.' }], docs: [{ title: 'MDN: CORS', url: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/CORS' }], severity: 'error', examples: ['Access to fetch at \'https://api.acme.dev/users\' from origin \'http://localhost:3000\' has been blocked by CORS policy', 'Cross-Origin Request Blocked: CORS request blocked by the browser'], counterExamples: ['CORS preflight request succeeded'] },
+  { pattern: /Access-Control-Allow-Origin/i, title: 'CORS Header Missing', category: 'HTTP', explanation: "The server's response doesn't include the CORS header.", fix: "Add the Access-Control-Allow-Origin header to the server response.", severity: 'error', examples: ['No \'Access-Control-Allow-Origin\' header is present on the requested resource.'], counterExamples: ['No \'Access-Control-Max-Age\' header was returned'] },
+  { pattern: /Error: self signed certificate/i, title: 'TLS: Self-Signed Certificate', category: 'Network', explanation: "The server's using a self-signed certificate that Node doesn't trust.", fix: "In dev, you can set NODE_TLS_REJECT_UNAUTHORIZED=0. In prod, use a real certificate.", steps: [{ text: 'Trust the certificate instead of turning verification off.', code: 'NODE_EXTRA_CA_CERTS=/path/to/ca.pem node app.js', lang: 'sh' }, { text: 'Behind a corporate proxy, export its root certificate and use that file.' }], docs: [{ title: 'Node.js: NODE_EXTRA_CA_CERTS', url: 'https://nodejs.org/api/cli.html#node_extra_ca_certsfile' }], severity: 'error', examples: ['Error: self signed certificate in certificate chain'], counterExamples: ['Error: unable to verify the first certificate'] },
+  { pattern: /CERT_HAS_EXPIRED/i, title: 'TLS: Certificate Expired', category: 'Network', explanation: "The server's SSL certificate has expired.", fix: "Renew the SSL certificate on the server.", severity: 'error', examples: ['code: \'CERT_HAS_EXPIRED\''], counterExamples: ['code: \'CERT_NOT_YET_VALID\''] },
+
+  // ─── JSON/Parsing Errors ───
+  { pattern: /SyntaxError: Unexpected token.*in JSON at position/i, title: 'Invalid JSON', category: 'Parsing', explanation: "The JSON string has invalid syntax.", fix: "Validate your JSON. The position tells you where the error is.", severity: 'error', examples: ['SyntaxError: Unexpected token } in JSON at position 42'], counterExamples: ['SyntaxError: Unexpected token } in expression'] },
+  { pattern: /SyntaxError:.*JSON.*position (\d+)/i, title: 'JSON Parse Error', category: 'Parsing', explanation: "JSON parsing failed at a specific position.", fix: "Check the JSON at the given position for missing quotes, commas, or brackets.", severity: 'error', examples: ['SyntaxError: Expected \',\' or \'}\' after property value in JSON at position 15'], counterExamples: ['SyntaxError: Expected \',\' or \'}\' after property value'] },
+  { pattern: /SyntaxError: Unexpected token '<'/i, title: 'HTML Instead of JSON', category: 'Parsing', explanation: "You got HTML back when you expected JSON. Usually a 404 page or error page.", fix: "Check the URL. The server might be returning an HTML error page.", severity: 'error', examples: ['SyntaxError: Unexpected token \'<\', "<!DOCTYPE "... is not valid JSON'], counterExamples: ['SyntaxError: Unexpected token \'export\''] },
+
+  // ─── Memory & Performance ───
+  { pattern: /JavaScript heap out of memory/i, title: 'JavaScript Heap OOM', category: 'Memory', explanation: "Node ran out of heap memory.", fix: "Increase the heap size or find memory leaks.", steps: [{ text: 'Raise the heap limit for the command that crashed.', code: 'NODE_OPTIONS="--max-old-space-size=4096" npm run build', lang: 'sh' }, { text: 'For builds, turn off source maps or type checking in the bundler to cut memory, or split the build.' }], docs: [{ title: 'Node.js: --max-old-space-size', url: 'https://nodejs.org/api/cli.html#--max-old-space-sizesize-in-mib' }], autoFixCmd: 'NODE_OPTIONS="--max-old-space-size=4096" npm run build', severity: 'error', examples: ['<--- JS stacktrace ---> JavaScript heap out of memory'], counterExamples: ['JavaScript heap size: 2048 MB'] },
+  { pattern: /Killed.*signal 9/i, title: 'Process Killed (OOM)', category: 'Memory', explanation: "The OS killed your process, probably because it used too much memory.", fix: "Optimize memory usage or increase available RAM.", severity: 'error', examples: ['Killed: process terminated with signal 9'], counterExamples: ['Process exited with signal 15'] },
+  { pattern: /SIGTERM/i, title: 'Process Terminated (SIGTERM)', category: 'Process', explanation: "The process received a termination signal.", fix: "Handle SIGTERM gracefully in your app for clean shutdowns.", severity: 'warning', examples: ['npm ERR! signal SIGTERM'], counterExamples: ['npm ERR! signal SIGHUP'] },
+  { pattern: /SIGKILL/i, title: 'Process Killed (SIGKILL)', category: 'Process', explanation: "The process was forcefully killed.", fix: "Check if something is killing your process (OOM killer, orchestrator, etc.).", severity: 'error', examples: ['Error: Command failed: signal SIGKILL'], counterExamples: ['Error: Command failed: signal SIGINT'] },
+
+  // ─── Async/Promise Errors ───
+  { pattern: /Error: Callback was already called/i, title: 'Callback Called Twice', category: 'Async', explanation: "A callback function was invoked more than once.", fix: "Add a guard to prevent double invocation. Return after calling the callback.", severity: 'error', examples: ['Error: Callback was already called.'], counterExamples: ['Error: Callback must be a function'] },
+  { pattern: /TimeoutError/i, title: 'Operation Timed Out', category: 'Async', explanation: "An async operation took too long.", fix: "Increase the timeout or optimize the operation.", severity: 'error', examples: ['TimeoutError: Navigation timeout of 30000 ms exceeded'], counterExamples: ['Error: Request timed out'] },
+  { pattern: /AbortError/i, title: 'Operation Aborted', category: 'Async', explanation: "The operation was explicitly aborted via AbortController.", fix: "Check your AbortController usage and timeout settings.", severity: 'error', examples: ['AbortError: This operation was aborted'], counterExamples: ['Error: The operation was canceled'] },
+
+  // ─── ESLint/Prettier Errors ───
+  { pattern: /Parsing error: .*\bexpected/i, title: 'ESLint: Parse Error', category: 'Linting', explanation: "ESLint can't parse your code. Usually a config issue.", fix: "Check your ESLint config parser settings. Make sure they match your code (TS vs JS).", severity: 'error', examples: ['  18:1  error  Parsing error: \'}\' expected'], counterExamples: ['  18:1  error  Parsing error: Unexpected token <'] },
+  { pattern: /eslint.*no-unused-vars/i, title: 'ESLint: Unused Variable', category: 'Linting', explanation: "You declared something but never used it.", fix: "Remove the unused variable or prefix with _.", severity: 'warning', examples: ['eslint: 3:10  error  \'padStart\' is defined but never used  @typescript-eslint/no-unused-vars'], counterExamples: ['eslint: 3:10  error  Unexpected console statement  no-console'] },
+  { pattern: /prettier.*error/i, title: 'Prettier: Format Error', category: 'Linting', explanation: "Prettier found formatting issues.", fix: "Run prettier to auto-format.", autoFixCmd: 'npx prettier --write .', severity: 'warning', examples: ['prettier --check failed with 1 error in src/index.ts'], counterExamples: ['[warn] prettier: Code style issues found in the above file.'] },
+
+  // ─── AWS/Cloud Errors ───
+  { pattern: /AccessDenied.*S3/i, title: 'AWS S3: Access Denied', category: 'Cloud', explanation: "Your AWS credentials don't have permission for this S3 operation.", fix: "Check your IAM policy and bucket permissions.", severity: 'error', examples: ['AccessDenied: Access Denied (Service: S3, Status Code: 403)'], counterExamples: ['AccessDenied: User is not authorized to perform: dynamodb:PutItem'] },
+  { pattern: /NoSuchBucket/i, title: 'AWS S3: Bucket Not Found', category: 'Cloud', explanation: "The S3 bucket doesn't exist.", fix: "Check the bucket name for typos. Create the bucket if needed.", severity: 'error', examples: ['NoSuchBucket: The specified bucket does not exist'], counterExamples: ['NoSuchKey: The specified key does not exist.'] },
+  { pattern: /ExpiredToken/i, title: 'AWS: Token Expired', category: 'Cloud', explanation: "Your AWS session token has expired.", fix: "Refresh your AWS credentials.", autoFixCmd: 'aws sso login', severity: 'error', examples: ['ExpiredToken: The security token included in the request is expired'], counterExamples: ['InvalidToken: The provided token is malformed'] },
+  { pattern: /InvalidSignatureException/i, title: 'AWS: Invalid Signature', category: 'Cloud', explanation: "The request signature doesn't match. Usually a credentials issue.", fix: "Check your AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY.", severity: 'error', examples: ['InvalidSignatureException: Signature expired: 20240502T101500Z is now earlier than 20240502T102000Z'], counterExamples: ['SignatureDoesNotMatch: The request signature we calculated does not match'] },
+
+  // ─── Testing Errors ───
+  { pattern: /Jest.*Cannot find module/i, title: 'Jest: Module Not Found', category: 'Testing', explanation: "Jest can't resolve an import in your test.", fix: "Check moduleNameMapper in jest.config. Make sure tsconfig paths are mapped.", severity: 'error', examples: ['Jest encountered an unexpected token. Cannot find module \'msw/node\' from \'src/api/client.test.ts\''], counterExamples: ['Jest did not exit one second after the test run has completed.'] },
+  { pattern: /expect\(received\)\.toBe\(expected\)/i, title: 'Jest: Assertion Failed', category: 'Testing', explanation: "The test assertion didn't match.", fix: "Check the expected vs received values in the test output.", severity: 'error', examples: ['expect(received).toBe(expected) // Object.is equality'], counterExamples: ['expect(received).toEqual(expected) // deep equality'] },
+  { pattern: /Timeout.*exceeded.*async/i, title: 'Test: Async Timeout', category: 'Testing', explanation: "An async test took too long to complete.", fix: "Increase the test timeout or check for hanging promises.", severity: 'error', examples: ['Error: Timeout of 2000ms exceeded. For async tests and hooks, ensure "done()" is called'], counterExamples: ['Timeout: 5000 ms'] },
+
+  // ─── Vercel/Deployment Errors ───
+  { pattern: /Error: FUNCTION_INVOCATION_TIMEOUT/i, title: 'Vercel: Function Timeout', category: 'Deployment', explanation: "Your serverless function took too long.", fix: "Optimize the function or increase the timeout in vercel.json.", severity: 'error', examples: ['Error: FUNCTION_INVOCATION_TIMEOUT'], counterExamples: ['Error: FUNCTION_PAYLOAD_TOO_LARGE'] },
+  { pattern: /FUNCTION_INVOCATION_FAILED/i, title: 'Vercel: Function Failed', category: 'Deployment', explanation: "The serverless function crashed.", fix: "Check your function logs in the Vercel dashboard.", severity: 'error', examples: ['500: INTERNAL_SERVER_ERROR Code: FUNCTION_INVOCATION_FAILED'], counterExamples: ['504: GATEWAY_TIMEOUT Code: FUNCTION_INVOCATION_TIMEOUT'] },
+  { pattern: /Error during SSR/i, title: 'SSR Error', category: 'Deployment', explanation: "Something crashed during server-side rendering.", fix: "Check for browser-only APIs (window, document) being called on the server.", severity: 'error', examples: ['Error during SSR render of /blog: window.matchMedia is not available'], counterExamples: ['Error during hydration'] },
+
+  // ─── Crypto/Security Errors ───
+  { pattern: /Error: error:.*EVP_DecryptFinal/i, title: 'Crypto: Decryption Failed', category: 'Crypto', explanation: "Decryption failed. Wrong key, corrupted data, or wrong algorithm.", fix: "Check that you're using the correct key and IV for decryption.", severity: 'error', examples: ['Error: error:1C800064:Provider routines::bad decrypt EVP_DecryptFinal_ex'], counterExamples: ['Error: error:1E08010C:DECODER routines::unsupported'] },
+  { pattern: /Error: error:.*digital envelope routines/i, title: 'Crypto: OpenSSL Error', category: 'Crypto', explanation: "OpenSSL operation failed. Common with Node 17+ and legacy packages.", fix: "Set NODE_OPTIONS=--openssl-legacy-provider or upgrade the package.", autoFixCmd: 'NODE_OPTIONS=--openssl-legacy-provider npm run build', alternatives: [{ when: { nodeMajor: { max: 16 } }, fix: "This comes from Node 17 or newer, but this shell runs Node 16 or older: check which Node the failing command uses (nvm, .nvmrc, the CI image). Node 16 rejects --openssl-legacy-provider.", autoFixCmd: null }], severity: 'error', examples: ['Error: error:0308010C:digital envelope routines::unsupported'], counterExamples: ['Error: error:1E08010C:DECODER routines::unsupported'] },
+
+  // ─── Package Manager Errors ───
+  { pattern: /yarn.*Couldn't find package/i, title: 'Yarn: Package Not Found', category: 'Yarn', explanation: "Yarn can't find the package in the registry.", fix: "Check the package name for typos.", severity: 'error', examples: ['yarn install v1.22.19 error Couldn\'t find package "left-pad-2" on the "npm" registry.'], counterExamples: ['yarn install v1.22.19 success Already up-to-date.'] },
+  { pattern: /pnpm.*ERR_PNPM_PEER_DEP_ISSUES/i, title: 'pnpm: Peer Dep Issues', category: 'pnpm', explanation: "pnpm found peer dependency conflicts.", fix: "Install missing peer deps or add to peerDependencyRules in .npmrc.", severity: 'error', examples: ['pnpm: ERR_PNPM_PEER_DEP_ISSUES  Unmet peer dependencies'], counterExamples: ['pnpm: ERR_PNPM_OUTDATED_LOCKFILE  Cannot install with "frozen-lockfile"'] },
+
+  // ─── Process & System Errors ───
+  { pattern: /Error: spawn .* ENOENT/i, title: 'Spawn: Command Not Found', category: 'Process', explanation: "The command you're trying to spawn doesn't exist.", fix: "Check that the binary is installed and in your PATH.", severity: 'error', examples: ['Error: spawn python3 ENOENT'], counterExamples: ['Error: spawnSync /bin/sh ETIMEDOUT'] },
+  { pattern: /Error: spawn .* EPERM/i, title: 'Spawn: Permission Denied', category: 'Process', explanation: "You don't have permission to execute this command.", fix: "Check file permissions on the binary.", severity: 'error', examples: ['Error: spawn C:\\tools\\esbuild.exe EPERM'], counterExamples: ['Error: spawn python3 ENOENT'] },
+  { pattern: /ENAMETOOLONG/i, title: 'Path Too Long', category: 'System', explanation: "A file path exceeds the OS limit.", fix: "Shorten your directory structure or file names.", severity: 'error', examples: ['Error: ENAMETOOLONG: name too long, open \'/tmp/cache/aaaa\''], counterExamples: ['Error: ENOTDIR: not a directory'] },
+
+  // ─── Miscellaneous Common Errors ───
+  { pattern: /Error: EPIPE/i, title: 'Broken Pipe', category: 'IO', explanation: "You're writing to a pipe/socket that's been closed.", fix: "Check if the receiving process is still running.", severity: 'error', examples: ['Error: EPIPE: broken pipe, write'], counterExamples: ['Error: EOF: unexpected end of file'] },
+  { pattern: /Error: socket hang up/i, title: 'Socket Hang Up', category: 'Network', explanation: "The server closed the connection unexpectedly.", fix: "The server might have crashed or timed out. Add retry logic.", severity: 'error', examples: ['Error: socket hang up'], counterExamples: ['Error: socket timeout'] },
+  { pattern: /fetch failed/i, title: 'Fetch Failed', category: 'Network', explanation: "A network request using fetch() failed.", fix: "Check the URL and network connectivity. The server might be down.", severity: 'error', examples: ['TypeError: fetch failed'], counterExamples: ['TypeError: Failed to fetch'] },
+  { pattern: /ERR_OSSL_EVP_UNSUPPORTED/i, title: 'OpenSSL Unsupported', category: 'Crypto', explanation: "Node 17+ changed OpenSSL defaults. Some older packages break.", fix: "Use the legacy provider flag.", autoFixCmd: 'export NODE_OPTIONS=--openssl-legacy-provider', alternatives: [{ when: { nodeMajor: { max: 16 } }, fix: "This comes from Node 17 or newer, but this shell runs Node 16 or older: check which Node the failing command uses (nvm, .nvmrc, the CI image). Node 16 rejects --openssl-legacy-provider.", autoFixCmd: null }], severity: 'error', examples: ['  code: \'ERR_OSSL_EVP_UNSUPPORTED\''], counterExamples: ['  code: \'ERR_OSSL_BAD_DECRYPT\''] },
+  { pattern: /Error: EISDIR/i, title: 'Is a Directory', category: 'FS', explanation: "You're trying to do a file operation on a directory.", fix: "Check your path. You might be reading a directory instead of a file.", severity: 'error', examples: ['Error: EISDIR: illegal operation on a directory, read'], counterExamples: ['Error: ENOTDIR: not a directory, scandir \'/app/index.js\''] },
+  { pattern: /Error: ENOTEMPTY/i, title: 'Directory Not Empty', category: 'FS', explanation: "You're trying to remove a directory that still has files in it.", fix: "Use rm -rf or fs.rmSync with { recursive: true }.", severity: 'error', examples: ['Error: ENOTEMPTY: directory not empty, rmdir \'/app/dist\''], counterExamples: ['Error: ENOTDIR: not a directory, rmdir \'/app/dist\''] },
+  { pattern: /Error: EEXIST/i, title: 'File Already Exists', category: 'FS', explanation: "The file or directory already exists.", fix: "Check if the file exists before creating it, or use the overwrite flag.", severity: 'error', examples: ['Error: EEXIST: file already exists, mkdir \'/app/dist\''], counterExamples: ['Error: EXDEV: cross-device link not permitted, rename \'/tmp/a\' -> \'/app/a\''] },
+  { pattern: /ERR_STREAM_WRITE_AFTER_END/i, title: 'Stream: Write After End', category: 'Stream', explanation: "You're writing to a stream that's already been ended.", fix: "Don't call write() after calling end() on the stream.", severity: 'error', examples: ['Error [ERR_STREAM_WRITE_AFTER_END]: write after end'], counterExamples: ['Error [ERR_STREAM_DESTROYED]: Cannot call write after a stream was destroyed'] },
+  { pattern: /ERR_STREAM_PREMATURE_CLOSE/i, title: 'Stream: Premature Close', category: 'Stream', explanation: "A stream was closed before it finished.", fix: "Handle the 'error' event on the stream.", severity: 'error', examples: ['Error [ERR_STREAM_PREMATURE_CLOSE]: Premature close'], counterExamples: ['Error [ERR_STREAM_ALREADY_FINISHED]: Cannot call end after a stream was finished'] },
+
+  // ─── Catch-all patterns ───
+  { pattern: /segmentation fault/i, title: 'Segmentation Fault', category: 'System', explanation: "A native module crashed with a memory access violation.", fix: "Update native dependencies. Rebuild with npm rebuild.", autoFixCmd: 'npm rebuild', severity: 'error', examples: ['Segmentation fault (core dumped)'], counterExamples: ['Bus error (core dumped)'] },
+  { pattern: /Error: ENOSPC/i, title: 'No Space Left on Device', category: 'System', explanation: "Your disk is full.", fix: "Free up disk space. Clear caches, tmp files, or old builds.", severity: 'error', examples: ['Error: ENOSPC: System limit for number of file watchers reached, watch \'/app/src\''], counterExamples: ['Error: ENOSYS: function not implemented, watch'] },
+  { pattern: /ERR_BUFFER_OUT_OF_RANGE/i, title: 'Buffer Out of Range', category: 'Node.js', explanation: "A buffer operation tried to read or write outside its bounds.", fix: "Check your buffer size and offset calculations.", severity: 'error', examples: ['RangeError [ERR_BUFFER_OUT_OF_RANGE]: Attempt to access memory outside buffer bounds'], counterExamples: ['RangeError [ERR_OUT_OF_RANGE]: The value of "offset" is out of range.'] },
+  { pattern: /Warning: Accessing non-existent property/i, title: 'Non-existent Property Access', category: 'Node.js', explanation: "You're accessing a property that doesn't exist on a module.", fix: "Check the module's exports. The API might have changed.", severity: 'warning', examples: ['Warning: Accessing non-existent property \'padLevels\' of module exports inside circular dependency'], counterExamples: ['Warning: Accessing PropTypes via the main React package is deprecated'] },
+  { pattern: /DeprecationWarning/i, title: 'Deprecation Warning', category: 'Node.js', explanation: "You're using a deprecated API that may be removed in the future.", fix: "Check the warning message for the recommended replacement.", severity: 'warning', examples: ['(node:48213) [DEP0040] DeprecationWarning: The `punycode` module is deprecated.'], counterExamples: ['(node:48213) [DEP0040] Warning: The `punycode` module is removed.'] },
+  { pattern: /ExperimentalWarning/i, title: 'Experimental Warning', category: 'Node.js', explanation: "You're using an experimental feature that may change.", fix: "This is just a heads-up. The API might change in future Node versions.", severity: 'info', examples: ['(node:48213) ExperimentalWarning: The Fetch API is an experimental feature.'], counterExamples: ['(node:48213) Warning: The Fetch API is a stable feature.'] },
+];
+
+export const ERROR_DB: ErrorEntry[] = [...CORE_ENTRIES, ...LANGUAGE_PACKS.flatMap(p => p.entries)];
@@ -0,0 +1,224 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { type ProjectFacts } from './probe.js';
+
+// ── Doctor ──
+//
+// Checks the probed project for misconfigurations that are known to end in
+// one of the database's errors, before anything has failed: a Node version
+// outside `engines`, lockfiles from two package managers, tsconfig module
+// settings TypeScript rejects, and so on.
+
+export interface DoctorFinding {
+  /** Stable id, e.g. `engines-node`. */
+  id: string;
+  severity: 'error' | 'warning' | 'info';
+  title: string;
+  detail: string;
+  fix: string;
+}
+
+type Version = [number, number, number];
+
+function parseVersion(text: string): { version: Version; parts: number } | null {
+  const m = text.trim().replace(/^v/, '').match(/^(\d+)(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:[-+].*)?$/);
+  if (!m) return null;
+  const nums = [m[1], m[2], m[3]].map(p => (p === undefined || /[xX*]/.test(p) ? null : parseInt(p)));
+  const parts = nums.findIndex(n => n === null);
+  return { version: nums.map(n => n ?? 0) as Version, parts: parts === -1 ? 3 : parts };
+}
+
+function compare(a: Version, b: Version): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+/** The version just past a partial one: `1.2` -> 1.3.0, `1` -> 2.0.0. */
+function bump(v: Version, parts: number): Version {
+  if (parts <= 1) return [v[0] + 1, 0, 0];
+  if (parts === 2) return [v[0], v[1] + 1, 0];
+  return [v[0], v[1], v[2] + 1];
+}
+
+function satisfiesComparator(v: Version, comparator: string): boolean | null {
+  if (comparator === '*' || comparator === '' || /^[xX]$/.test(comparator)) return true;
+  const m = comparator.match(/^(\^|~|>=|<=|>|<|=)?\s*(.+)$/);
+  const parsed = m && parseVersion(m[2]);
+  if (!m || !parsed) return null;
+  const { version: base, parts } = parsed;
+  switch (m[1]) {
+    case '>=': return compare(v, base) >= 0;
+    case '>': return compare(v, parts < 3 ? bump(base, parts) : base) >= (parts < 3 ? 0 : 1);
+    case '<=': return compare(v, parts < 3 ? bump(base, parts) : base) < (parts < 3 ? 0 : 1);
+    case '<': return compare(v, base) < 0;
+    case '^': return compare(v, base) >= 0 && compare(v, bump(base, base[0] > 0 || parts === 1 ? 1 : base[1] > 0 || parts === 2 ? 2 : 3)) < 0;
+    case '~': return compare(v, base) >= 0 && compare(v, bump(base, Math.min(parts, 2))) < 0;
+    default: return compare(v, base) >= 0 && compare(v, bump(base, parts)) < 0;
+  }
+}
+
+/**
+ * Whether `version` satisfies a semver range as used in `engines`
+ * (`>=18`, `^20.11 || >=22`, `18.x`, `>=18 <21`, `18 - 20`). Null when the
+ * range can't be read.
+ */
+export function satisfiesRange(version: string, range: string): boolean | null {
+  const v = parseVersion(version);
+  if (!v) return null;
+  let unreadable = false;
+  const any = range.split('||').some(set => {
+    const hyphen = set.trim().match(/^(\S+)\s+-\s+(\S+)$/);
+    const comparators = hyphen ? [`>=${hyphen[1]}`, `<=${hyphen[2]}`] : set.trim().replace(/(\^|~|>=|<=|>|<|=)\s+/g, '$1').split(/\s+/);
+    return comparators.every(comp => {
+      const ok = satisfiesComparator(v.version, comp);
+      if (ok === null) unreadable = true;
+      return ok === true;
+    });
+  });
+  return any ? true : unreadable ? null : false;
+}
+
+const LOCKFILE_MANAGER: Record<string, string> = {
+  'package-lock.json': 'npm',
+  'npm-shrinkwrap.json': 'npm',
+  'pnpm-lock.yaml': 'pnpm',
+  'yarn.lock': 'yarn',
+  'bun.lock': 'bun',
+  'bun.lockb': 'bun',
+};
+
+function lower(value: unknown): string | null {
+  return typeof value === 'string' ? value.toLowerCase() : null;
+}
+
+/** Every known misconfiguration in the probed project, errors first. */
+export function runDoctor(facts: ProjectFacts): DoctorFinding[] {
+  const findings: DoctorFinding[] = [];
+  const add = (finding: DoctorFinding): void => {
+    findings.push(finding);
+  };
+  const pkg = facts.packageJson;
+  const rel = (file: string): string => path.relative(facts.root, file) || path.basename(file);
+
+  // ── Node ──
+  if (facts.engines && satisfiesRange(facts.nodeVersion, facts.engines) === false) {
+    add({
+      id: 'engines-node',
+      severity: 'error',
+      title: 'Node version outside engines',
+      detail: `package.json requires node ${facts.engines}, this is Node ${facts.nodeVersion}.`,
+      fix: 'Switch Node versions (nvm use, fnm use, volta) or update "engines" if the project now supports this one.',
+    });
+  }
+  const pinned = facts.pinnedNode && parseVersion(facts.pinnedNode.version);
+  if (facts.pinnedNode && pinned && pinned.version[0] !== facts.nodeMajor) {
+    add({
+      id: 'pinned-node',
+      severity: 'warning',
+      title: 'Node version differs from the pinned one',
+      detail: `${rel(facts.pinnedNode.file)} pins ${facts.pinnedNode.version}, this is Node ${facts.nodeVersion}.`,
+      fix: `Run nvm use (or fnm use) in ${path.dirname(facts.pinnedNode.file)}.`,
+    });
+  }
+  const scripts = (pkg?.scripts ?? {}) as Record<string, unknown>;
+  const legacyScript = Object.entries(scripts).find(([, cmd]) => typeof cmd === 'string' && cmd.includes('--openssl-legacy-provider'));
+  if (legacyScript && facts.nodeMajor < 17) {
+    add({
+      id: 'openssl-legacy-provider',
+      severity: 'error',
+      title: '--openssl-legacy-provider on Node 16 or older',
+      detail: `The "${legacyScript[0]}" script passes --openssl-legacy-provider, which Node ${facts.nodeMajor} rejects.`,
+      fix: 'Run the script with Node 17 or newer, or drop the flag after upgrading the bundler that needed it.',
+    });
+  }
+
+  // ── Package manager ──
+  const managers = [...new Set(facts.lockfiles.map(f => LOCKFILE_MANAGER[path.basename(f)]))];
+  if (managers.length > 1) {
+    add({
+      id: 'multiple-lockfiles',
+      severity: 'warning',
+      title: 'Lockfiles from more than one package manager',
+      detail: `Found ${facts.lockfiles.map(rel).join(', ')}. Each tool ignores the other's lockfile, so installs differ by who runs them.`,
+      fix: `Keep the lockfile of the package manager the project uses and delete the others.`,
+    });
+  }
+  const declared = facts.declaredPackageManager?.split('@')[0];
+  if (declared && managers.length && !managers.includes(declared)) {
+    add({
+      id: 'package-manager-field',
+      severity: 'error',
+      title: 'packageManager field disagrees with the lockfile',
+      detail: `package.json declares ${facts.declaredPackageManager}, but the lockfile is ${managers.join(' and ')}'s.`,
+      fix: `Install with ${declared} and commit its lockfile, or change "packageManager".`,
+    });
+  }
+  const dependencies = Object.keys({ ...(pkg?.dependencies as object | undefined), ...(pkg?.devDependencies as object | undefined) });
+  if (pkg && dependencies.length && !facts.lockfiles.length) {
+    add({
+      id: 'missing-lockfile',
+      severity: 'warning',
+      title: 'No lockfile',
+      detail: `package.json has ${dependencies.length} dependencies but no lockfile was found, so every install can resolve different versions.`,
+      fix: 'Run an install and commit the lockfile it writes.',
+    });
+  }
+  const installRoot = facts.lockfiles.length ? path.dirname(facts.lockfiles[0]) : facts.root;
+  if (pkg && dependencies.length && !fs.existsSync(path.join(facts.root, 'node_modules')) && !fs.existsSync(path.join(installRoot, 'node_modules'))
+    && !fs.existsSync(path.join(installRoot, '.pnp.cjs'))) {
+    add({
+      id: 'not-installed',
+      severity: 'warning',
+      title: 'Dependencies not installed',
+      detail: 'There is no node_modules directory, so every import of a dependency fails with "Cannot find module".',
+      fix: `Run ${facts.packageManager ?? 'npm'} install.`,
+    });
+  }
+
+  // ── TypeScript ──
+  const ts = facts.tsconfig;
+  if (ts) {
+    const options = ts.compilerOptions;
+    const module = lower(options.module);
+    const resolution = lower(options.moduleResolution);
+    const file = rel(ts.file);
+    if ((module === 'node16' || module === 'nodenext') && resolution && resolution !== module && !(resolution === 'node16' || resolution === 'nodenext')) {
+      add({
+        id: 'ts-module-resolution',
+        severity: 'error',
+        title: 'moduleResolution must match module',
+        detail: `${file} sets module ${options.module} with moduleResolution ${options.moduleResolution}; TypeScript rejects this (TS5110).`,
+        fix: `Set "moduleResolution": "${options.module}" or remove it.`,
+      });
+    }
+    if (resolution === 'bundler' && module && ['commonjs', 'amd', 'umd', 'system', 'none', 'node16', 'nodenext'].includes(module)) {
+      add({
+        id: 'ts-bundler-resolution',
+        severity: 'error',
+        title: 'moduleResolution "bundler" with a non-ES module',
+        detail: `${file} sets moduleResolution bundler, which needs module es2015 or later, or preserve (TS5095); module is ${options.module}.`,
+        fix: 'Set "module": "esnext" (or "preserve"), or use "moduleResolution": "nodenext" for code Node runs directly.',
+      });
+    }
+    if (facts.packageType === 'module' && module === 'commonjs' && options.noEmit !== true) {
+      add({
+        id: 'ts-commonjs-in-esm-package',
+        severity: 'warning',
+        title: 'CommonJS output in an ESM package',
+        detail: `${file} emits CommonJS, but package.json has "type": "module", so Node loads the .js output as ESM and fails with "require is not defined in ES module scope" or "exports is not defined".`,
+        fix: 'Set "module": "nodenext" in tsconfig.json, or remove "type": "module".',
+      });
+    }
+    if (facts.packageType === 'commonjs' && (module === 'esnext' || /^es20\d\d$/.test(module ?? '')) && options.noEmit !== true && !resolution?.startsWith('bundler')) {
+      add({
+        id: 'ts-esm-in-commonjs-package',
+        severity: 'warning',
+        title: 'ES module output in a CommonJS package',
+        detail: `${file} emits import/export syntax, but package.json has no "type": "module", so Node fails with "Cannot use import statement outside a module".`,
+        fix: 'Add "type": "module" to package.json, or set "module": "nodenext" in tsconfig.json.',
+      });
+    }
+  }
+
+  const order = { error: 0, warning: 1, info: 2 };
+  return findings.sort((a, b) => order[a.severity] - order[b.severity]);
+}
@@ -0,0 +1,63 @@
+import { type ErrorEntry } from './database.js';
+import { diagnoseError, formatDiagnosis, projectDatabase, summarizeDiagnosis, type ErrorDiagnosis } from './runtime.js';
+
+// ── Express Error Middleware ──
+//
+//   app.use(aiErrorMiddleware());
+//
+// Added after the routes, it diagnoses whatever reached the error handlers,
+// logs the diagnosis and stores its summary on `res.locals.aiError`, then
+// passes the error on unchanged. Responding stays with the app's own error
+// handler (or Express's default one). Works with any framework that uses
+// Express's `(err, req, res, next)` signature.
+
+/** The parts of Express's request and response the middleware touches. */
+export interface MiddlewareRequest {
+  method?: string;
+  originalUrl?: string;
+  url?: string;
+}
+
+export interface MiddlewareResponse {
+  locals?: Record<string, unknown>;
+  headersSent?: boolean;
+  setHeader?(name: string, value: string): unknown;
+}
+
+export interface MiddlewareOptions {
+  /** Entries to match against. Defaults to the built-ins plus the project's pattern packs. */
+  db?: readonly ErrorEntry[];
+  /** Write diagnoses with console.error (default true). */
+  log?: boolean;
+  /**
+   * Send the top match's title in an `X-AI-Error` response header. Off by
+   * default: entry titles can say more about the stack than a public API should.
+   */
+  header?: boolean;
+  onDiagnosis?(diagnosis: ErrorDiagnosis, req: MiddlewareRequest): void;
+}
+
+export type ErrorMiddleware = (err: unknown, req: MiddlewareRequest, res: MiddlewareResponse, next: (err?: unknown) => void) => void;
+
+export function aiErrorMiddleware(options: MiddlewareOptions = {}): ErrorMiddleware {
+  const db = options.db ? () => options.db! : projectDatabase();
+
+  return (err, req, res, next) => {
+    try {
+      const diagnosis = diagnoseError(err, { db: db() });
+      options.onDiagnosis?.(diagnosis, req);
+      const summary = summarizeDiagnosis(diagnosis);
+      if (summary) {
+        if (res.locals) res.locals.aiError = summary;
+        if (options.header && !res.headersSent) res.setHeader?.('X-AI-Error', summary.title);
+        if (options.log !== false) {
+          const route = `${req.method ?? ''} ${req.originalUrl ?? req.url ?? ''}`.trim();
+          console.error(route ? `${route}\n${formatDiagnosis(diagnosis)}` : formatDiagnosis(diagnosis));
+        }
+      }
+    } catch {
+      // The app's error handler must still see the original error
+    }
+    next(err);
+  };
+}
@@ -0,0 +1,406 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { analyzeInput, type MatchResult } from './analyze.js';
+import { type CodeFrame } from './codeframe.js';
+import { type DocLink, type ErrorEntry, type FixInstruction } from './database.js';
+import { errorHeadline, fingerprint, learnedPattern, normalizeErrorLine } from './knowledge.js';
+import { PROJECT_CONFIG_FILE, PackError, compilePack, findProjectConfig, readJson } from './packs.js';
+import { REDACTION_RULES, redact, redactValue, type RedactionRule } from './redact.js';
+import { type StackError } from './stack.js';
+
+// ── Fallback Providers ──
+//
+// When nothing in the database matches, or the best match is a guess, a
+// fallback provider is asked instead. It gets the redacted input and parsed
+// stack (plus source code around the failing lines with "sendCode"), and
+// answers with suggestions shaped like pack entries, which are matched and
+// shown like any other entry. Nothing is sent anywhere unless "fallback" is
+// set in .ai-error.json or ~/.ai-error.json:
+//
+//   { "fallback": { "provider": "openai-compatible", "url": "http://localhost:11434/v1", "model": "qwen2.5-coder" } }
+
+export const FALLBACK_CACHE_VERSION = 1;
+/** Prefix of the `source` of fallback entries, followed by the provider name. */
+export const FALLBACK_SOURCE = 'fallback';
+
+const DEFAULT_TIMEOUT_MS = 20_000;
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+const DEFAULT_CACHE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Cached answers kept; the oldest go first. */
+const MAX_CACHE_ENTRIES = 200;
+/** Lines of input sent, from the end. */
+const MAX_REQUEST_LINES = 200;
+const MAX_SUGGESTIONS = 3;
+
+/** What a provider is given. Every string in it has been redacted. */
+export interface FallbackRequest {
+  /** Fingerprint of the headline, as in the knowledge base. */
+  fingerprint: string;
+  /** The line the error is remembered by. */
+  headline: string;
+  input: string;
+  stack: StackError[];
+  context: CodeFrame[];
+  /** What the database found, every match below the confidence threshold. */
+  matches: { title: string; fix: string; confidence: number }[];
+}
+
+/** An answer in the shape of a pack entry, without the pattern. */
+export interface FallbackSuggestion {
+  title: string;
+  category: string;
+  explanation: string;
+  fix: string;
+  /** Commands go in step code; fallback suggestions never get an auto-fix command. */
+  steps?: FixInstruction[];
+  docs?: DocLink[];
+  severity: ErrorEntry['severity'];
+  /** 0-1, defaults to 0.5. */
+  confidence?: number;
+}
+
+export interface FallbackProvider {
+  /** Shown with its suggestions and part of the cache key, e.g. 'openai-compatible:qwen2.5-coder'. */
+  name: string;
+  suggest(request: FallbackRequest, signal: AbortSignal): Promise<FallbackSuggestion[]>;
+}
+
+export interface FallbackConfig {
+  provider: 'openai-compatible' | 'mock';
+  /** Base URL of the API, e.g. http://localhost:11434/v1. */
+  url?: string;
+  model?: string;
+  /** Environment variable holding an API key, if the server wants one. */
+  apiKeyEnv?: string;
+  /** Allow a URL that isn't on this machine. Default false. */
+  allowRemote?: boolean;
+  /** Read source code around the failing lines from disk and send it. Default false. */
+  sendCode: boolean;
+  timeoutMs: number;
+  /** Ask when the best match is below this. */
+  minConfidence: number;
+  /** Days a cached answer is reused; 0 turns the cache off. */
+  cacheDays: number;
+  /** Where the config came from. */
+  origin: string;
+}
+
+export interface FallbackCache {
+  file: string;
+  /** Keyed by `<provider name>:<fingerprint>`. */
+  entries: Record<string, { createdAt: string; suggestions: FallbackSuggestion[] }>;
+}
+
+export interface FallbackOptions {
+  timeoutMs?: number;
+  minConfidence?: number;
+  cache?: FallbackCache | null;
+  cacheDays?: number;
+  rules?: readonly RedactionRule[];
+  now?: Date;
+}
+
+export class FallbackError extends Error {
+  constructor(public provider: string, message: string) {
+    super(`${provider}: ${message}`);
+    this.name = 'FallbackError';
+  }
+}
+
+/** Whether the database's answer is weak enough to ask a provider. */
+export function needsFallback(matches: readonly MatchResult[], minConfidence: number = DEFAULT_MIN_CONFIDENCE): boolean {
+  return matches.length === 0 || matches[0].confidence < minConfidence;
+}
+
+export function isFallbackEntry(entry: ErrorEntry): boolean {
+  return entry.source?.startsWith(`${FALLBACK_SOURCE}:`) ?? false;
+}
+
+/** Check a provider's answer; anything malformed is a FallbackError. */
+export function checkSuggestions(raw: unknown, provider: string): FallbackSuggestion[] {
+  const list = Array.isArray(raw) ? raw : (raw as { suggestions?: unknown } | null)?.suggestions;
+  if (!Array.isArray(list)) throw new FallbackError(provider, 'expected an array of suggestions or { "suggestions": [...] }');
+  return list.slice(0, MAX_SUGGESTIONS).map((s, i) => {
+    const at = `suggestions[${i}]`;
+    if (!s || typeof s !== 'object') throw new FallbackError(provider, `${at} must be an object`);
+    for (const key of ['title', 'category', 'explanation', 'fix'] as const) {
+      if (typeof s[key] !== 'string' || !s[key].trim()) throw new FallbackError(provider, `${at}.${key} must be a non-empty string`);
+    }
+    const steps = s.steps;
+    if (steps !== undefined && (!Array.isArray(steps) || steps.some(st => !st || typeof st.text !== 'string' || (st.code !== undefined && typeof st.code !== 'string')))) {
+      throw new FallbackError(provider, `${at}.steps must be an array of { "text", "code"? } objects`);
+    }
+    const docs = s.docs;
+    if (docs !== undefined && (!Array.isArray(docs) || docs.some(d => !d || typeof d.title !== 'string' || typeof d.url !== 'string'))) {
+      throw new FallbackError(provider, `${at}.docs must be an array of { "title", "url" } objects`);
+    }
+    const confidence = typeof s.confidence === 'number' && Number.isFinite(s.confidence) ? Math.min(1, Math.max(0, s.confidence)) : undefined;
+    return {
+      title: s.title.trim(),
+      category: s.category.trim(),
+      explanation: s.explanation.trim(),
+      fix: s.fix.trim(),
+      ...(steps?.length ? { steps: steps.map((st: FixInstruction) => ({ text: st.text, ...(st.code ? { code: st.code } : {}), ...(typeof st.lang === 'string' ? { lang: st.lang } : {}) })) } : {}),
+      ...(docs?.length ? { docs: docs.map((d: DocLink) => ({ title: d.title, url: d.url })) } : {}),
+      severity: ['error', 'warning', 'info'].includes(s.severity) ? s.severity : 'error',
+      ...(confidence !== undefined ? { confidence } : {}),
+    };
+  });
+}
+
+// ── Providers ──
+
+export interface OpenAICompatibleOptions {
+  /** Base URL, e.g. http://localhost:11434/v1; `/chat/completions` is appended. */
+  url: string;
+  model: string;
+  apiKey?: string;
+}
+
+const SYSTEM_PROMPT = [
+  'You diagnose software errors. The user message is JSON describing one failure: the error headline, the log,',
+  'the parsed stack, source code around the failing lines and any weak matches from a rule database.',
+  'Answer with JSON only: { "suggestions": [ { "title", "category", "explanation", "fix",',
+  '"steps": [ { "text", "code"? } ], "docs": [ { "title", "url" } ], "severity": "error" | "warning" | "info",',
+  '"confidence": 0-1 } ] }, most likely cause first, at most 3. Keep "fix" to one sentence.',
+  'Only link documentation you are sure exists. Return { "suggestions": [] } if you cannot tell.',
+].join(' ');
+
+/** Any server speaking the OpenAI chat completions API: llama.cpp, Ollama, vLLM, LM Studio. */
+export function openAICompatibleProvider(options: OpenAICompatibleOptions): FallbackProvider {
+  const name = `openai-compatible:${options.model}`;
+  return {
+    name,
+    async suggest(request, signal) {
+      let res: Response;
+      try {
+        res = await fetch(`${options.url.replace(/\/+$/, '')}/chat/completions`, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...(options.apiKey ? { authorization: `Bearer ${options.apiKey}` } : {}) },
+          body: JSON.stringify({
+            model: options.model,
+            temperature: 0,
+            response_format: { type: 'json_object' },
+            messages: [{ role: 'system', content: SYSTEM_PROMPT }, { role: 'user', content: JSON.stringify(request) }],
+          }),
+          signal,
+        });
+      } catch (err) {
+        if (signal.aborted) throw err;
+        throw new FallbackError(name, `request failed: ${err instanceof Error ? (err.cause as Error | undefined)?.message ?? err.message : String(err)}`);
+      }
+      if (!res.ok) throw new FallbackError(name, `HTTP ${res.status} ${res.statusText}`);
+      const body = await res.json() as { choices?: { message?: { content?: string } }[] };
+      const content = body.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') throw new FallbackError(name, 'response has no choices[0].message.content');
+      let parsed: unknown;
+      try {
+        // Some models wrap JSON in a code fence despite response_format
+        parsed = JSON.parse(content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+      } catch {
+        throw new FallbackError(name, 'response content is not JSON');
+      }
+      return checkSuggestions(parsed, name);
+    },
+  };
+}
+
+/**
+ * Deterministic provider for tests: returns `suggestions` as given, or as
+ * computed from the request. The default answers with the headline.
+ */
+export function mockProvider(suggestions?: FallbackSuggestion[] | ((request: FallbackRequest) => FallbackSuggestion[])): FallbackProvider {
+  return {
+    name: 'mock',
+    async suggest(request) {
+      if (typeof suggestions === 'function') return suggestions(request);
+      return suggestions ?? [{
+        title: `Unrecognized error ${request.fingerprint}`,
+        category: 'Unknown',
+        explanation: `The mock provider saw: ${request.headline}`,
+        fix: 'Search the project issue tracker for this message.',
+        severity: 'error',
+        confidence: 0.5,
+      }];
+    },
+  };
+}
+
+// ── Configuration ──
+
+const LOOPBACK = new Set(['localhost', '127.0.0.1', '[::1]', '::1']);
+
+function compileFallbackConfig(raw: unknown, origin: string): FallbackConfig {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new PackError(origin, '"fallback" must be an object');
+  const f = raw as Record<string, unknown>;
+  if (f.provider !== 'openai-compatible' && f.provider !== 'mock') {
+    throw new PackError(origin, `fallback.provider must be "openai-compatible" or "mock" (got ${JSON.stringify(f.provider)})`);
+  }
+  for (const key of ['url', 'model', 'apiKeyEnv'] as const) {
+    if (f[key] !== undefined && (typeof f[key] !== 'string' || !f[key])) throw new PackError(origin, `fallback.${key} must be a non-empty string`);
+  }
+  for (const key of ['timeoutMs', 'minConfidence', 'cacheDays'] as const) {
+    if (f[key] !== undefined && (typeof f[key] !== 'number' || !Number.isFinite(f[key]) || (f[key] as number) < 0)) {
+      throw new PackError(origin, `fallback.${key} must be a non-negative number`);
+    }
+  }
+  for (const key of ['allowRemote', 'sendCode'] as const) {
+    if (f[key] !== undefined && typeof f[key] !== 'boolean') throw new PackError(origin, `fallback.${key} must be a boolean`);
+  }
+
+  if (f.provider === 'openai-compatible') {
+    if (!f.url || !f.model) throw new PackError(origin, 'fallback needs "url" and "model" for the openai-compatible provider');
+    let host: string;
+    try {
+      host = new URL(f.url as string).hostname;
+    } catch {
+      throw new PackError(origin, `fallback.url is not a valid URL: ${f.url as string}`);
+    }
+    // The input is redacted either way, but a remote server has to be asked for by name
+    if (!LOOPBACK.has(host) && !host.endsWith('.localhost') && f.allowRemote !== true) {
+      throw new PackError(origin, `fallback.url points at ${host}, which isn't this machine; set "allowRemote": true to send errors there`);
+    }
+  }
+
+  return {
+    provider: f.provider,
+    ...(f.url !== undefined ? { url: f.url as string } : {}),
+    ...(f.model !== undefined ? { model: f.model as string } : {}),
+    ...(f.apiKeyEnv !== undefined ? { apiKeyEnv: f.apiKeyEnv as string } : {}),
+    ...(f.allowRemote !== undefined ? { allowRemote: f.allowRemote as boolean } : {}),
+    sendCode: f.sendCode === true,
+    timeoutMs: (f.timeoutMs as number | undefined) ?? DEFAULT_TIMEOUT_MS,
+    minConfidence: (f.minConfidence as number | undefined) ?? DEFAULT_MIN_CONFIDENCE,
+    cacheDays: (f.cacheDays as number | undefined) ?? DEFAULT_CACHE_DAYS,
+    origin,
+  };
+}
+
+/** The project's "fallback" config, else the user's; null (stay offline) when neither sets one. */
+export function loadFallbackConfig(options: { cwd?: string; userConfig?: string } = {}): FallbackConfig | null {
+  const project = findProjectConfig(options.cwd ?? process.cwd());
+  const configured = (project?.doc as Record<string, unknown> | undefined)?.fallback;
+  if (configured !== undefined) return compileFallbackConfig(configured, project!.file);
+
+  const userFile = options.userConfig ?? path.join(os.homedir(), PROJECT_CONFIG_FILE);
+  if (!fs.existsSync(userFile)) return null;
+  const user = (readJson(userFile) as Record<string, unknown> | null)?.fallback;
+  return user === undefined ? null : compileFallbackConfig(user, userFile);
+}
+
+export function createProvider(config: FallbackConfig): FallbackProvider {
+  if (config.provider === 'mock') return mockProvider();
+  const apiKey = config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined;
+  return openAICompatibleProvider({ url: config.url!, model: config.model!, ...(apiKey ? { apiKey } : {}) });
+}
+
+// ── Cache ──
+
+export function defaultCacheFile(): string {
+  return path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'ai-error', 'fallback.json');
+}
+
+/** Read the cache; a missing or unreadable file reads as empty, since it can always be refilled. */
+export function loadFallbackCache(file: string = defaultCacheFile()): FallbackCache {
+  try {
+    const doc = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (doc?.version === FALLBACK_CACHE_VERSION && doc.entries && typeof doc.entries === 'object') return { file, entries: doc.entries };
+  } catch {
+    // Missing or corrupt
+  }
+  return { file, entries: {} };
+}
+
+/** Write the cache atomically, keeping the newest MAX_CACHE_ENTRIES. */
+export function saveFallbackCache(cache: FallbackCache): void {
+  const entries = Object.fromEntries(Object.entries(cache.entries)
+    .sort(([, a], [, b]) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, MAX_CACHE_ENTRIES));
+  fs.mkdirSync(path.dirname(cache.file), { recursive: true });
+  const tmp = `${cache.file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, `${JSON.stringify({ version: FALLBACK_CACHE_VERSION, entries }, null, 2)}\n`);
+  fs.renameSync(tmp, cache.file);
+}
+
+// ── Asking ──
+
+/** The request for an input, redacted with `rules`. */
+export function buildFallbackRequest(input: string, matches: readonly MatchResult[], stack: StackError[], context: CodeFrame[], rules: readonly RedactionRule[] = REDACTION_RULES): FallbackRequest | null {
+  const headline = errorHeadline(input);
+  if (!headline) return null;
+  return {
+    fingerprint: fingerprint(normalizeErrorLine(headline)),
+    headline: redact(headline, rules),
+    input: redact(input.replace(/\n+$/, '').split('\n').slice(-MAX_REQUEST_LINES).join('\n'), rules),
+    stack: redactValue(stack, rules),
+    context: redactValue(context, rules),
+    matches: matches.map(m => ({ title: m.entry.title, fix: redact(m.entry.fix, rules), confidence: m.confidence })),
+  };
+}
+
+/** Call the provider, giving up after `timeoutMs` even if it ignores the signal. */
+async function askProvider(provider: FallbackProvider, request: FallbackRequest, timeoutMs: number): Promise<FallbackSuggestion[]> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new FallbackError(provider.name, `no answer within ${timeoutMs} ms`));
+    }, timeoutMs);
+  });
+  try {
+    return checkSuggestions(await Promise.race([provider.suggest(request, controller.signal), timeout]), provider.name);
+  } catch (err) {
+    if (err instanceof FallbackError) throw err;
+    throw new FallbackError(provider.name, err instanceof Error ? err.message : String(err));
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Matches from the provider for an input the database answered weakly, or
+ * none. Suggestions are compiled as entries matching the headline, so they
+ * carry occurrences and render like database matches; answers are cached
+ * by provider and fingerprint.
+ */
+export async function fallbackMatches(provider: FallbackProvider, input: string, matches: readonly MatchResult[], stack: StackError[], context: CodeFrame[], options: FallbackOptions = {}): Promise<MatchResult[]> {
+  if (!needsFallback(matches, options.minConfidence)) return [];
+  const request = buildFallbackRequest(input, matches, stack, context, options.rules);
+  if (!request) return [];
+
+  const now = options.now ?? new Date();
+  const key = `${provider.name}:${request.fingerprint}`;
+  const cached = options.cache?.entries[key];
+  const fresh = cached && now.getTime() - Date.parse(cached.createdAt) < (options.cacheDays ?? DEFAULT_CACHE_DAYS) * DAY_MS;
+  let suggestions: FallbackSuggestion[];
+  if (fresh) {
+    suggestions = cached.suggestions;
+  } else {
+    suggestions = await askProvider(provider, request, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    if (options.cache) {
+      options.cache.entries[key] = { createdAt: now.toISOString(), suggestions };
+      try {
+        saveFallbackCache(options.cache);
+      } catch {
+        // A read-only cache directory only costs the next run a request
+      }
+    }
+  }
+  if (suggestions.length === 0) return [];
+
+  const source = `${FALLBACK_SOURCE}:${provider.name}`;
+  const pattern = learnedPattern(normalizeErrorLine(errorHeadline(input)!));
+  const pack = compilePack({
+    name: source,
+    schemaVersion: 2,
+    patterns: suggestions.map(({ confidence: _, ...s }) => ({ ...s, pattern })),
+  }, source, source);
+  const found = analyzeInput(input, pack.entries);
+  for (const m of found) {
+    m.confidence = suggestions.find(s => s.title === m.entry.title)?.confidence ?? 0.5;
+  }
+  return found.sort((a, b) => b.confidence - a.confidence);
+}
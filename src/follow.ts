@@ -0,0 +1,113 @@
+import * as fs from 'node:fs';
+import { StringDecoder } from 'node:string_decoder';
+
+// ── Following Log Files ──
+
+export interface FollowOptions {
+  /** How often the file is checked for new data, in ms. */
+  pollInterval?: number;
+  /** Read the existing contents first instead of starting at the end. */
+  fromStart?: boolean;
+  /** Stop following when this signal aborts. */
+  signal?: AbortSignal;
+  /** Called when the file is replaced (rotation) or shrinks (truncation). */
+  onReset?: (reason: 'rotated' | 'truncated') => void;
+}
+
+export const DEFAULT_POLL_INTERVAL = 250;
+
+const READ_CHUNK = 64 * 1024;
+
+/**
+ * Tail a growing file like `tail -F`, calling `onLine` for each complete
+ * line. Survives rotation (the path now points at a new file), truncation
+ * and the file not existing yet. Resolves when `signal` aborts.
+ */
+export function followFile(file: string, onLine: (line: string) => void, options: FollowOptions = {}): Promise<void> {
+  const interval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+  let fd: number | null = null;
+  let ino = -1;
+  let position = 0;
+  let partial = '';
+  // One decoder per file, so a character split across two reads survives
+  let decoder = new StringDecoder('utf8');
+  let first = true;
+  const buf = Buffer.alloc(READ_CHUNK);
+
+  const drain = (): void => {
+    if (fd === null) return;
+    for (;;) {
+      const n = fs.readSync(fd, buf, 0, buf.length, position);
+      if (n === 0) break;
+      position += n;
+      const text = partial + decoder.write(buf.subarray(0, n));
+      const lines = text.split('\n');
+      partial = lines.pop()!;
+      for (const line of lines) onLine(line.replace(/\r$/, ''));
+    }
+  };
+
+  const open = (stat: fs.Stats, atEnd: boolean): void => {
+    fd = fs.openSync(file, 'r');
+    ino = stat.ino;
+    position = atEnd ? stat.size : 0;
+    partial = '';
+    decoder = new StringDecoder('utf8');
+  };
+
+  const close = (): void => {
+    if (fd !== null) fs.closeSync(fd);
+    fd = null;
+  };
+
+  const poll = (): void => {
+    let stat: fs.Stats | null = null;
+    try {
+      stat = fs.statSync(file);
+    } catch {
+      // Missing for now (not created yet, or mid-rotation)
+    }
+
+    if (fd === null) {
+      if (stat) open(stat, first && !options.fromStart);
+    } else if (stat && stat.ino !== ino) {
+      // Rotated: finish the old file, then start the new one from the top
+      drain();
+      partial += decoder.end();
+      if (partial) onLine(partial);
+      close();
+      open(stat, false);
+      options.onReset?.('rotated');
+    } else if (stat && stat.size < position) {
+      position = 0;
+      partial = '';
+      decoder = new StringDecoder('utf8');
+      options.onReset?.('truncated');
+    }
+    first = false;
+    drain();
+  };
+
+  return new Promise((resolve, reject) => {
+    let timer: NodeJS.Timeout;
+    const stop = (): void => {
+      clearTimeout(timer);
+      close();
+      resolve();
+    };
+    const tick = (): void => {
+      try {
+        poll();
+      } catch (err) {
+        close();
+        reject(err);
+        return;
+      }
+      timer = setTimeout(tick, interval);
+    };
+
+    if (options.signal?.aborted) return stop();
+    options.signal?.addEventListener('abort', stop, { once: true });
+    tick();
+  });
+}
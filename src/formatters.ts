@@ -0,0 +1,261 @@
+import { createHash } from 'node:crypto';
+import { type SourceLocation } from './analyze.js';
+import { segmentLabel } from './preprocess.js';
+import { fixText } from './render.js';
+import { type DiagnosisResult, type DiagnosisResults } from './results.js';
+
+// ── Output Formatters ──
+//
+// Each formatter turns a results document into the text written to stdout.
+// The terminal view is not one of them; it prints as it goes (see cli.ts).
+
+export interface FormatOptions {
+  /** Project root that paths are reported relative to. Defaults to process.cwd(). */
+  cwd?: string;
+}
+
+export interface Formatter {
+  name: string;
+  description: string;
+  format(results: DiagnosisResults, options?: FormatOptions): string;
+}
+
+const formatters = new Map<string, Formatter>();
+
+export function registerFormatter(formatter: Formatter): void {
+  formatters.set(formatter.name, formatter);
+}
+
+export function getFormatter(name: string): Formatter | undefined {
+  return formatters.get(name);
+}
+
+export function listFormatters(): Formatter[] {
+  return Array.from(formatters.values());
+}
+
+/** One entry per occurrence, each with the best location available. */
+function findings(results: DiagnosisResults): { result: DiagnosisResult; location: SourceLocation | null; line: string }[] {
+  return results.matches.flatMap(result => result.occurrences.map(o => ({
+    result,
+    location: o.location ?? (o === result.occurrences[0] ? result.location : null),
+    line: o.line,
+  })));
+}
+
+function fingerprint(...parts: (string | number | undefined)[]): string {
+  return createHash('sha1').update(parts.join('\0')).digest('hex');
+}
+
+// ── JSON ──
+
+registerFormatter({
+  name: 'json',
+  description: 'Results document (schema/results-v1.schema.json)',
+  format: results => JSON.stringify(results, null, 2),
+});
+
+// ── SARIF 2.1.0 ──
+
+const SARIF_LEVEL = { error: 'error', warning: 'warning', info: 'note' } as const;
+
+/**
+ * Code scanning resolves `%SRCROOT%` to the checkout, so files under the
+ * root are given relative to it. Compared as text because the results may
+ * have been redacted (`~/app/src/x.ts` under `~/app`).
+ */
+function sarifArtifact(file: string, root: string): { uri: string; uriBaseId?: string } {
+  const normalized = file.replace(/\\/g, '/');
+  const prefix = root.replace(/\\/g, '/').replace(/\/?$/, '/');
+  let relative: string;
+  if (normalized.startsWith(prefix)) relative = normalized.slice(prefix.length);
+  // Absolute, outside the root: nothing to make it relative to
+  else if (/^(?:\/|~\/|[A-Za-z]:\/|[a-z][\w+.-]+:)/i.test(normalized)) return { uri: normalized };
+  else relative = normalized.replace(/^\.\//, '');
+  return { uri: relative.split('/').map(encodeURIComponent).join('/'), uriBaseId: '%SRCROOT%' };
+}
+
+registerFormatter({
+  name: 'sarif',
+  description: 'SARIF 2.1.0 for code scanning uploads',
+  format: (results, { cwd = process.cwd() } = {}) => JSON.stringify({
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'ai-error',
+          version: results.tool.version,
+          informationUri: 'https://github.com/LXGIC-Studios/ai-error',
+          rules: results.matches.map(m => ({
+            id: m.id,
+            name: m.title,
+            shortDescription: { text: m.title },
+            fullDescription: { text: m.explanation },
+            help: { text: fixText(m) },
+            ...(m.docs.length ? { helpUri: m.docs[0].url } : {}),
+            defaultConfiguration: { level: SARIF_LEVEL[m.severity] },
+            properties: { category: m.category, source: m.source },
+          })),
+        },
+      },
+      results: findings(results).map(({ result, location, line }) => ({
+        ruleId: result.id,
+        level: SARIF_LEVEL[result.severity],
+        rank: Math.round(result.confidence * 100),
+        message: { text: `${result.title}: ${line}\nFix: ${fixText(result)}` },
+        ...(location ? {
+          locations: [{
+            physicalLocation: {
+              artifactLocation: sarifArtifact(location.file, cwd),
+              region: { startLine: location.line, startColumn: location.col },
+            },
+          }],
+        } : {}),
+        partialFingerprints: { primaryLocationLineHash: fingerprint(result.id, line) },
+      })),
+    }],
+  }, null, 2),
+});
+
+// ── GitHub Actions ──
+
+/** Escaping rules for workflow command data and property values. */
+function ghData(text: string): string {
+  return text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function ghProperty(text: string): string {
+  return ghData(text).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
+
+const GITHUB_COMMAND = { error: 'error', warning: 'warning', info: 'notice' } as const;
+
+registerFormatter({
+  name: 'github',
+  description: 'GitHub Actions ::error workflow commands',
+  format: results => findings(results).map(({ result, location, line }) => {
+    const props = [
+      ...(location ? [`file=${ghProperty(location.file)}`, `line=${location.line}`, `col=${location.col}`] : []),
+      `title=${ghProperty(result.title)}`,
+    ];
+    return `::${GITHUB_COMMAND[result.severity]} ${props.join(',')}::${ghData(`${line}\n${fixText(result)}`)}`;
+  }).join('\n'),
+});
+
+// ── GitLab Code Quality ──
+
+const GITLAB_SEVERITY = { error: 'major', warning: 'minor', info: 'info' } as const;
+
+registerFormatter({
+  name: 'gitlab',
+  description: 'GitLab Code Quality report JSON',
+  format: results => JSON.stringify(findings(results).map(({ result, location, line }) => ({
+    description: `${result.title}: ${line}`,
+    check_name: result.id,
+    fingerprint: fingerprint(result.id, location?.file, location?.line, line),
+    severity: GITLAB_SEVERITY[result.severity],
+    categories: [result.category],
+    // Code Quality requires a path; errors without one are pinned to the project root
+    location: { path: location?.file ?? '.', lines: { begin: location?.line ?? 1 } },
+    content: { body: `${result.explanation}\n\nFix: ${fixText(result)}` },
+  })), null, 2),
+});
+
+// ── JUnit XML ──
+
+function xml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab/newline are not allowed in XML 1.0
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '');
+}
+
+registerFormatter({
+  name: 'junit',
+  description: 'JUnit XML test report (errors fail, warnings pass)',
+  format: results => {
+    const cases = findings(results).map(({ result, location, line }) => {
+      const where = location ? `${location.file}:${location.line}:${location.col}` : '';
+      const name = where ? `${result.title} (${where})` : result.title;
+      const body = `${line}\n\n${result.explanation}\nFix: ${fixText(result)}`;
+      const open = `    <testcase classname="${xml(result.category)}" name="${xml(name)}"${location ? ` file="${xml(location.file)}"` : ''}>`;
+      const detail = result.severity === 'error'
+        ? `      <failure message="${xml(result.title)}" type="${result.severity}">${xml(body)}</failure>`
+        : `      <system-out>${xml(body)}</system-out>`;
+      return `${open}\n${detail}\n    </testcase>`;
+    });
+    const failures = findings(results).filter(f => f.result.severity === 'error').length;
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="ai-error" tests="${cases.length}" failures="${failures}">`,
+      `  <testsuite name="ai-error" tests="${cases.length}" failures="${failures}" errors="0">`,
+      ...cases,
+      '  </testsuite>',
+      '</testsuites>',
+    ].join('\n');
+  },
+});
+
+// ── Markdown ──
+
+function mdCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/** A code fence longer than any run of backticks in the text. */
+export function fence(text: string, lang = ''): string[] {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const ticks = '`'.repeat(longest + 1);
+  return [`${ticks}${lang}`, text, ticks];
+}
+
+const MD_ICON = { error: '❌', warning: '⚠️', info: 'ℹ️' } as const;
+
+registerFormatter({
+  name: 'markdown',
+  description: 'Markdown summary for PR comments',
+  format: results => {
+    const { errors, warnings, infos } = results.summary;
+    const out: string[] = ['## ai-error diagnosis', ''];
+    if (results.matchCount === 0) {
+      out.push('No known error patterns found.');
+      return out.join('\n');
+    }
+
+    out.push(`**${errors}** error${errors !== 1 ? 's' : ''}, **${warnings}** warning${warnings !== 1 ? 's' : ''}, **${infos}** info`, '');
+    out.push('| | Error | Category | Confidence | Count | Location |', '|---|---|---|---|---|---|');
+    for (const m of results.matches) {
+      const loc = m.location ? `\`${m.location.file}:${m.location.line}\`` : '';
+      out.push(`| ${MD_ICON[m.severity]} | ${mdCell(m.title)} | ${mdCell(m.category)} | ${Math.round(m.confidence * 100)}% | ${m.occurrenceCount} | ${loc} |`);
+    }
+    out.push('');
+
+    if (results.segments.length) {
+      const titles = new Map(results.matches.map(m => [m.id, m.title]));
+      out.push('| Package | Errors | Warnings | Diagnoses |', '|---|---|---|---|');
+      for (const s of results.segments) {
+        out.push(`| \`${mdCell(segmentLabel(s))}\` | ${s.summary.errors} | ${s.summary.warnings} | ${mdCell(s.matches.map(id => titles.get(id) ?? id).join(', '))} |`);
+      }
+      out.push('');
+    }
+
+    for (const m of results.matches) {
+      out.push(`### ${MD_ICON[m.severity]} ${m.title}`, '');
+      out.push(...fence(m.matchedLine), '');
+      out.push(`**Why:** ${m.explanation}`, '');
+      out.push(`**Fix:** ${m.fix}`, '');
+      m.steps.forEach((step, i) => {
+        out.push(`${i + 1}. ${step.text}`);
+        if (step.code) out.push('', ...fence(step.code, step.lang).join('\n').split('\n').map(l => `   ${l}`));
+      });
+      if (m.steps.length) out.push('');
+      if (m.autoFixCmd) out.push(...fence(m.autoFixCmd, 'sh'), '');
+      if (m.docs.length) out.push(`**Docs:** ${m.docs.map(d => `[${d.title}](${d.url})`).join(', ')}`, '');
+    }
+    return out.join('\n').trimEnd();
+  },
+});
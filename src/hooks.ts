@@ -0,0 +1,62 @@
+import { type ErrorEntry } from './database.js';
+import { diagnoseError, formatDiagnosis, projectDatabase, type ErrorDiagnosis } from './runtime.js';
+
+// ── Process Hooks ──
+//
+// Print a diagnosis when the process dies of an uncaught exception or an
+// unhandled rejection, and for warnings the database knows. Crashes are seen
+// through `uncaughtExceptionMonitor`, which Node emits for both (the origin
+// says which) without changing what happens next: Node still prints the
+// error and exits the way it would without the hook. Listening for
+// `unhandledRejection` directly would stop rejections from crashing.
+
+export interface HookOptions {
+  /** Entries to match against. Defaults to the built-ins plus the project's pattern packs. */
+  db?: readonly ErrorEntry[];
+  /** Also diagnose `process.emitWarning` warnings (default true). Each entry is reported once. */
+  warnings?: boolean;
+  /** Where diagnoses are written. Defaults to stderr. */
+  stream?: NodeJS.WritableStream;
+  /** Defaults to on when the stream is a TTY and NO_COLOR is unset. */
+  color?: boolean;
+  /** Called with every diagnosis, matched or not, before it is printed. */
+  onDiagnosis?(diagnosis: ErrorDiagnosis, origin: HookOrigin): void;
+}
+
+export type HookOrigin = 'uncaughtException' | 'unhandledRejection' | 'warning';
+
+/** Start diagnosing process-level errors. Returns a function that removes the hooks. */
+export function installHooks(options: HookOptions = {}): () => void {
+  const stream = options.stream ?? process.stderr;
+  const color = options.color ?? ((stream as { isTTY?: boolean }).isTTY === true && !process.env.NO_COLOR);
+  const db = options.db ? () => options.db! : projectDatabase();
+  const reported = new Set<string>();
+
+  const report = (error: unknown, origin: HookOrigin): void => {
+    let diagnosis: ErrorDiagnosis;
+    try {
+      diagnosis = diagnoseError(error, { db: db() });
+    } catch {
+      // Never let the diagnosis replace the error being reported
+      return;
+    }
+    options.onDiagnosis?.(diagnosis, origin);
+    const [top] = diagnosis.matches;
+    if (!top) return;
+    if (origin === 'warning') {
+      if (reported.has(top.entry.title)) return;
+      reported.add(top.entry.title);
+    }
+    stream.write(`\n${formatDiagnosis(diagnosis, { color })}\n\n`);
+  };
+
+  const onCrash = (error: unknown, origin: NodeJS.UncaughtExceptionOrigin): void => report(error, origin);
+  const onWarning = (warning: Error): void => report(warning, 'warning');
+
+  process.on('uncaughtExceptionMonitor', onCrash);
+  if (options.warnings !== false) process.on('warning', onWarning);
+  return () => {
+    process.off('uncaughtExceptionMonitor', onCrash);
+    process.off('warning', onWarning);
+  };
+}
@@ -0,0 +1,64 @@
+import { type DiagnosisSummary } from './runtime.js';
+import { fixText } from './render.js';
+import { FailureDiagnoser, type ReporterOptions } from './reporter.js';
+
+// ── Jest Reporter ──
+//
+//   // jest.config.js
+//   reporters: ['@lxgicstudios/ai-error/jest-reporter', 'default']
+//
+// Appends the diagnosis to each failed test's messages and prints a summary
+// after the run. Listed before `default`, the diagnosis also appears inline
+// under each failure.
+
+/** The parts of Jest's test results the reporter reads and annotates. */
+interface JestAssertionResult {
+  fullName: string;
+  status: string;
+  failureMessages: string[];
+  failureDetails?: unknown[];
+  /** Added by this reporter. */
+  aiError?: DiagnosisSummary;
+}
+
+interface JestTestResult {
+  testFilePath: string;
+  testResults: JestAssertionResult[];
+  failureMessage?: string | null;
+  testExecError?: unknown;
+}
+
+class AiErrorJestReporter {
+  private diagnoser: FailureDiagnoser;
+
+  constructor(_globalConfig?: unknown, options: ReporterOptions = {}) {
+    this.diagnoser = new FailureDiagnoser(options);
+  }
+
+  onTestResult(_test: unknown, result: JestTestResult): void {
+    const notes: string[] = [];
+    for (const assertion of result.testResults) {
+      if (assertion.status !== 'failed') continue;
+      const error = assertion.failureDetails?.[0] ?? assertion.failureMessages.join('\n');
+      const found = this.diagnoser.diagnose(assertion.fullName, error);
+      if (!found) continue;
+      assertion.aiError = found.summary;
+      const note = `ai-error: ${found.summary.title}\n${fixText(found.summary)}`;
+      assertion.failureMessages.push(note);
+      notes.push(`  ● ${assertion.fullName}\n\n    ${note.replace(/\n/g, '\n    ')}`);
+    }
+    // A suite that failed to load has no assertions, only the exec error
+    if (result.testExecError && !result.testResults.length) {
+      const found = this.diagnoser.diagnose(result.testFilePath, result.testExecError);
+      if (found) notes.push(`  ● ${result.testFilePath}\n\n    ai-error: ${found.summary.title}\n    ${fixText(found.summary).replace(/\n/g, '\n    ')}`);
+    }
+    if (notes.length && result.failureMessage) result.failureMessage += `\n${notes.join('\n\n')}\n`;
+  }
+
+  onRunComplete(): void {
+    this.diagnoser.printSummary();
+  }
+}
+
+// Assigned to module.exports so both require() and import get the class itself
+export = AiErrorJestReporter;
@@ -0,0 +1,285 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { createHash } from 'node:crypto';
+import { type MatchResult } from './analyze.js';
+import { type FixInstruction } from './database.js';
+import { type PackEntry } from './packs.js';
+import { REDACTION_RULES, redact, type RedactionRule } from './redact.js';
+
+// ── Knowledge Base ──
+//
+// An opt-in JSON file that remembers what was diagnosed: each error line is
+// normalized (paths, numbers, ids and timestamps replaced by placeholders)
+// and hashed into a fingerprint, and every run bumps its count. A fix the
+// team records with `ai-error learn` is loaded back as a pattern pack, so it
+// comes up the next time the same error does. The file is meant to be
+// committed, so secrets are redacted before a line is stored, and records
+// are written sorted by fingerprint to keep diffs small.
+
+export const KNOWLEDGE_FILE = '.ai-error-kb.json';
+export const KNOWLEDGE_VERSION = 1;
+/** Pack name of learned entries, as shown by --list and --stats. */
+export const KNOWLEDGE_SOURCE = 'knowledge';
+
+/** Timestamps kept per record, enough for "this week" counts. */
+const MAX_SEEN = 50;
+/** Records kept; the least recently seen without a learned fix go first. */
+const MAX_RECORDS = 500;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface LearnedFix {
+  title: string;
+  fix: string;
+  steps?: FixInstruction[];
+  autoFixCmd?: string;
+  /** ISO date the fix was recorded. */
+  learnedAt: string;
+}
+
+export interface KnowledgeRecord {
+  /** Normalized error line the fingerprint is computed from. */
+  text: string;
+  /** A line it was recorded from, redacted. */
+  example: string;
+  /** Entry it was diagnosed as; null when nothing matched. */
+  title: string | null;
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  /** Most recent timestamps, oldest first. */
+  seen: string[];
+  learned?: LearnedFix;
+}
+
+export interface KnowledgeBase {
+  file: string;
+  /** Keyed by fingerprint. */
+  records: Record<string, KnowledgeRecord>;
+}
+
+export interface HistoryEntry extends KnowledgeRecord {
+  fingerprint: string;
+  /** Times seen in the seven days before `now`. */
+  lastWeek: number;
+}
+
+export class KnowledgeError extends Error {
+  constructor(public file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = 'KnowledgeError';
+  }
+}
+
+const ANSI = /\x1b\[[0-9;]*m/g;
+
+/** Applied in order; earlier placeholders keep later rules from seeing their text. */
+const NORMALIZERS: [RegExp, string][] = [
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?/g, '<time>'],
+  [/\b[a-z][\w+.-]*:\/\/[^\s'"`<>)]+/gi, '<url>'],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<id>'],
+  [/\b0x[0-9a-f]+\b|\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi, '<id>'],
+  // Absolute, ./ and ~/ paths, and relative paths ending in a file name, with any :line:col
+  [/(?:[A-Za-z]:)?(?:~|\.{1,2})?(?:[\\/][\w@.+-]+)+(?::\d+){0,2}|\b(?:[\w@.+-]+[\\/])+[\w@+-]+\.\w+(?::\d+){0,2}/g, '<path>'],
+  // Tokens, keys and emails, after normalizeErrorLine has redacted them
+  [/\[REDACTED:[\w-]+\]/g, '<secret>'],
+];
+
+/** Numbers that aren't part of a word, a version-like run or a `host:port`. */
+const NUMBER = /(?<![\w.:<])\d+(?:\.\d+)*(?![\w.>])/g;
+const IPV4 = /^\d+\.\d+\.\d+\.\d+$/;
+
+/** Regex source each placeholder stands for in a learned pattern. */
+const PLACEHOLDERS: Record<string, string> = {
+  '<time>': '\\S+',
+  '<url>': '\\S+',
+  '<id>': '\\w+',
+  '<path>': '\\S+',
+  '<secret>': '\\S+',
+  '<n>': '\\d+(?:\\.\\d+)*',
+};
+
+/**
+ * The stable part of an error line: `Error: ENOENT: no such file or
+ * directory, open '/app/.env'` and the same error for another file normalize
+ * alike. Hosts, ports and IP addresses are kept; they tell services apart.
+ * Secrets the built-in redaction rules find become `<secret>`.
+ */
+export function normalizeErrorLine(line: string): string {
+  let text = redact(line.replace(ANSI, '').replace(/\s+/g, ' ').trim());
+  for (const [pattern, placeholder] of NORMALIZERS) text = text.replace(pattern, placeholder);
+  return text.replace(NUMBER, n => (IPV4.test(n) ? n : '<n>'));
+}
+
+/** Short stable id for a normalized line. */
+export function fingerprint(normalized: string): string {
+  return createHash('sha256').update(normalized).digest('hex').slice(0, 12);
+}
+
+/** The line an unmatched input is remembered by: the first that reads like an error, else the first line. */
+export function errorHeadline(input: string): string | null {
+  const lines = input.split('\n').map(l => l.replace(ANSI, '').trim()).filter(l => l && !/^at\s/.test(l));
+  return lines.find(l => /\b(?:error|exception|fatal|failed|panic)\b|^\w*(?:Error|Exception)\b/i.test(l)) ?? lines[0] ?? null;
+}
+
+/** Regex source matching the lines that normalize to `normalized`. */
+export function learnedPattern(normalized: string): string {
+  return normalized
+    .split(/(<(?:time|url|id|path|secret|n)>)/)
+    .map((part, i) => (i % 2 ? PLACEHOLDERS[part] : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+')))
+    .join('');
+}
+
+/** Walk up from `cwd` to the nearest knowledge base, else the user's; null when neither exists. */
+export function findKnowledgeBase(cwd: string = process.cwd(), userFile: string = path.join(os.homedir(), KNOWLEDGE_FILE)): string | null {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    const file = path.join(dir, KNOWLEDGE_FILE);
+    if (fs.existsSync(file)) return file;
+    const parent = path.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return fs.existsSync(userFile) ? userFile : null;
+}
+
+function checkRecord(id: string, raw: unknown, file: string): KnowledgeRecord {
+  const r = raw as Record<string, unknown>;
+  const valid = r && typeof r === 'object'
+    && typeof r.text === 'string' && typeof r.example === 'string'
+    && (r.title === null || typeof r.title === 'string')
+    && typeof r.count === 'number' && typeof r.firstSeen === 'string' && typeof r.lastSeen === 'string'
+    && Array.isArray(r.seen) && r.seen.every(s => typeof s === 'string');
+  if (!valid) throw new KnowledgeError(file, `records.${id} is not a valid record`);
+  const learned = r.learned as Record<string, unknown> | undefined;
+  if (learned !== undefined && (typeof learned?.title !== 'string' || typeof learned.fix !== 'string' || typeof learned.learnedAt !== 'string')) {
+    throw new KnowledgeError(file, `records.${id}.learned needs "title", "fix" and "learnedAt"`);
+  }
+  return r as unknown as KnowledgeRecord;
+}
+
+/** Read a knowledge base; a file that doesn't exist yet reads as empty. */
+export function loadKnowledgeBase(file: string): KnowledgeBase {
+  if (!fs.existsSync(file)) return { file, records: {} };
+  let doc: Record<string, unknown>;
+  try {
+    doc = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err) {
+    throw new KnowledgeError(file, `invalid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!doc || typeof doc !== 'object' || doc.version !== KNOWLEDGE_VERSION || !doc.records || typeof doc.records !== 'object') {
+    throw new KnowledgeError(file, `expected { "version": ${KNOWLEDGE_VERSION}, "records": { ... } }`);
+  }
+  const records: Record<string, KnowledgeRecord> = {};
+  for (const [id, raw] of Object.entries(doc.records as Record<string, unknown>)) records[id] = checkRecord(id, raw, file);
+  return { file, records };
+}
+
+/** Write the file atomically, records sorted by fingerprint. */
+export function saveKnowledgeBase(kb: KnowledgeBase): void {
+  const records = Object.fromEntries(Object.entries(kb.records).sort(([a], [b]) => a.localeCompare(b)));
+  const tmp = `${kb.file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, `${JSON.stringify({ version: KNOWLEDGE_VERSION, records }, null, 2)}\n`);
+  fs.renameSync(tmp, kb.file);
+}
+
+/**
+ * Count one sighting of a line, creating its record with the line redacted
+ * by `rules` as its example. Returns the fingerprint.
+ */
+export function recordLine(
+  kb: KnowledgeBase,
+  line: string,
+  title: string | null,
+  now: Date = new Date(),
+  rules: readonly RedactionRule[] = REDACTION_RULES,
+): string {
+  const text = normalizeErrorLine(line);
+  const id = fingerprint(text);
+  const at = now.toISOString();
+  const record = kb.records[id] ??= { text, example: redact(line.replace(ANSI, '').trim(), rules), title, count: 0, firstSeen: at, lastSeen: at, seen: [] };
+  touch(record, at);
+  if (title && !record.title) record.title = title;
+  return id;
+}
+
+function touch(record: KnowledgeRecord, at: string): void {
+  record.count++;
+  record.lastSeen = at;
+  record.seen = [...record.seen, at].slice(-MAX_SEEN);
+}
+
+/**
+ * Record one diagnosis: each match's line, or the headline when nothing
+ * matched. A learned entry's sighting counts toward the record it was
+ * learned from. Returns the fingerprints recorded.
+ */
+export function recordDiagnosis(
+  kb: KnowledgeBase,
+  matches: readonly MatchResult[],
+  input: string,
+  now: Date = new Date(),
+  rules: readonly RedactionRule[] = REDACTION_RULES,
+): string[] {
+  const recorded = new Set<string>();
+  for (const m of matches) {
+    const learnedFrom = m.entry.source === KNOWLEDGE_SOURCE
+      ? Object.keys(kb.records).find(id => kb.records[id].learned?.title === m.entry.title)
+      : undefined;
+    if (learnedFrom) {
+      if (!recorded.has(learnedFrom)) touch(kb.records[learnedFrom], now.toISOString());
+      recorded.add(learnedFrom);
+      continue;
+    }
+    const line = m.matchedLine.split('\n')[0];
+    if (!recorded.has(fingerprint(normalizeErrorLine(line)))) recorded.add(recordLine(kb, line, m.entry.title, now, rules));
+  }
+  const headline = matches.length === 0 ? errorHeadline(input) : null;
+  if (headline) recorded.add(recordLine(kb, headline, null, now, rules));
+  pruneRecords(kb);
+  return [...recorded];
+}
+
+function pruneRecords(kb: KnowledgeBase): void {
+  const ids = Object.keys(kb.records);
+  if (ids.length <= MAX_RECORDS) return;
+  const evictable = ids.filter(id => !kb.records[id].learned).sort((a, b) => kb.records[a].lastSeen.localeCompare(kb.records[b].lastSeen));
+  for (const id of evictable.slice(0, ids.length - MAX_RECORDS)) delete kb.records[id];
+}
+
+/** Attach a team fix to a record. */
+export function learnFix(kb: KnowledgeBase, id: string, fix: Omit<LearnedFix, 'learnedAt'>, now: Date = new Date()): KnowledgeRecord {
+  const record = kb.records[id];
+  if (!record) throw new KnowledgeError(kb.file, `no record with fingerprint ${id}`);
+  record.learned = { ...fix, learnedAt: now.toISOString().slice(0, 10) };
+  return record;
+}
+
+/** Records, most frequent first. */
+export function historyEntries(kb: KnowledgeBase, now: Date = new Date()): HistoryEntry[] {
+  const since = now.getTime() - WEEK_MS;
+  return Object.entries(kb.records)
+    .map(([id, record]) => ({ ...record, fingerprint: id, lastWeek: record.seen.filter(s => Date.parse(s) >= since).length }))
+    .sort((a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen));
+}
+
+/** Learned fixes as a pack document for compilePack, each matching its record's normalized line. */
+export function knowledgePackDoc(kb: KnowledgeBase): { name: string; schemaVersion: number; patterns: PackEntry[] } {
+  const patterns: PackEntry[] = [];
+  for (const record of Object.values(kb.records)) {
+    if (!record.learned) continue;
+    const { title, fix, steps, autoFixCmd, learnedAt } = record.learned;
+    patterns.push({
+      pattern: learnedPattern(record.text),
+      title,
+      category: 'Team',
+      explanation: `Your team recorded this fix on ${learnedAt}. Seen ${record.count} time${record.count !== 1 ? 's' : ''}, last on ${record.lastSeen.slice(0, 10)}.`,
+      fix,
+      ...(steps ? { steps } : {}),
+      ...(autoFixCmd ? { autoFixCmd } : {}),
+      severity: 'error',
+      examples: [record.example],
+    });
+  }
+  return { name: KNOWLEDGE_SOURCE, schemaVersion: 2, patterns };
+}
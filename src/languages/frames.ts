@@ -0,0 +1,31 @@
+import { type StackError, type StackFrame } from '../stack.js';
+
+// ── Shared Helpers for Language Stack Parsers ──
+
+export function languageFrame(
+  raw: string,
+  functionName: string | null,
+  file: string | null,
+  line: number | null,
+  col: number | null,
+  isUserCode: boolean,
+  flags: Partial<StackFrame> = {},
+): StackFrame {
+  return {
+    raw,
+    functionName: functionName || null,
+    file,
+    line,
+    col,
+    isAsync: false,
+    isEval: false,
+    isNative: false,
+    isConstructor: false,
+    isUserCode: isUserCode && file !== null,
+    ...flags,
+  };
+}
+
+export function languageError(language: string, name: string, message: string, code: string | null = null): StackError {
+  return { name, code, message, frames: [], cause: null, errors: [], language };
+}
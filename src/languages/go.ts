@@ -0,0 +1,113 @@
+import { type ErrorEntry } from '../database.js';
+import { type StackError } from '../stack.js';
+import { type LanguagePack } from './index.js';
+import { languageError, languageFrame } from './frames.js';
+
+// ── Go ──
+//
+//   panic: runtime error: invalid memory address or nil pointer dereference
+//   [signal SIGSEGV: segmentation violation code=0x1 addr=0x0 pc=0x48f2b6]
+//
+//   goroutine 1 [running]:
+//   main.(*Server).handle(0x0, {0x4d3b20, 0xc000012345})
+//           /app/server.go:42 +0x16
+//   main.main()
+//           /app/main.go:12 +0x25
+//
+// Each frame is a function line followed by an indented file:line. The
+// first goroutine is the one that panicked; a deadlock or `GOTRACEBACK=all`
+// dump lists the others after it.
+
+const PANIC = /^(panic|fatal error): (.*?)(?: \[recovered\])?$/;
+const GOROUTINE = /^goroutine (\d+) \[([^\]]+)\]:$/;
+const LOCATION = /^(\S+\.(?:go|s)):(\d+)(?: \+0x[0-9a-f]+)?$/;
+const CALL = /^[\w.\/*()[\]{}-]+\(.*\)$/;
+
+const DETECT = /^(?:panic: |fatal error: (?:all goroutines|concurrent map)|goroutine \d+ \[|go: |\S+\.go:\d+:\d+: )/;
+
+function isLibraryFrame(file: string, fn: string | null): boolean {
+  // Module cache, the standard library under GOROOT, and the runtime itself
+  return /[\\/]pkg[\\/]mod[\\/]/.test(file)
+    || /[\\/]go[\\/]src[\\/]/.test(file)
+    || /^(?:runtime|testing)\./.test(fn ?? '');
+}
+
+function parseStack(lines: string[]): StackError[] {
+  const roots: StackError[] = [];
+  let current: StackError | null = null;
+  // The panic's frames come from the first goroutine printed after it
+  let awaitingGoroutine = false;
+  let fn: string | null = null;
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    const panic = line.match(PANIC);
+    if (panic) {
+      current = languageError('go', panic[1], panic[2]);
+      roots.push(current);
+      awaitingGoroutine = true;
+      continue;
+    }
+
+    const goroutine = line.match(GOROUTINE);
+    if (goroutine) {
+      if (!current || !awaitingGoroutine) {
+        current = languageError('go', `goroutine ${goroutine[1]}`, goroutine[2]);
+        roots.push(current);
+      }
+      awaitingGoroutine = false;
+      fn = null;
+      continue;
+    }
+
+    const location = line.match(LOCATION);
+    if (location && current && /^\s/.test(raw)) {
+      current.frames.push(languageFrame(line, fn, location[1], parseInt(location[2]), null, !isLibraryFrame(location[1], fn)));
+      fn = null;
+      continue;
+    }
+
+    const created = line.match(/^created by (\S+)/);
+    if (created) {
+      fn = created[1];
+    } else if (CALL.test(line)) {
+      // Drop the argument words: main.(*Server).handle(0x0, {...}) -> main.(*Server).handle
+      fn = line.replace(/\([^()]*\)$/, '');
+    }
+  }
+  return roots;
+}
+
+const entries: ErrorEntry[] = [
+  { pattern: /panic: (.+)/i, title: 'Go: Panic', category: 'Go', explanation: "The program panicked and nothing recovered, so it exited with status 2. The first goroutine in the dump is the one that panicked.", fix: "Read the first frame in your own code under goroutine 1; that's where the panic started.", severity: 'error', language: 'go', examples: ['panic: unexpected state "closed"'], counterExamples: ['panicked: unexpected state'] },
+  { pattern: /panic: runtime error: invalid memory address or nil pointer dereference/i, title: 'Go: Nil Pointer Dereference', category: 'Go', explanation: "Code dereferenced a nil pointer, called a method on a nil struct pointer, or used a nil interface.", fix: "Check the value for nil before using it, or make sure its constructor ran. The first user frame shows the line.", severity: 'error', language: 'go', examples: ['panic: runtime error: invalid memory address or nil pointer dereference'], counterExamples: ['panic: runtime error: invalid memory address'] },
+  { pattern: /panic: runtime error: index out of range \[(?<index>-?\d+)\] with length (?<length>\d+)/i, title: 'Go: Index Out of Range', category: 'Go', explanation: "The index is outside the slice or array.", fix: "Index $<index> is past the end of a slice of length $<length>. Check the length first, or fix the off-by-one in the loop.", severity: 'error', language: 'go', examples: ['panic: runtime error: index out of range [5] with length 3'], counterExamples: ['panic: runtime error: index out of range'] },
+  { pattern: /panic: runtime error: slice bounds out of range/i, title: 'Go: Slice Bounds Out of Range', category: 'Go', explanation: "A slice expression s[a:b] used bounds outside the slice's capacity, or a > b.", fix: "Clamp the bounds to len(s) before slicing.", severity: 'error', language: 'go', examples: ['panic: runtime error: slice bounds out of range [:12] with capacity 8'], counterExamples: ['panic: runtime error: index out of range [5] with length 3'] },
+  { pattern: /panic: assignment to entry in nil map/i, title: 'Go: Nil Map Write', category: 'Go', explanation: "The map was declared but never made, so writing to it panics. Reading a nil map is fine; writing isn't.", fix: "Initialize it with make(map[K]V) (or a literal) before writing, including maps inside structs.", severity: 'error', language: 'go', examples: ['panic: assignment to entry in nil map'], counterExamples: ['panic: assignment to entry in map'] },
+  { pattern: /panic: (?:send on closed channel|close of closed channel)/i, title: 'Go: Closed Channel', category: 'Go', explanation: "A goroutine sent on, or closed, a channel that was already closed.", fix: "Only the sender should close a channel, exactly once. Use a sync.Once or a done channel to coordinate.", severity: 'error', language: 'go', examples: ['panic: send on closed channel', 'panic: close of closed channel'], counterExamples: ['panic: close of nil channel'] },
+  { pattern: /panic: interface conversion: (.+)/i, title: 'Go: Interface Conversion', category: 'Go', explanation: "A type assertion x.(T) failed because the dynamic type isn't T.", fix: "Use the two-value form v, ok := x.(T) and handle !ok, or a type switch.", severity: 'error', language: 'go', examples: ['panic: interface conversion: interface {} is string, not int'], counterExamples: ['panic: interface {} is nil'] },
+  { pattern: /fatal error: all goroutines are asleep - deadlock!/i, title: 'Go: Deadlock', category: 'Go', explanation: "Every goroutine is blocked, usually on a channel send or receive nobody will ever match, or a WaitGroup that never reaches zero.", fix: "Check the goroutines in the dump: an unbuffered send without a receiver, a missing close, or a wg.Done() that never runs.", severity: 'error', language: 'go', examples: ['fatal error: all goroutines are asleep - deadlock!'], counterExamples: ['fatal error: out of memory'] },
+  { pattern: /fatal error: concurrent map (?:writes|read and map write|iteration and map write)/i, title: 'Go: Concurrent Map Access', category: 'Go', explanation: "Two goroutines used the same map at once and one of them was writing. Go maps aren't safe for concurrent use.", fix: "Guard the map with a sync.Mutex or sync.RWMutex, or use sync.Map. Run the tests with -race to find the other access.", severity: 'error', language: 'go', examples: ['fatal error: concurrent map writes', 'fatal error: concurrent map read and map write'], counterExamples: ['fatal error: concurrent map'] },
+  { pattern: /\.go:\d+:\d+: undefined: (?<name>[\w.]+)/i, title: 'Go: Undefined', category: 'Go', explanation: "The compiler can't find that identifier. A typo, a missing import, an unexported name from another package, or a file excluded by build tags.", fix: "Check the spelling and capitalization of $<name>, and that the file defining it is in the same package and build.", severity: 'error', language: 'go', examples: ['./main.go:14:2: undefined: NewServer'], counterExamples: ['./main.go:14:2: undefined type NewServer'] },
+  { pattern: /\.go:\d+:\d+: (?:declared and not used: \w+|\w+ declared (?:and|but) not used)/i, title: 'Go: Unused Variable', category: 'Go', explanation: "Go refuses to compile a local variable that's never read.", fix: "Use the variable or remove it. Assign it to _ to keep it while debugging.", severity: 'error', language: 'go', examples: ['./handler.go:21:2: declared and not used: resp', './handler.go:21:2: resp declared and not used'], counterExamples: ['./handler.go:21:2: resp declared here'] },
+  { pattern: /"(?<package>[^"]+)" imported and not used/i, title: 'Go: Unused Import', category: 'Go', explanation: "Go refuses to compile an import that nothing in the file uses.", fix: "Remove the import of $<package>. goimports (or gopls on save) keeps imports in sync automatically.", severity: 'error', language: 'go', examples: ['./main.go:5:2: "os" imported and not used'], counterExamples: ['./main.go:5:2: "os" imported as sys and used'] },
+  { pattern: /no required module provides package (?<package>[^\s;]+)/i, title: 'Go: Package Not in go.mod', category: 'Go', explanation: "The code imports a package from a module that isn't in go.mod.", fix: "Add the module with go get $<package>, then commit go.mod and go.sum.", autoFixCmd: 'go get $<package>', severity: 'error', language: 'go', examples: ['main.go:7:2: no required module provides package github.com/go-chi/chi/v5; to add it:'], counterExamples: ['go: finding module for package github.com/go-chi/chi/v5'] },
+  { pattern: /missing go\.sum entry for module providing package ([^\s;(]+)/i, title: 'Go: Missing go.sum Entry', category: 'Go', explanation: "go.sum doesn't have the checksum for a module the build needs, usually after editing go.mod by hand or a merge.", fix: "Run go mod tidy and commit the updated go.sum.", autoFixCmd: 'go mod tidy', severity: 'error', language: 'go', examples: ['main.go:6:2: missing go.sum entry for module providing package golang.org/x/sync/errgroup (imported by example.com/app); to add:'], counterExamples: ['go: downloading golang.org/x/sync v0.7.0'] },
+  { pattern: /go: updates to go\.mod needed/i, title: 'Go: go.mod Out of Date', category: 'Go', explanation: "go.mod is missing requirements the build needs, and the go command won't edit it in this mode.", fix: "Run go mod tidy locally and commit go.mod and go.sum.", autoFixCmd: 'go mod tidy', severity: 'error', language: 'go', examples: ['go: updates to go.mod needed; to update it:'], counterExamples: ['go: go.mod file indicates go 1.22'] },
+  { pattern: /go: go\.mod requires go >= (?<version>[\d.]+)/i, title: 'Go: Toolchain Too Old', category: 'Go', explanation: "The module needs a newer Go version than the one installed.", fix: "Install Go $<version> or newer, or set GOTOOLCHAIN=auto so the go command downloads it.", severity: 'error', language: 'go', examples: ['go: go.mod requires go >= 1.22.0 (running go 1.21.5; GOTOOLCHAIN=local)'], counterExamples: ['go: go.mod file indicates go 1.22'] },
+  { pattern: /cannot use (?<value>.+?) \(.*?\) as (?<type>.+?) value in (?<context>.+)/i, title: 'Go: Type Mismatch', category: 'Go', explanation: "The value's type doesn't match what the assignment, argument or return expects. Go never converts types implicitly.", fix: "Convert explicitly ($<type>($<value>)) or change one side's type.", severity: 'error', language: 'go', examples: ['./main.go:9:14: cannot use port (variable of type int) as string value in argument to net.JoinHostPort'], counterExamples: ['./main.go:9:14: cannot use _ as value'] },
+];
+
+export const go: LanguagePack = {
+  name: 'go',
+  label: 'Go',
+  detect: DETECT,
+  continues: line => /^\s/.test(line)
+    || GOROUTINE.test(line)
+    || /^(?:created by |\[signal |exit status \d)/.test(line)
+    || CALL.test(line),
+  entries,
+  parseStack,
+};
@@ -0,0 +1,102 @@
+import { type ErrorEntry } from '../database.js';
+import { type StackError } from '../stack.js';
+import { go } from './go.js';
+import { java } from './java.js';
+import { python } from './python.js';
+import { rust } from './rust.js';
+
+// ── Language Packs ──
+//
+// The core database and stack parser cover JavaScript and TypeScript. Each
+// language pack adds entries for another runtime's errors and a parser for
+// its stack traces. Input is split into blocks (a message and the lines
+// printed under it) and each block's language is detected on its own, so a
+// CI log mixing Node, Python and Go output gets the right entries and
+// parser for each part.
+
+export interface LanguagePack {
+  /** Identifier used by `ErrorEntry.language`, e.g. 'python'. */
+  name: string;
+  label: string;
+  /** Lines only this language prints. A block containing one is in this language. */
+  detect: RegExp;
+  /** Whether `line` continues a block of this language; `previous` is the block's last line. */
+  continues(line: string, previous: string): boolean;
+  /** Entries that only match inside blocks of this language. */
+  entries: ErrorEntry[];
+  /** Parse consecutive blocks of this language into errors, innermost frame first. */
+  parseStack(lines: string[]): StackError[];
+}
+
+/** In detection order: earlier packs win when a line looks like more than one language. */
+export const LANGUAGE_PACKS: readonly LanguagePack[] = [python, go, rust, java];
+
+export function languagePack(name: string): LanguagePack | undefined {
+  return LANGUAGE_PACKS.find(p => p.name === name);
+}
+
+/** The language a line identifies, or null for JavaScript and anything unrecognized. */
+export function detectLanguage(line: string): LanguagePack | null {
+  return LANGUAGE_PACKS.find(p => p.detect.test(line)) ?? null;
+}
+
+/** Lines that continue a JavaScript error rather than starting a new one. */
+const CONTINUATION = /^(?:\s|at\s|[{}\])]|- |Require stack:|Caused by:|\[cause\]|\.\.\.)/;
+
+/**
+ * Assigns lines to error blocks and tracks each block's language. A blank
+ * line ends a block; so does a line that doesn't continue it by the rules
+ * of the block's language. A block starts out as JavaScript and switches
+ * to the first language one of its lines identifies.
+ */
+export class BlockTracker {
+  block = 0;
+  language: LanguagePack | null = null;
+  private previous = '';
+  private afterBlank = true;
+
+  /** Track the next raw line. Returns false for blank lines, which belong to no block. */
+  push(rawLine: string): boolean {
+    if (!rawLine.trim()) {
+      this.afterBlank = true;
+      return false;
+    }
+    const continued = !this.afterBlank
+      && (this.language ? this.language.continues(rawLine, this.previous) : CONTINUATION.test(rawLine));
+    if (!continued) {
+      this.block++;
+      this.language = null;
+    }
+    this.language ??= detectLanguage(rawLine);
+    this.afterBlank = false;
+    this.previous = rawLine;
+    return true;
+  }
+}
+
+/** Split lines into runs of consecutive blocks in the same language. Blank lines stay with the block above them. */
+export function languageSegments(lines: string[]): { language: LanguagePack | null; lines: string[] }[] {
+  const tracker = new BlockTracker();
+  const blocks: { block: number; language: LanguagePack | null; lines: string[] }[] = [];
+  const leading: string[] = [];
+
+  for (const line of lines) {
+    const last = blocks[blocks.length - 1];
+    if (!tracker.push(line)) {
+      (last?.lines ?? leading).push(line);
+    } else if (last?.block === tracker.block) {
+      last.lines.push(line);
+      last.language = tracker.language;
+    } else {
+      blocks.push({ block: tracker.block, language: tracker.language, lines: last ? [line] : [...leading, line] });
+    }
+  }
+
+  const segments: { language: LanguagePack | null; lines: string[] }[] = [];
+  for (const { language, lines: blockLines } of blocks) {
+    const last = segments[segments.length - 1];
+    if (last && last.language === language) last.lines.push(...blockLines);
+    else segments.push({ language, lines: blockLines });
+  }
+  return segments;
+}
@@ -0,0 +1,116 @@
+import { type ErrorEntry } from '../database.js';
+import { type StackError } from '../stack.js';
+import { type LanguagePack } from './index.js';
+import { languageError, languageFrame } from './frames.js';
+
+// ── Java and Kotlin ──
+//
+//   Exception in thread "main" java.lang.IllegalStateException: boot failed
+//       at com.acme.App.start(App.java:41)
+//       at com.acme.App.main(App.java:12)
+//   Caused by: java.net.ConnectException: Connection refused
+//       at java.base/sun.nio.ch.Net.connect0(Native Method)
+//       ... 2 more
+//
+// Frames name the method and the file without its directory. `Caused by:`
+// starts the cause of the error above it; an indented `Suppressed:` adds a
+// sub-error, and a `Caused by:` indented under it belongs to that sub-error.
+
+const HEADER = /^(?:Exception in thread "[^"]*" )?((?:[\w$]+\.)*[\w$]*(?:Exception|Error|Throwable))(?::\s*(.*))?$/;
+const LINKED = /^(Caused by|Suppressed): (.*)$/;
+// `at java.base/java.util.ArrayList.get(ArrayList.java:427)`, `at app//com.acme.Foo.bar(Foo.kt:3)`
+const FRAME = /^at (?:[\w.$@-]*\/\/?)?([\w$.<>-]+)\((?:([^:()]+\.(?:java|kt|kts|scala|groovy)):(\d+)|([^)]*))\)$/;
+
+const DETECT = new RegExp([
+  'Exception in thread "',
+  '(?:Caused by: |Suppressed: )?(?:[a-z][\\w$]*\\.)+[A-Z][\\w$]*(?:Exception|Error)\\b',
+  '\\s*at (?:[\\w.$@-]*\\/\\/?)?(?:[\\w$]+\\.)+[\\w$<>-]+\\((?:[\\w$.-]+\\.(?:java|kt|kts|scala|groovy)(?::\\d+)?|Native Method|Unknown Source)\\)',
+  '[\\w./\\\\-]+\\.java:\\d+: error: ',
+  'e: (?:file:\\/\\/)?\\S+\\.kts?:\\d+',
+].map(s => `^(?:${s})`).join('|'));
+
+/** The JDK, Kotlin's standard library and frameworks that usually sit between user frames. */
+const LIBRARY_PACKAGES = /^(?:java|javax|jdk|sun|com\.sun|kotlin|kotlinx|scala|groovy|org\.junit|org\.gradle|org\.apache|org\.springframework|org\.hibernate|io\.netty|reactor|com\.fasterxml)\./;
+
+function parseStack(lines: string[]): StackError[] {
+  const roots: StackError[] = [];
+  let root: StackError | null = null;
+  // The error that frames attach to, and the error a `Suppressed:` line belongs to
+  let current: StackError | null = null;
+  let owner: StackError | null = null;
+  let suppressed: StackError | null = null;
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    const frame = line.match(FRAME);
+    if (frame) {
+      if (!current) {
+        current = root = owner = languageError('java', '', '');
+        roots.push(root);
+      }
+      const fn = frame[1];
+      const native = frame[4] === 'Native Method';
+      current.frames.push(languageFrame(line, fn, frame[2] ?? null, frame[3] ? parseInt(frame[3]) : null, null, !LIBRARY_PACKAGES.test(fn), { isNative: native }));
+      continue;
+    }
+    if (/^\.\.\. \d+ (?:more|common frames omitted)$/.test(line)) continue;
+
+    const linked = line.match(LINKED);
+    const header = (linked ? linked[2] : line).match(HEADER);
+    if (!header) continue;
+    const err = languageError('java', header[1], header[2] ?? '');
+
+    if (linked?.[1] === 'Suppressed' && owner) {
+      owner.errors.push(err);
+      suppressed = err;
+    } else if (linked?.[1] === 'Caused by' && root) {
+      // An indented cause under a suppressed error belongs to it
+      const nested = suppressed !== null && /^\s/.test(raw);
+      let tail: StackError = nested ? suppressed! : root;
+      while (tail.cause) tail = tail.cause;
+      tail.cause = err;
+      if (!nested) {
+        owner = err;
+        suppressed = null;
+      }
+    } else {
+      root = owner = err;
+      roots.push(err);
+      suppressed = null;
+    }
+    current = err;
+  }
+  return roots;
+}
+
+const entries: ErrorEntry[] = [
+  { pattern: /Exception in thread "([^"]+)" ([\w.$]+)/i, title: 'Java: Uncaught Exception', category: 'Java', explanation: "An exception escaped the thread's run method and ended the thread. In \"main\" that ends the program.", fix: "Look at the deepest \"Caused by:\" for the root cause and the first frame in your own packages for where it happened.", severity: 'error', language: 'java', examples: ['Exception in thread "main" com.acme.billing.InvoiceException: invoice 42 has no lines'], counterExamples: ['Exception in thread main'] },
+  { pattern: /java\.lang\.NullPointerException/i, title: 'Java: Null Pointer', category: 'Java', explanation: "A null reference was dereferenced. Since Java 14 the message names the expression that was null.", fix: "Find the first frame in your code and check what can be null there; use Optional or an explicit null check.", severity: 'error', language: 'java', examples: ['java.lang.NullPointerException: Cannot invoke "String.length()" because "name" is null'], counterExamples: ['kotlin.KotlinNullPointerException'] },
+  { pattern: /java\.lang\.ClassNotFoundException: (?<class>[\w.$]+)/i, title: 'Java: Class Not Found', category: 'Java', explanation: "A class loaded by name (reflection, JDBC drivers, plugins) isn't on the classpath at runtime.", fix: "Add the dependency that contains $<class> with runtime (not just compile or provided) scope, or check the fat JAR's contents.", severity: 'error', language: 'java', examples: ['java.lang.ClassNotFoundException: org.postgresql.Driver'], counterExamples: ['java.lang.NoClassDefFoundError: org/postgresql/Driver'] },
+  { pattern: /java\.lang\.NoClassDefFoundError: (?<class>[\w/$.]+)/i, title: 'Java: NoClassDefFoundError', category: 'Java', explanation: "A class that was there at compile time is missing at runtime, or its static initializer failed earlier.", fix: "Check the runtime classpath for $<class> and for conflicting versions of its library. Look earlier in the log for an ExceptionInInitializerError.", severity: 'error', language: 'java', examples: ['java.lang.NoClassDefFoundError: com/fasterxml/jackson/databind/ObjectMapper'], counterExamples: ['java.lang.ClassNotFoundException: com.fasterxml.jackson.databind.ObjectMapper'] },
+  { pattern: /java\.lang\.OutOfMemoryError: (Java heap space|GC overhead limit exceeded|Metaspace)/i, title: 'Java: Out of Memory', category: 'Java', explanation: "The JVM ran out of the memory area named in the message.", fix: "Raise the limit (-Xmx for heap, -XX:MaxMetaspaceSize for Metaspace), then take a heap dump (-XX:+HeapDumpOnOutOfMemoryError) to look for a leak.", severity: 'error', language: 'java', examples: ['java.lang.OutOfMemoryError: Java heap space', 'java.lang.OutOfMemoryError: Metaspace'], counterExamples: ['java.lang.OutOfMemoryError: unable to create native thread'] },
+  { pattern: /java\.lang\.StackOverflowError/i, title: 'Java: Stack Overflow', category: 'Java', explanation: "Recursion too deep, usually infinite: a missing base case, or two methods (toString, equals, JSON serialization of a cycle) calling each other.", fix: "Look for the repeating frames in the stack trace and break the cycle.", severity: 'error', language: 'java', examples: ['Exception in thread "main" java.lang.StackOverflowError'], counterExamples: ['java.lang.StackWalker'] },
+  { pattern: /java\.lang\.(?:Array|String)?IndexOutOfBoundsException: (?<detail>.+)/i, title: 'Java: Index Out of Bounds', category: 'Java', explanation: "An index is negative or past the end of the array, list or string.", fix: "Check the size before indexing ($<detail>), or fix the off-by-one in the loop bounds.", severity: 'error', language: 'java', examples: ['java.lang.ArrayIndexOutOfBoundsException: Index 5 out of bounds for length 5', 'java.lang.IndexOutOfBoundsException: Index 0 out of bounds for length 0'], counterExamples: ['java.lang.IndexOutOfBoundsException'] },
+  { pattern: /java\.lang\.ClassCastException: (?:class )?(?<actual>[\w.$]+) cannot be cast to (?:class )?(?<target>[\w.$]+)/i, title: 'Java: Class Cast', category: 'Java', explanation: "A cast to a type the object isn't an instance of. Common with raw collections and deserialized generics.", fix: "The object is a $<actual>, not a $<target>. Check with instanceof before casting, or fix the generic type where it's created.", severity: 'error', language: 'java', examples: ['java.lang.ClassCastException: class java.lang.String cannot be cast to class java.lang.Integer'], counterExamples: ['java.lang.ClassCastException'] },
+  { pattern: /java\.util\.ConcurrentModificationException/i, title: 'Java: Concurrent Modification', category: 'Java', explanation: "A collection was modified while being iterated, in the same thread (removing inside a for-each) or another one.", fix: "Use Iterator.remove() or removeIf(), iterate over a copy, or use a concurrent collection.", severity: 'error', language: 'java', examples: ['java.util.ConcurrentModificationException'], counterExamples: ['java.util.concurrent.TimeoutException'] },
+  { pattern: /java\.lang\.NumberFormatException: For input string: "(?<input>[^"]*)"/i, title: 'Java: Number Format', category: 'Java', explanation: "Integer.parseInt or a similar parser got text that isn't a number in the expected format.", fix: "\"$<input>\" isn't a valid number. Trim and validate input before parsing, and catch NumberFormatException for user input.", severity: 'error', language: 'java', examples: ['java.lang.NumberFormatException: For input string: "12a"'], counterExamples: ['java.lang.NumberFormatException: null'] },
+  { pattern: /java\.lang\.UnsupportedClassVersionError: .*class file version (\d+)\.\d+\).*up to (\d+)\.\d+/i, title: 'Java: Class Compiled for Newer JVM', category: 'Java', explanation: "The class was compiled for a newer Java than the one running it (class file version 61 is Java 17, 65 is Java 21).", fix: "Run on a newer JDK, or compile for the older one with --release.", severity: 'error', language: 'java', examples: ['java.lang.UnsupportedClassVersionError: com/acme/App has been compiled by a more recent version of the Java Runtime (class file version 61.0), this version of the Java Runtime only recognizes class file versions up to 55.0'], counterExamples: ['java.lang.UnsupportedClassVersionError'] },
+  { pattern: /java\.net\.ConnectException: Connection refused/i, title: 'Java: Connection Refused', category: 'Java', explanation: "Nothing is listening on the host and port the client connects to.", fix: "Start the service or fix the host and port in the configuration (inside a container, localhost is the container itself).", severity: 'error', language: 'java', examples: ['Caused by: java.net.ConnectException: Connection refused'], counterExamples: ['java.net.ConnectException: Connection timed out'] },
+  { pattern: /java\.net\.SocketTimeoutException: (?:Read|Connect|connect) timed out/i, title: 'Java: Socket Timeout', category: 'Java', explanation: "The connection or read took longer than the client's timeout.", fix: "Check that the remote service is healthy and reachable, then tune the connect and read timeouts.", severity: 'error', language: 'java', examples: ['java.net.SocketTimeoutException: Read timed out'], counterExamples: ['java.net.SocketException: Connection reset'] },
+  { pattern: /java\.io\.FileNotFoundException: (?<path>.+?) \((?:No such file or directory|The system cannot find the (?:file|path) specified)\)/i, title: 'Java: File Not Found', category: 'Java', explanation: "The path doesn't exist. Relative paths resolve against the JVM's working directory, and resources inside a JAR aren't files.", fix: "Check $<path>. For bundled files, load them with getResourceAsStream instead of a path.", severity: 'error', language: 'java', examples: ['java.io.FileNotFoundException: config/app.yml (No such file or directory)'], counterExamples: ['java.io.FileNotFoundException: config/app.yml (Permission denied)'] },
+  { pattern: /\.java:\d+: error: cannot find symbol/i, title: 'javac: Cannot Find Symbol', category: 'Java', explanation: "The compiler doesn't know that class, method or variable: a typo, a missing import or a missing dependency.", fix: "Check the \"symbol:\" line under the error, then the import or the build file.", severity: 'error', language: 'java', examples: ['src/main/java/com/acme/App.java:14: error: cannot find symbol'], counterExamples: ['src/main/java/com/acme/App.java:14: warning: [deprecation] Date(String) in Date has been deprecated'] },
+  { pattern: /kotlin\.UninitializedPropertyAccessException: lateinit property (?<property>\w+) has not been initialized/i, title: 'Kotlin: Lateinit Not Initialized', category: 'Java', explanation: "A lateinit property was read before anything assigned it.", fix: "Make sure $<property> is set before use (injection, setUp(), onCreate()), check ::$<property>.isInitialized, or make it nullable.", severity: 'error', language: 'java', examples: ['kotlin.UninitializedPropertyAccessException: lateinit property repository has not been initialized'], counterExamples: ['kotlin.UninitializedPropertyAccessException'] },
+  { pattern: /kotlin\.NotImplementedError: An operation is not implemented/i, title: 'Kotlin: TODO() Reached', category: 'Java', explanation: "Execution reached a TODO() call.", fix: "Implement the function that calls TODO().", severity: 'error', language: 'java', examples: ['kotlin.NotImplementedError: An operation is not implemented: send email'], counterExamples: ['kotlin.NotImplementedError'] },
+  { pattern: /^e: (?:file:\/\/)?\S+\.kts?:\d+:\d+:? Unresolved reference:? (?<name>\w+)/i, title: 'Kotlin: Unresolved Reference', category: 'Java', explanation: "The Kotlin compiler doesn't know that name: a typo, a missing import, or a dependency that isn't on the classpath.", fix: "Check the spelling of $<name> and its import, and the dependency in build.gradle.kts.", severity: 'error', language: 'java', examples: ['e: file:///app/src/main/kotlin/App.kt:12:5 Unresolved reference: routing'], counterExamples: ['w: file:///app/src/main/kotlin/App.kt:12:5 Variable \'x\' is never used'] },
+];
+
+export const java: LanguagePack = {
+  name: 'java',
+  label: 'Java/Kotlin',
+  detect: DETECT,
+  continues: line => /^(?:\s|Caused by: |Suppressed: |\.\.\. \d+ more)/.test(line),
+  entries,
+  parseStack,
+};
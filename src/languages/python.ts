@@ -0,0 +1,132 @@
+import { type ErrorEntry } from '../database.js';
+import { type StackError } from '../stack.js';
+import { type LanguagePack } from './index.js';
+import { languageError, languageFrame } from './frames.js';
+
+// ── Python ──
+//
+//   Traceback (most recent call last):
+//     File "/app/worker.py", line 12, in <module>
+//       main()
+//     File "/app/worker.py", line 8, in main
+//       return config["queue"]
+//   KeyError: 'queue'
+//
+// Frames are printed outermost first and the exception comes last. Chained
+// tracebacks are separated by "During handling of the above exception" or
+// "The above exception was the direct cause" lines.
+
+const TRACEBACK = /^Traceback \(most recent call last\):/;
+const CHAINED = /^(?:During handling of the above exception|The above exception was the direct cause)/;
+const FRAME = /^File "([^"]+)", line (\d+)(?:, in (.+))?$/;
+const EXCEPTION = /^([A-Za-z_][\w.]*)(?::\s*(.*))?$/;
+const STANDALONE_EXCEPTION = /^([A-Za-z_][\w.]*(?:Error|Exception|Warning|Exit|Interrupt))(?::\s*(.*))?$/;
+
+/** Python-only exception names and messages, so a lone exception line is recognized too. */
+const DETECT = new RegExp([
+  TRACEBACK.source,
+  '\\s*File "[^"]+", line \\d+',
+  CHAINED.source.slice(1),
+  '(?:[\\w.]+\\.)?(?:ModuleNotFound|Import|Key|Indentation|Tab|Attribute|Name|ZeroDivision|Value|Index|Recursion|Unicode(?:De|En)code|FileNotFound|Permission|ConnectionRefused|JSONDecode)Error: ',
+  "TypeError: (?:'\\w+' object is not|unsupported operand|\\w+\\(\\) (?:missing|takes))",
+  'SyntaxError: invalid syntax',
+  'ERROR: (?:Could not find a version|No matching distribution)',
+  'error: externally-managed-environment',
+].map(s => `^(?:${s})`).join('|'));
+
+function isLibraryFile(file: string): boolean {
+  return /[\\/](?:site|dist)-packages[\\/]/.test(file)
+    || /[\\/]lib[\\/]python\d[\d.]*[\\/]/i.test(file)
+    || file.startsWith('<');
+}
+
+function parseStack(lines: string[]): StackError[] {
+  const roots: StackError[] = [];
+  let current: StackError | null = null;
+  let chained = false;
+
+  const finish = (err: StackError): void => {
+    // Innermost first, like every other parser
+    err.frames.reverse();
+    if (chained && roots.length) err.cause = roots.pop()!;
+    roots.push(err);
+    chained = false;
+    current = null;
+  };
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    if (TRACEBACK.test(line)) {
+      if (current) finish(current);
+      current = languageError('python', '', '');
+      continue;
+    }
+    if (CHAINED.test(line)) {
+      if (current) finish(current);
+      chained = true;
+      continue;
+    }
+
+    const frame = line.match(FRAME);
+    if (frame) {
+      current ??= languageError('python', '', '');
+      const file = frame[1];
+      current.frames.push(languageFrame(line, frame[3] ?? null, file, parseInt(frame[2]), null, !isLibraryFile(file)));
+      continue;
+    }
+
+    // Source lines and carets under a frame are indented; the exception isn't
+    if (/^\s/.test(raw)) continue;
+    const exception = line.match(current ? EXCEPTION : STANDALONE_EXCEPTION);
+    if (!exception) continue;
+    const err: StackError = current ?? languageError('python', '', '');
+    err.name = exception[1];
+    err.message = exception[2] ?? '';
+    finish(err);
+  }
+
+  if (current) finish(current);
+  return roots;
+}
+
+const entries: ErrorEntry[] = [
+  { pattern: /Traceback \(most recent call last\):/i, title: 'Python: Traceback', category: 'Python', explanation: "An exception went unhandled. The traceback lists calls oldest first, so the exception and the frame that raised it are at the bottom.", fix: "Read the last line for the exception, then the frame just above it for where it was raised.", severity: 'info', language: 'python', examples: ['Traceback (most recent call last):'], counterExamples: ['Stack trace (most recent call first):'] },
+  { pattern: /ModuleNotFoundError: No module named '(?<module>[^'.]+)/i, title: 'Python: Module Not Found', category: 'Python', explanation: "The module isn't installed in the interpreter that ran the script. Often the package was installed into a different virtualenv or Python version.", fix: "Activate the right virtualenv and install $<module> (the PyPI name can differ from the module name).", autoFixCmd: 'python -m pip install $<module>', severity: 'error', language: 'python', examples: ["ModuleNotFoundError: No module named 'requests'", "ModuleNotFoundError: No module named 'google.protobuf'"], counterExamples: ["ModuleNotFoundError: No module named"] },
+  { pattern: /ImportError: cannot import name '(?<name>\w+)' from '(?<module>[^']+)'/i, title: 'Python: Cannot Import Name', category: 'Python', explanation: "The module exists but doesn't define that name. Either the installed version renamed or removed it, or a circular import left the module half-initialized.", fix: "Check that $<module> exports $<name> in the installed version. If the message says \"partially initialized module\", break the circular import.", severity: 'error', language: 'python', examples: ["ImportError: cannot import name 'soft_unicode' from 'markupsafe' (/venv/lib/python3.11/site-packages/markupsafe/__init__.py)"], counterExamples: ["ImportError: No module named markupsafe"] },
+  { pattern: /KeyError: (?<key>.+)/i, title: 'Python: Key Error', category: 'Python', explanation: "A dict lookup used a key that isn't in the dict.", fix: "Check where the dict is built, or use .get($<key>, default) when the key is optional.", severity: 'error', language: 'python', examples: ["KeyError: 'DATABASE_URL'"], counterExamples: ['KeyError:'] },
+  { pattern: /AttributeError: 'NoneType' object has no attribute '(?<attribute>\w+)'/i, title: 'Python: Attribute of None', category: 'Python', explanation: "The value is None. A function returned None (often one that modifies in place, or a failed lookup) where you expected an object.", fix: "Find where the value came from and handle the None case before accessing .$<attribute>.", severity: 'error', language: 'python', examples: ["AttributeError: 'NoneType' object has no attribute 'group'"], counterExamples: ["AttributeError: 'str' object has no attribute 'group'"] },
+  { pattern: /AttributeError: '(?<type>\w+)' object has no attribute '(?<attribute>\w+)'/i, title: 'Python: Attribute Missing', category: 'Python', explanation: "The object doesn't have that attribute. Usually a typo, a value of the wrong type, or an API that changed between versions.", fix: "Check that the value is really a $<type>, and that the installed version's API still has .$<attribute>.", severity: 'error', language: 'python', examples: ["AttributeError: 'str' object has no attribute 'decode'"], counterExamples: ["AttributeError: can't set attribute"] },
+  { pattern: /NameError: name '(?<name>\w+)' is not defined/i, title: 'Python: Name Not Defined', category: 'Python', explanation: "The name isn't defined in this scope. A typo, a missing import, or a use before assignment.", fix: "Import or define $<name> before using it.", severity: 'error', language: 'python', examples: ["NameError: name 'json' is not defined"], counterExamples: ["UnboundLocalError: local variable 'count' referenced before assignment"] },
+  { pattern: /TypeError: '(\w+)' object is not subscriptable/i, title: 'Python: Not Subscriptable', category: 'Python', explanation: "You used [] on a value that doesn't support indexing, often None or a function you forgot to call.", fix: "Check that the value is a list, dict or other container before indexing it.", severity: 'error', language: 'python', examples: ["TypeError: 'NoneType' object is not subscriptable"], counterExamples: ["TypeError: 'NoneType' object is not iterable"] },
+  { pattern: /TypeError: '(\w+)' object is not callable/i, title: 'Python: Not Callable', category: 'Python', explanation: "You called something that isn't a function, often a variable that shadows a builtin (list = [...]) or an attribute you meant to read.", fix: "Check what the name refers to; rename variables that shadow builtins.", severity: 'error', language: 'python', examples: ["TypeError: 'str' object is not callable"], counterExamples: ["TypeError: 'str' object is not subscriptable"] },
+  { pattern: /TypeError: unsupported operand type\(s\) for (.+): '(\w+)' and '(\w+)'/i, title: 'Python: Unsupported Operand', category: 'Python', explanation: "The operator doesn't work between these two types, often because one of them is None or a str read from input.", fix: "Convert the values to compatible types (int(), str(), float()) or handle None first.", severity: 'error', language: 'python', examples: ["TypeError: unsupported operand type(s) for +: 'int' and 'str'"], counterExamples: ["TypeError: can only concatenate str (not \"int\") to str"] },
+  { pattern: /TypeError: (?<function>\w+)\(\) (?:missing \d+ required (?:positional|keyword-only) arguments?|takes \d+ positional arguments? but \d+ (?:was|were) given)/i, title: 'Python: Wrong Argument Count', category: 'Python', explanation: "The call passes a different number of arguments than the function accepts. For methods, remember that self counts as one.", fix: "Match the call to $<function>'s signature, or call the method on an instance instead of the class.", severity: 'error', language: 'python', examples: ["TypeError: __init__() missing 1 required positional argument: 'name'", "TypeError: process() takes 1 positional argument but 2 were given"], counterExamples: ["TypeError: process() got an unexpected keyword argument 'retries'"] },
+  { pattern: /(?:IndentationError: (.+)|TabError: inconsistent use of tabs and spaces)/i, title: 'Python: Indentation Error', category: 'Python', explanation: "The indentation doesn't line up with the block structure, or tabs and spaces are mixed.", fix: "Re-indent the block with spaces only (4 per level) and configure your editor to insert spaces.", severity: 'error', language: 'python', examples: ['IndentationError: unexpected indent', 'TabError: inconsistent use of tabs and spaces in indentation'], counterExamples: ['IndentationError'] },
+  { pattern: /SyntaxError: invalid syntax/i, title: 'Python: Invalid Syntax', category: 'Python', explanation: "Python couldn't parse the line. Look at the caret, and at the line before it for an unclosed bracket. Python 2 code (print \"x\") also fails here.", fix: "Fix the syntax at the caret, or check the previous line for a missing bracket or colon.", severity: 'error', language: 'python', examples: ['SyntaxError: invalid syntax'], counterExamples: ['SyntaxError: Unexpected token'] },
+  { pattern: /IndexError: (?:list|tuple|string) index out of range/i, title: 'Python: Index Out of Range', category: 'Python', explanation: "The index is past the end of the sequence, often an empty list or an off-by-one loop.", fix: "Check the length before indexing, or iterate over the items directly.", severity: 'error', language: 'python', examples: ['IndexError: list index out of range'], counterExamples: ['IndexError: pop from empty list'] },
+  { pattern: /ValueError: invalid literal for int\(\) with base \d+: (.+)/i, title: 'Python: Invalid Number', category: 'Python', explanation: "int() got a string that isn't a whole number, like '' or '3.5'.", fix: "Validate or strip the input first; use float() for decimals.", severity: 'error', language: 'python', examples: ["ValueError: invalid literal for int() with base 10: ''"], counterExamples: ['ValueError: could not convert string to float: \'abc\''] },
+  { pattern: /ZeroDivisionError: (?:integer |float )?division(?: or modulo)? by zero/i, title: 'Python: Division by Zero', category: 'Python', explanation: "The divisor is zero.", fix: "Guard the division, e.g. return a default when the denominator is 0.", severity: 'error', language: 'python', examples: ['ZeroDivisionError: division by zero'], counterExamples: ['ZeroDivisionError'] },
+  { pattern: /RecursionError: maximum recursion depth exceeded/i, title: 'Python: Recursion Limit', category: 'Python', explanation: "A function kept calling itself without reaching its base case, or the recursion is just deeper than Python's limit (1000 by default).", fix: "Check the base case. For deep but finite recursion, rewrite it as a loop.", severity: 'error', language: 'python', examples: ['RecursionError: maximum recursion depth exceeded while calling a Python object'], counterExamples: ['RecursionError'] },
+  { pattern: /UnicodeDecodeError: '([\w-]+)' codec can't decode byte/i, title: 'Python: Unicode Decode Error', category: 'Python', explanation: "The bytes aren't valid in the encoding used to read them, usually a file opened without encoding= on a system whose default isn't UTF-8.", fix: "Open the file with the encoding it was written in, e.g. open(path, encoding='utf-8').", severity: 'error', language: 'python', examples: ["UnicodeDecodeError: 'utf-8' codec can't decode byte 0xff in position 0: invalid start byte"], counterExamples: ["UnicodeEncodeError: 'ascii' codec can't encode character '\\xe9'"] },
+  { pattern: /FileNotFoundError: \[Errno 2\] No such file or directory: '(?<path>[^']+)'/i, title: 'Python: File Not Found', category: 'Python', explanation: "The path doesn't exist. Relative paths resolve against the working directory, not the script's folder.", fix: "Check $<path>, or build the path from the script's location with pathlib.Path(__file__).parent.", severity: 'error', language: 'python', examples: ["FileNotFoundError: [Errno 2] No such file or directory: 'config.yaml'"], counterExamples: ["FileExistsError: [Errno 17] File exists: 'build'"] },
+  { pattern: /PermissionError: \[Errno 13\] Permission denied/i, title: 'Python: Permission Denied', category: 'Python', explanation: "The process can't read, write or execute that path.", fix: "Check the file's owner and mode, or write to a directory the user owns.", severity: 'error', language: 'python', examples: ["PermissionError: [Errno 13] Permission denied: '/var/log/app.log'"], counterExamples: ['PermissionError: [Errno 1] Operation not permitted'] },
+  { pattern: /JSONDecodeError: Expecting value: line 1 column 1 \(char 0\)/i, title: 'Python: Empty or Non-JSON Body', category: 'Python', explanation: "json.loads got an empty string or something that isn't JSON at all, typically an HTML error page or an empty HTTP response.", fix: "Print the raw text and status code before decoding; check response.ok first.", severity: 'error', language: 'python', examples: ['json.decoder.JSONDecodeError: Expecting value: line 1 column 1 (char 0)'], counterExamples: ["json.decoder.JSONDecodeError: Expecting ',' delimiter: line 3 column 5 (char 42)"] },
+  { pattern: /ConnectionRefusedError: \[Errno 111\] Connection refused/i, title: 'Python: Connection Refused', category: 'Python', explanation: "Nothing is listening on the host and port the code connects to.", fix: "Start the service, or check the host and port (inside Docker, localhost is the container itself).", severity: 'error', language: 'python', examples: ['ConnectionRefusedError: [Errno 111] Connection refused'], counterExamples: ['ConnectionResetError: [Errno 104] Connection reset by peer'] },
+  { pattern: /ERROR: (?:Could not find a version that satisfies the requirement|No matching distribution found for) (?<requirement>[\w.\-[\]]+)/i, title: 'pip: No Matching Distribution', category: 'Python', explanation: "pip found no release of the package for this Python version and platform, or the name is wrong.", fix: "Check the package name and its supported Python versions; upgrade pip, or use a Python version $<requirement> publishes wheels for.", severity: 'error', language: 'python', examples: ['ERROR: No matching distribution found for tensorflow==2.3.0', 'ERROR: Could not find a version that satisfies the requirement torch==1.4 (from versions: none)'], counterExamples: ['ERROR: Invalid requirement: \'torch=1.4\''] },
+  { pattern: /error: externally-managed-environment/i, title: 'pip: Externally Managed Environment', category: 'Python', explanation: "The system Python is managed by the OS package manager (PEP 668), so pip refuses to install into it.", fix: "Create a virtualenv (python -m venv .venv) and install there, or use pipx for command-line tools.", autoFixCmd: 'python3 -m venv .venv', severity: 'error', language: 'python', examples: ['error: externally-managed-environment'], counterExamples: ['error: invalid-environment'] },
+];
+
+export const python: LanguagePack = {
+  name: 'python',
+  label: 'Python',
+  detect: DETECT,
+  continues: (line, previous) => /^\s/.test(line)
+    || TRACEBACK.test(line)
+    || CHAINED.test(line)
+    // The exception line follows the indented source line of the last frame
+    || (/^\s/.test(previous) && EXCEPTION.test(line.trim())),
+  entries,
+  parseStack,
+};
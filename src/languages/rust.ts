@@ -0,0 +1,132 @@
+import { type ErrorEntry } from '../database.js';
+import { type StackError } from '../stack.js';
+import { type LanguagePack } from './index.js';
+import { languageError, languageFrame } from './frames.js';
+
+// ── Rust ──
+//
+//   error[E0382]: borrow of moved value: `v`
+//    --> src/main.rs:4:20
+//     |
+//
+//   thread 'main' panicked at src/main.rs:5:10:
+//   called `Option::unwrap()` on a `None` value
+//   stack backtrace:
+//      0: rust_begin_unwind
+//                at /rustc/90c5418/library/std/src/panicking.rs:645:5
+//      1: app::main
+//                at ./src/main.rs:5:10
+//
+// Rust before 1.73 printed the panic message in quotes on the same line:
+// thread 'main' panicked at 'msg', src/main.rs:5:10
+
+const PANIC = /^thread '([^']*)' panicked at (?:'(.*)', )?(\S+?):(\d+):(\d+):?$/;
+const DIAGNOSTIC = /^error(?:\[(E\d{4})\])?: (.+)$/;
+const SPAN = /^--> (\S+?):(\d+):(\d+)$/;
+const BACKTRACE_FRAME = /^\d+: (.+?)(?:::h[0-9a-f]{16})?$/;
+const BACKTRACE_AT = /^at (\S+?):(\d+):(\d+)$/;
+
+const DETECT = /^(?:error\[E\d{4}\]|warning\[|thread '[^']*' panicked at |\s*--> \S+\.rs:\d+:\d+|\s*Compiling \S+ v\d|error: (?:could not compile `|no matching package named|failed to select a version))/;
+
+function isLibraryFrame(file: string | null, fn: string | null): boolean {
+  return /^\/rustc\/|[\\/]\.cargo[\\/](?:registry|git)[\\/]|[\\/]library[\\/](?:std|core|alloc)[\\/]/.test(file ?? '')
+    || /^(?:std|core|alloc)::|^rust_begin_unwind$|^__rust/.test(fn ?? '');
+}
+
+function parseStack(lines: string[]): StackError[] {
+  const roots: StackError[] = [];
+  let current: StackError | null = null;
+  let awaitingMessage = false;
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    if (awaitingMessage && current) {
+      current.message = line;
+      awaitingMessage = false;
+      continue;
+    }
+
+    const panic = line.match(PANIC);
+    if (panic) {
+      current = languageError('rust', 'panic', panic[2] ?? '');
+      const [file, lineNo, col] = [panic[3], parseInt(panic[4]), parseInt(panic[5])];
+      current.frames.push(languageFrame(line, null, file, lineNo, col, !isLibraryFrame(file, null)));
+      roots.push(current);
+      // Since Rust 1.73 the message is on the next line
+      awaitingMessage = panic[2] === undefined;
+      continue;
+    }
+
+    const diagnostic = line.match(DIAGNOSTIC);
+    if (diagnostic) {
+      // Summary lines repeat what the diagnostics above them said
+      if (/^(?:aborting due to|could not compile)/.test(diagnostic[2])) {
+        current = null;
+        continue;
+      }
+      current = languageError('rust', 'error', diagnostic[2], diagnostic[1] ?? null);
+      roots.push(current);
+      continue;
+    }
+
+    const span = line.match(SPAN);
+    if (span && current && current.frames.length === 0) {
+      current.frames.push(languageFrame(line, null, span[1], parseInt(span[2]), parseInt(span[3]), !isLibraryFrame(span[1], null)));
+      continue;
+    }
+
+    const at = line.match(BACKTRACE_AT);
+    const last = current?.frames[current.frames.length - 1];
+    if (at && last && last.file === null) {
+      last.raw = `${last.raw} ${line}`;
+      last.file = at[1];
+      last.line = parseInt(at[2]);
+      last.col = parseInt(at[3]);
+      last.isUserCode = !isLibraryFrame(last.file, last.functionName);
+      continue;
+    }
+
+    const frame = line.match(BACKTRACE_FRAME);
+    if (frame && current) {
+      current.frames.push(languageFrame(line, frame[1], null, null, null, false));
+    }
+  }
+  return roots;
+}
+
+const entries: ErrorEntry[] = [
+  { pattern: /error\[E0308\]: mismatched types/i, title: 'Rust: Type Mismatch', category: 'Rust', explanation: "Expected one type but got another.", fix: "Check the expected type and convert or cast your value.", severity: 'error', language: 'rust', examples: ['error[E0308]: mismatched types'], counterExamples: ['error[E0382]: borrow of moved value: `v`'] },
+  { pattern: /error\[E0382\]: (?:borrow|use) of moved value: `(?<value>[^`]+)`/i, title: 'Rust: Use After Move', category: 'Rust', explanation: "The value was moved (into a function, a variable or a closure) and then used again. A type that isn't Copy can only have one owner.", fix: "Borrow instead of moving (&$<value>), clone it if you need two copies, or restructure so it's used before the move.", severity: 'error', language: 'rust', examples: ['error[E0382]: borrow of moved value: `config`', 'error[E0382]: use of moved value: `tx`'], counterExamples: ['error[E0505]: cannot move out of `config` because it is borrowed'] },
+  { pattern: /error\[E0499\]: cannot borrow `(?<value>[^`]+)` as mutable more than once at a time/i, title: 'Rust: Double Mutable Borrow', category: 'Rust', explanation: "Two mutable references to the same value are alive at the same time.", fix: "Shorten the first borrow of $<value> (finish using it before taking the second), split the struct's fields, or use indices instead of references.", severity: 'error', language: 'rust', examples: ['error[E0499]: cannot borrow `self.items` as mutable more than once at a time'], counterExamples: ['error[E0502]: cannot borrow `self.items` as mutable because it is also borrowed as immutable'] },
+  { pattern: /error\[E0502\]: cannot borrow `(?<value>[^`]+)` as (?:im)?mutable because it is also borrowed as (?:im)?mutable/i, title: 'Rust: Conflicting Borrow', category: 'Rust', explanation: "A mutable and a shared borrow of the same value overlap, often pushing to a Vec while holding a reference into it.", fix: "End the shared borrow of $<value> before mutating it, e.g. copy or clone the value you read first.", severity: 'error', language: 'rust', examples: ['error[E0502]: cannot borrow `v` as mutable because it is also borrowed as immutable'], counterExamples: ['error[E0499]: cannot borrow `v` as mutable more than once at a time'] },
+  { pattern: /error\[E0596\]: cannot borrow `([^`]+)` as mutable, as it is not declared as mutable/i, title: 'Rust: Not Mutable', category: 'Rust', explanation: "The binding isn't declared mut, so it can't be borrowed mutably.", fix: "Declare it with let mut, or take &mut self in the method.", severity: 'error', language: 'rust', examples: ['error[E0596]: cannot borrow `buf` as mutable, as it is not declared as mutable'], counterExamples: ['error[E0594]: cannot assign to `x`, as it is not declared as mutable'] },
+  { pattern: /error\[E0597\]: `(?<value>[^`]+)` does not live long enough/i, title: 'Rust: Does Not Live Long Enough', category: 'Rust', explanation: "A reference outlives the value it points to, which is dropped at the end of its scope.", fix: "Move $<value> to an outer scope, return an owned value instead of a reference, or store it where it lives long enough.", severity: 'error', language: 'rust', examples: ['error[E0597]: `line` does not live long enough'], counterExamples: ['error[E0716]: temporary value dropped while borrowed'] },
+  { pattern: /error\[E0106\]: missing lifetime specifier/i, title: 'Rust: Missing Lifetime', category: 'Rust', explanation: "A returned or stored reference needs a lifetime the compiler can't infer.", fix: "Add a lifetime parameter (fn f<'a>(x: &'a str) -> &'a str), or return an owned type like String.", severity: 'error', language: 'rust', examples: ['error[E0106]: missing lifetime specifier'], counterExamples: ['error[E0261]: use of undeclared lifetime name `\'a`'] },
+  { pattern: /error\[E0425\]: cannot find (?:value|function) `(?<name>[^`]+)` in this scope/i, title: 'Rust: Not Found in Scope', category: 'Rust', explanation: "The name isn't defined or imported here.", fix: "Check the spelling of $<name>, or bring it into scope with use.", severity: 'error', language: 'rust', examples: ['error[E0425]: cannot find value `conn` in this scope'], counterExamples: ['error[E0412]: cannot find type `Conn` in this scope'] },
+  { pattern: /error\[E0433\]: failed to resolve: use of undeclared (?:crate or module|type) `(?<path>[^`]+)`/i, title: 'Rust: Unresolved Path', category: 'Rust', explanation: "The path's first segment isn't a known crate, module or type.", fix: "Add $<path> to Cargo.toml if it's a crate, or add the missing use or mod declaration.", severity: 'error', language: 'rust', examples: ['error[E0433]: failed to resolve: use of undeclared crate or module `tokio`'], counterExamples: ['error[E0433]: failed to resolve: could not find `sync` in `tokio`'] },
+  { pattern: /error\[E0432\]: unresolved import `(?<path>[^`]+)`/i, title: 'Rust: Unresolved Import', category: 'Rust', explanation: "The use path doesn't exist: a missing dependency, a disabled feature, or an item that moved.", fix: "Check that $<path> exists in the crate version you depend on, and enable the feature that provides it.", severity: 'error', language: 'rust', examples: ['error[E0432]: unresolved import `serde_json`'], counterExamples: ['warning: unused import: `serde_json`'] },
+  { pattern: /error\[E0599\]: no method named `(?<method>[^`]+)` found/i, title: 'Rust: Method Not Found', category: 'Rust', explanation: "The type doesn't have that method, or it comes from a trait that isn't in scope.", fix: "Import the trait that provides $<method> (the compiler's help line names it), or call it on the right type.", severity: 'error', language: 'rust', examples: ['error[E0599]: no method named `read_to_string` found for struct `File` in the current scope'], counterExamples: ['error[E0609]: no field `len` on type `File`'] },
+  { pattern: /error\[E0277\]: (.+)/i, title: 'Rust: Trait Not Implemented', category: 'Rust', explanation: "A type is used where a trait is required, but it doesn't implement that trait (Display, Send, Sized, ...).", fix: "Implement or derive the trait, convert to a type that has it, or relax the bound.", severity: 'error', language: 'rust', examples: ['error[E0277]: `Config` doesn\'t implement `std::fmt::Display`'], counterExamples: ['error[E0308]: mismatched types'] },
+  { pattern: /thread '([^']*)' panicked at/i, title: 'Rust: Panic', category: 'Rust', explanation: "The thread panicked. In the main thread this ends the program with exit code 101.", fix: "Read the message and location after \"panicked at\". Run with RUST_BACKTRACE=1 for the call stack.", severity: 'error', language: 'rust', examples: ["thread 'main' panicked at src/main.rs:12:5:"], counterExamples: ["thread 'main' has overflowed its stack"] },
+  { pattern: /called `Option::unwrap\(\)` on a `None` value/i, title: 'Rust: Unwrap on None', category: 'Rust', explanation: "unwrap() was called on an Option that was None.", fix: "Handle the None case with match, if let, ? or unwrap_or, or use expect(\"why it can't be None\") to document the assumption.", severity: 'error', language: 'rust', examples: ["thread 'main' panicked at src/main.rs:5:10:\ncalled `Option::unwrap()` on a `None` value", "thread 'main' panicked at 'called `Option::unwrap()` on a `None` value', src/main.rs:5:10"], counterExamples: ['called `Option::unwrap_or()` on a `None` value'] },
+  { pattern: /called `Result::unwrap\(\)` on an `Err` value: (?<error>.+)/i, title: 'Rust: Unwrap on Err', category: 'Rust', explanation: "unwrap() was called on a Result holding an error.", fix: "Propagate the error with ? or handle it with match. The error was: $<error>", severity: 'error', language: 'rust', examples: ["thread 'main' panicked at src/main.rs:9:41:\ncalled `Result::unwrap()` on an `Err` value: Os { code: 2, kind: NotFound, message: \"No such file or directory\" }"], counterExamples: ['called `Result::unwrap()` on an `Ok` value'] },
+  { pattern: /index out of bounds: the len is (?<length>\d+) but the index is (?<index>\d+)/i, title: 'Rust: Index Out of Bounds', category: 'Rust', explanation: "Indexing a slice or Vec past its end panics.", fix: "Index $<index> is past a length of $<length>. Check the length first, or use .get() which returns an Option.", severity: 'error', language: 'rust', examples: ["thread 'main' panicked at src/lib.rs:20:13:\nindex out of bounds: the len is 3 but the index is 3"], counterExamples: ['index out of bounds'] },
+  { pattern: /attempt to (?:add|subtract|multiply|negate|shift left|shift right) with overflow/i, title: 'Rust: Integer Overflow', category: 'Rust', explanation: "Arithmetic overflowed its integer type. Debug builds panic; release builds wrap silently.", fix: "Use a wider type, or checked_*/saturating_*/wrapping_* methods to say what should happen.", severity: 'error', language: 'rust', examples: ["thread 'main' panicked at src/main.rs:3:13:\nattempt to subtract with overflow"], counterExamples: ['attempt to divide by zero'] },
+  { pattern: /error: could not compile `([^`]+)`/i, title: 'Cargo: Compilation Failed', category: 'Rust', explanation: "Cargo's summary after rustc errors. The errors printed above it are the cause.", fix: "Fix the first compiler error above; later ones are often caused by it.", severity: 'info', language: 'rust', examples: ['error: could not compile `app` (bin "app") due to 2 previous errors'], counterExamples: ['error: could not find `Cargo.toml`'] },
+  { pattern: /error: no matching package named `(?<crate>[^`]+)` found/i, title: 'Cargo: Package Not Found', category: 'Rust', explanation: "No crate with that name exists in the registry (or the configured source).", fix: "Check the spelling of $<crate> on crates.io; crate names use - and _ inconsistently.", severity: 'error', language: 'rust', examples: ['error: no matching package named `serde_jsn` found'], counterExamples: ['error: no matching version `^9.0` found for package `serde`'] },
+  { pattern: /error: failed to select a version for (?:the requirement )?`(?<crate>[^`]+)`/i, title: 'Cargo: Version Conflict', category: 'Rust', explanation: "No version satisfies every requirement on this crate, or two crates link the same native library.", fix: "Run cargo tree -i to see who requires $<crate>, then align the version requirements or cargo update the lockfile.", severity: 'error', language: 'rust', examples: ['error: failed to select a version for the requirement `tokio = "^2.0"`', 'error: failed to select a version for `openssl-sys`.'], counterExamples: ['error: failed to download `tokio v1.37.0`'] },
+];
+
+export const rust: LanguagePack = {
+  name: 'rust',
+  label: 'Rust',
+  detect: DETECT,
+  continues: (line, previous) => /^\s/.test(line)
+    || /^\d+\s*\||^(?:= |note: |help: |stack backtrace:|error: aborting due to|For more information about this error)/.test(line)
+    // Since Rust 1.73 the panic message follows its location line
+    || /panicked at .*:\d+:\d+:$/.test(previous),
+  entries,
+  parseStack,
+};
@@ -0,0 +1,232 @@
+import { type ErrorEntry } from './database.js';
+
+// ── Indexed Matching ──
+//
+// Testing every regex on every line gets slow on large logs. Instead, each
+// pattern contributes one literal anchor that every match must contain
+// (`TS2339: Property '`, `npm ERR! code E404`). A single Aho-Corasick pass
+// over a line finds which anchors it contains, and only entries whose
+// anchor was found are tested. Entries without a usable anchor are always
+// tested, so the results are the same as testing everything.
+
+/** Anchors shorter than this filter too little to be worth indexing. */
+const MIN_ANCHOR_LENGTH = 3;
+
+/** Anchors are ASCII, so the automaton needs only this many transitions per state. */
+const ALPHABET = 128;
+
+/** Number of lines a pattern spans, from the literal `\n`s in its source. */
+export function patternLineSpan(pattern: RegExp): number {
+  return (pattern.source.match(/\\n/g) || []).length + 1;
+}
+
+/** Escapes other than these stand for the character itself (`\.`, `\(`, `\/`). */
+const CLASS_ESCAPES = 'dDwWsSbBnrtfv0123456789cxukpP';
+
+/**
+ * Literal runs every match of `pattern` must contain, lowercased. Runs stop
+ * at anything that isn't a plain character: groups, classes, wildcards,
+ * quantified characters, line breaks and non-ASCII text. A pattern with a
+ * top-level `|` has no required runs.
+ */
+export function literalRuns(pattern: RegExp): string[] {
+  const src = pattern.source;
+  const runs: string[] = [];
+  let run = '';
+  let depth = 0;
+
+  const end = (): void => {
+    if (run) runs.push(run.toLowerCase());
+    run = '';
+  };
+  const quantifierAt = (i: number): RegExpMatchArray | null => src.slice(i).match(/^(?:[?*+]|\{(\d+)(?:,\d*)?\})\??/);
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    let literal: string | null = null;
+
+    if (ch === '\\') {
+      const next = src[++i];
+      if (next === undefined) break;
+      if (!CLASS_ESCAPES.includes(next)) {
+        literal = next;
+      } else {
+        // Skip the escape's operand: \x41, \u0041, \u{41}, \p{L}, \k<name>, \cJ, \12
+        const operand = next === 'x' ? /^[0-9a-fA-F]{2}/
+          : next === 'u' ? /^(?:\{[^}]*\}|[0-9a-fA-F]{4})/
+            : next === 'p' || next === 'P' ? /^\{[^}]*\}/
+              : next === 'k' ? /^<[^>]*>/
+                : next === 'c' ? /^[A-Za-z]/
+                  : /\d/.test(next) ? /^\d+/ : null;
+        const skipped = operand && src.slice(i + 1).match(operand);
+        if (skipped) i += skipped[0].length;
+      }
+    } else if (ch === '[') {
+      for (i++; i < src.length && src[i] !== ']'; i++) if (src[i] === '\\') i++;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+    } else if (ch === '|') {
+      if (depth === 0) return [];
+    } else if (ch === '{' && quantifierAt(i)) {
+      i += quantifierAt(i)![0].length - 1;
+    } else if (!'.^$?*+'.includes(ch)) {
+      literal = ch;
+    }
+
+    if (depth > 0 || literal === null || literal.charCodeAt(0) >= ALPHABET) {
+      // A quantifier after a group or class belongs to it, not to the next run
+      end();
+      continue;
+    }
+
+    const q = quantifierAt(i + 1);
+    if (q && (q[0][0] === '?' || q[0][0] === '*' || q[1] === '0')) {
+      // Optional: the character may be absent
+      end();
+    } else if (q) {
+      // Repeated: required once, but what follows isn't adjacent to it
+      run += literal;
+      end();
+    } else {
+      run += literal;
+    }
+    if (q) i += q[0].length;
+  }
+  end();
+  return runs;
+}
+
+/** The anchor indexed for a pattern, or null if it must always be tested. */
+export function patternAnchor(pattern: RegExp): string | null {
+  // Under /iu, `ſ` and `K` match `s` and `k`, which ASCII folding can't see
+  if (pattern.flags.includes('i') && /[uv]/.test(pattern.flags)) return null;
+  const longest = literalRuns(pattern).reduce((best, run) => (run.length > best.length ? run : best), '');
+  return longest.length >= MIN_ANCHOR_LENGTH ? longest : null;
+}
+
+/** Multi-pattern substring search over ASCII-folded text (Aho-Corasick, as a DFA). */
+class AnchorAutomaton {
+  private next: Int32Array;
+  private outputs: number[][];
+
+  constructor(anchors: string[]) {
+    const trie: number[][] = [new Array(ALPHABET).fill(-1)];
+    const outputs: number[][] = [[]];
+    anchors.forEach((anchor, id) => {
+      let state = 0;
+      for (let i = 0; i < anchor.length; i++) {
+        const code = anchor.charCodeAt(i);
+        if (trie[state][code] === -1) {
+          trie[state][code] = trie.length;
+          trie.push(new Array(ALPHABET).fill(-1));
+          outputs.push([]);
+        }
+        state = trie[state][code];
+      }
+      outputs[state].push(id);
+    });
+
+    // Breadth-first: fill missing transitions from the failure state
+    this.next = new Int32Array(trie.length * ALPHABET);
+    const fail = new Int32Array(trie.length);
+    const queue: number[] = [];
+    for (let code = 0; code < ALPHABET; code++) {
+      const child = trie[0][code];
+      this.next[code] = child === -1 ? 0 : child;
+      if (child !== -1) queue.push(child);
+    }
+    for (let head = 0; head < queue.length; head++) {
+      const state = queue[head];
+      outputs[state].push(...outputs[fail[state]]);
+      for (let code = 0; code < ALPHABET; code++) {
+        const child = trie[state][code];
+        const viaFail = this.next[fail[state] * ALPHABET + code];
+        if (child === -1) {
+          this.next[state * ALPHABET + code] = viaFail;
+        } else {
+          this.next[state * ALPHABET + code] = child;
+          fail[child] = viaFail;
+          queue.push(child);
+        }
+      }
+    }
+    this.outputs = outputs;
+  }
+
+  /** Ids of the anchors found in `text`, each at most once. */
+  scan(text: string): number[] {
+    const found: number[] = [];
+    let state = 0;
+    for (let i = 0; i < text.length; i++) {
+      let code = text.charCodeAt(i);
+      if (code >= ALPHABET) {
+        state = 0;
+        continue;
+      }
+      if (code >= 65 && code <= 90) code += 32;
+      state = this.next[state * ALPHABET + code];
+      const out = this.outputs[state];
+      for (let k = 0; k < out.length; k++) {
+        if (!found.includes(out[k])) found.push(out[k]);
+      }
+    }
+    return found;
+  }
+}
+
+/**
+ * Which database entries could match a line. Entries are returned by
+ * index, in database order, so callers see matches in the same order as a
+ * full scan.
+ */
+export class PatternIndex {
+  private automaton: AnchorAutomaton;
+  /** Entry indexes per anchor id. */
+  private byAnchor: number[][] = [];
+  private unanchored: number[] = [];
+  readonly spans: number[];
+
+  constructor(db: readonly ErrorEntry[]) {
+    const ids = new Map<string, number>();
+    this.spans = db.map(e => patternLineSpan(e.pattern));
+    db.forEach((entry, index) => {
+      const anchor = patternAnchor(entry.pattern);
+      if (anchor === null) {
+        this.unanchored.push(index);
+        return;
+      }
+      let id = ids.get(anchor);
+      if (id === undefined) {
+        id = ids.size;
+        ids.set(anchor, id);
+        this.byAnchor.push([]);
+      }
+      this.byAnchor[id].push(index);
+    });
+    this.automaton = new AnchorAutomaton(Array.from(ids.keys()));
+  }
+
+  /** Anchor ids found in a line; pass the result to `candidates`. */
+  scan(line: string): number[] {
+    return this.automaton.scan(line);
+  }
+
+  /**
+   * Entries worth testing against the newest line, given the anchor hits of
+   * recent lines (oldest first, newest last). A multi-line entry qualifies
+   * when its anchor is on any line its window covers.
+   */
+  candidates(recentHits: number[][]): number[] {
+    const out = [...this.unanchored];
+    for (let back = 0; back < recentHits.length; back++) {
+      for (const id of recentHits[recentHits.length - 1 - back]) {
+        for (const index of this.byAnchor[id]) {
+          if (this.spans[index] > back) out.push(index);
+        }
+      }
+    }
+    return Array.from(new Set(out)).sort((a, b) => a - b);
+  }
+}
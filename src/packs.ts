@@ -0,0 +1,403 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { createRequire } from 'node:module';
+import { ERROR_DB, BUILTIN_SOURCE, ENTRY_SCHEMA_VERSION, type DocLink, type ErrorEntry, type FixInstruction, type VariableSpec } from './database.js';
+import { findKnowledgeBase, knowledgePackDoc, loadKnowledgeBase } from './knowledge.js';
+import { LANGUAGE_PACKS } from './languages/index.js';
+import { CONDITION_KEYS, type FixAlternative } from './probe.js';
+
+// ── Pattern Packs ──
+//
+// A pack is a JSON document (or an npm package exporting one) with custom
+// entries in the same shape as ERROR_DB, except that `pattern` is a string:
+//
+//   {
+//     "name": "acme-orm",
+//     "schemaVersion": 2,
+//     "patterns": [
+//       { "pattern": "AcmeORM: relation \"(?<table>\\w+)\" missing", "flags": "i",
+//         "title": "Missing Relation", "category": "Database",
+//         "explanation": "...", "fix": "Run migrations for $<table>.",
+//         "severity": "error", "priority": 10 }
+//     ]
+//   }
+//
+// `schemaVersion` defaults to 1, which predates `steps`, `docs` and
+// `variables`; packs using them declare 2.
+//
+// Project config (.ai-error.json or the "ai-error" key in package.json) may
+// also list npm packs to load under "packs". Fixes learned into the knowledge
+// base (knowledge.ts) load as one more pack, ahead of the rest.
+
+export interface PackEntry {
+  pattern: string;
+  flags?: string;
+  title: string;
+  category: string;
+  explanation: string;
+  fix: string;
+  autoFixCmd?: string;
+  autoFixCmdByPlatform?: ErrorEntry['autoFixCmdByPlatform'];
+  severity: ErrorEntry['severity'];
+  priority?: number;
+  /** Title of a built-in (or earlier) entry this one replaces. */
+  overrides?: string;
+  examples?: string[];
+  counterExamples?: string[];
+  /** Language pack name ('python', 'go', 'rust', 'java'); the entry only matches in that language's blocks. */
+  language?: string;
+  alternatives?: FixAlternative[];
+  steps?: FixInstruction[];
+  docs?: DocLink[];
+  /** As in ErrorEntry, with `match` as a regex source string. */
+  variables?: Record<string, Omit<VariableSpec, 'match'> & { match?: string }>;
+}
+
+export interface PatternPack {
+  name: string;
+  /** Where the pack was read from: a file path or `npm:<package>`. */
+  origin: string;
+  entries: ErrorEntry[];
+}
+
+export interface LoadPacksOptions {
+  cwd?: string;
+  /** npm package names to load in addition to those named in config. */
+  packages?: string[];
+  /** Skip project and user config files and the knowledge base. */
+  noConfig?: boolean;
+  /** Override the user-level config path (defaults to ~/.ai-error.json). */
+  userConfig?: string;
+  /**
+   * Load npm packages listed under "packs" in the project config. Off by
+   * default: loading a package runs its code, so a cloned repository could
+   * otherwise run code just by being diagnosed.
+   */
+  allowProjectPacks?: boolean;
+  /** Called with the project config's "packs" when they are not loaded. */
+  onIgnoredPackages?: (origin: string, names: string[]) => void;
+}
+
+export class PackError extends Error {
+  constructor(public origin: string, message: string) {
+    super(`${origin}: ${message}`);
+    this.name = 'PackError';
+  }
+}
+
+const SEVERITIES = ['error', 'warning', 'info'];
+const TRANSFORMS = ['lower', 'upper', 'basename', 'package', 'types'];
+/** Entry fields added in each schema version after the first. */
+const VERSIONED_FIELDS: Record<string, number> = { steps: 2, docs: 2, variables: 2 };
+const REQUIRED_STRINGS = ['pattern', 'title', 'category', 'explanation', 'fix'] as const;
+
+export const PROJECT_CONFIG_FILE = '.ai-error.json';
+export const PACKAGE_JSON_KEY = 'ai-error';
+
+function checkSteps(list: unknown, where: string, origin: string): void {
+  if (!Array.isArray(list)) throw new PackError(origin, `${where} must be an array`);
+  list.forEach((step, i) => {
+    if (!step || typeof step !== 'object' || typeof step.text !== 'string' || !step.text.length) {
+      throw new PackError(origin, `${where}[${i}] must be an object with a non-empty "text"`);
+    }
+    for (const key of ['code', 'lang'] as const) {
+      if (step[key] !== undefined && typeof step[key] !== 'string') throw new PackError(origin, `${where}[${i}].${key} must be a string`);
+    }
+  });
+}
+
+function checkDocs(list: unknown, where: string, origin: string): void {
+  if (!Array.isArray(list) || list.some(d => !d || typeof d.title !== 'string' || typeof d.url !== 'string')) {
+    throw new PackError(origin, `${where} must be an array of { "title", "url" } objects`);
+  }
+}
+
+function compileVariables(raw: unknown, where: string, origin: string): Record<string, VariableSpec> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new PackError(origin, `${where} must be an object`);
+  const variables: Record<string, VariableSpec> = {};
+  for (const [name, v] of Object.entries(raw as Record<string, Record<string, unknown>>)) {
+    const at = `${where}.${name}`;
+    if (!/^[A-Za-z_]\w*$/.test(name)) throw new PackError(origin, `${at}: variable names are letters, digits and _`);
+    if (!v || typeof v !== 'object' || (typeof v.from !== 'string' && !(typeof v.from === 'number' && Number.isInteger(v.from) && v.from > 0))) {
+      throw new PackError(origin, `${at}.from must be a capture group number or name`);
+    }
+    if (v.transform !== undefined && !TRANSFORMS.includes(v.transform as string)) {
+      throw new PackError(origin, `${at}.transform must be one of ${TRANSFORMS.join(', ')}`);
+    }
+    for (const key of ['match', 'default'] as const) {
+      if (v[key] !== undefined && typeof v[key] !== 'string') throw new PackError(origin, `${at}.${key} must be a string`);
+    }
+    let match: RegExp | undefined;
+    try {
+      match = v.match === undefined ? undefined : new RegExp(v.match as string);
+    } catch (err) {
+      throw new PackError(origin, `${at}.match is not a valid regex: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    variables[name] = {
+      from: v.from,
+      ...(match ? { match } : {}),
+      ...(v.transform !== undefined ? { transform: v.transform as VariableSpec['transform'] } : {}),
+      ...(v.default !== undefined ? { default: v.default as string } : {}),
+    };
+  }
+  return variables;
+}
+
+function checkAlternatives(list: unknown, where: string, origin: string): void {
+  if (!Array.isArray(list)) throw new PackError(origin, `${where} must be an array`);
+  list.forEach((alt, i) => {
+    const at = `${where}[${i}]`;
+    if (!alt || typeof alt !== 'object' || !alt.when || typeof alt.when !== 'object' || Array.isArray(alt.when)) {
+      throw new PackError(origin, `${at} must be an object with a "when" condition`);
+    }
+    const unknown = Object.keys(alt.when).find(k => !(CONDITION_KEYS as readonly string[]).includes(k));
+    if (unknown) {
+      throw new PackError(origin, `${at}.when.${unknown} is not a known fact (expected ${CONDITION_KEYS.join(', ')})`);
+    }
+    for (const key of ['explanation', 'fix'] as const) {
+      if (alt[key] !== undefined && typeof alt[key] !== 'string') throw new PackError(origin, `${at}.${key} must be a string`);
+    }
+    if (alt.autoFixCmd !== undefined && alt.autoFixCmd !== null && typeof alt.autoFixCmd !== 'string') {
+      throw new PackError(origin, `${at}.autoFixCmd must be a string or null`);
+    }
+    if (alt.steps !== undefined) checkSteps(alt.steps, `${at}.steps`, origin);
+  });
+}
+
+function compileEntry(raw: unknown, index: number, packName: string, origin: string, schemaVersion: number): ErrorEntry {
+  const where = `patterns[${index}]`;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new PackError(origin, `${where} must be an object`);
+  }
+  const e = raw as Record<string, unknown>;
+
+  for (const [key, since] of Object.entries(VERSIONED_FIELDS)) {
+    if (e[key] !== undefined && schemaVersion < since) {
+      throw new PackError(origin, `${where}.${key} needs "schemaVersion": ${since} (the pack is version ${schemaVersion})`);
+    }
+  }
+
+  for (const key of REQUIRED_STRINGS) {
+    if (typeof e[key] !== 'string' || !(e[key] as string).length) {
+      throw new PackError(origin, `${where}.${key} must be a non-empty string`);
+    }
+  }
+  if (!SEVERITIES.includes(e.severity as string)) {
+    throw new PackError(origin, `${where}.severity must be one of ${SEVERITIES.join(', ')} (got ${JSON.stringify(e.severity)})`);
+  }
+  for (const key of ['flags', 'autoFixCmd', 'overrides'] as const) {
+    if (e[key] !== undefined && typeof e[key] !== 'string') {
+      throw new PackError(origin, `${where}.${key} must be a string`);
+    }
+  }
+  const variants = e.autoFixCmdByPlatform;
+  if (variants !== undefined && (!variants || typeof variants !== 'object' || Array.isArray(variants)
+    || Object.values(variants).some(v => v !== null && typeof v !== 'string'))) {
+    throw new PackError(origin, `${where}.autoFixCmdByPlatform must map platform names to a command string or null`);
+  }
+  if (e.priority !== undefined && (typeof e.priority !== 'number' || !Number.isFinite(e.priority))) {
+    throw new PackError(origin, `${where}.priority must be a finite number`);
+  }
+  for (const key of ['examples', 'counterExamples'] as const) {
+    const list = e[key];
+    if (list !== undefined && (!Array.isArray(list) || list.some(x => typeof x !== 'string'))) {
+      throw new PackError(origin, `${where}.${key} must be an array of strings`);
+    }
+  }
+  if (e.alternatives !== undefined) checkAlternatives(e.alternatives, `${where}.alternatives`, origin);
+  if (e.steps !== undefined) checkSteps(e.steps, `${where}.steps`, origin);
+  if (e.docs !== undefined) checkDocs(e.docs, `${where}.docs`, origin);
+  const variables = e.variables === undefined ? undefined : compileVariables(e.variables, `${where}.variables`, origin);
+  const languages = LANGUAGE_PACKS.map(p => p.name);
+  if (e.language !== undefined && !languages.includes(e.language as string)) {
+    throw new PackError(origin, `${where}.language must be one of ${languages.join(', ')} (got ${JSON.stringify(e.language)})`);
+  }
+
+  const entry = e as unknown as PackEntry;
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(entry.pattern, entry.flags ?? 'i');
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new PackError(origin, `${where} ("${entry.title}") has an invalid regex /${entry.pattern}/${entry.flags ?? 'i'}: ${reason}`);
+  }
+
+  return {
+    pattern,
+    title: entry.title,
+    category: entry.category,
+    explanation: entry.explanation,
+    fix: entry.fix,
+    steps: entry.steps,
+    docs: entry.docs,
+    variables,
+    autoFixCmd: entry.autoFixCmd,
+    autoFixCmdByPlatform: entry.autoFixCmdByPlatform,
+    severity: entry.severity,
+    priority: entry.priority ?? 0,
+    overrides: entry.overrides,
+    source: packName,
+    examples: entry.examples,
+    counterExamples: entry.counterExamples,
+    language: entry.language,
+    alternatives: entry.alternatives,
+  };
+}
+
+/** Validate a parsed pack document and compile its patterns. */
+export function compilePack(doc: unknown, origin: string, fallbackName: string): PatternPack {
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) {
+    throw new PackError(origin, 'pack must be a JSON object');
+  }
+  const d = doc as Record<string, unknown>;
+  if (d.name !== undefined && typeof d.name !== 'string') {
+    throw new PackError(origin, '"name" must be a string');
+  }
+  const patterns = d.patterns ?? [];
+  if (!Array.isArray(patterns)) {
+    throw new PackError(origin, '"patterns" must be an array');
+  }
+  const version = d.schemaVersion ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new PackError(origin, '"schemaVersion" must be a positive integer');
+  }
+  if (version > ENTRY_SCHEMA_VERSION) {
+    throw new PackError(origin, `pack is schemaVersion ${version}, but this version of ai-error reads up to ${ENTRY_SCHEMA_VERSION}; upgrade ai-error`);
+  }
+  const name = (d.name as string | undefined) || fallbackName;
+  return {
+    name,
+    origin,
+    entries: patterns.map((p, i) => compileEntry(p, i, name, origin, version)),
+  };
+}
+
+/** Parse a JSON config or pack file, as a PackError when it can't be read. */
+export function readJson(file: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new PackError(file, `could not read JSON: ${reason}`);
+  }
+}
+
+/** Load a pack from a JSON file, named after the file unless it sets "name". */
+export function loadPackFile(file: string): PatternPack {
+  return compilePack(readJson(file), file, path.basename(file, path.extname(file)));
+}
+
+/** Walk up from `cwd` to the first .ai-error.json or package.json with an "ai-error" key. */
+export function findProjectConfig(cwd: string): { file: string; doc: unknown } | null {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    const configFile = path.join(dir, PROJECT_CONFIG_FILE);
+    if (fs.existsSync(configFile)) {
+      return { file: configFile, doc: readJson(configFile) };
+    }
+    const pkgFile = path.join(dir, 'package.json');
+    if (fs.existsSync(pkgFile)) {
+      const pkg = readJson(pkgFile) as Record<string, unknown>;
+      if (pkg && typeof pkg === 'object' && PACKAGE_JSON_KEY in pkg) {
+        return { file: `${pkgFile}#${PACKAGE_JSON_KEY}`, doc: pkg[PACKAGE_JSON_KEY] };
+      }
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+function packageNames(doc: unknown, origin: string): string[] {
+  const packs = (doc as Record<string, unknown>).packs;
+  if (packs === undefined) return [];
+  if (!Array.isArray(packs) || packs.some(p => typeof p !== 'string')) {
+    throw new PackError(origin, '"packs" must be an array of package names');
+  }
+  return packs as string[];
+}
+
+function loadNpmPack(name: string, cwd: string): PatternPack {
+  const origin = `npm:${name}`;
+  const req = createRequire(path.join(path.resolve(cwd), 'noop.js'));
+  let mod: unknown;
+  try {
+    mod = req(name);
+  } catch (err) {
+    const reason = err instanceof Error ? err.message.split('\n')[0] : String(err);
+    throw new PackError(origin, `could not load package: ${reason}`);
+  }
+  const doc = mod && typeof mod === 'object' && 'default' in mod ? (mod as { default: unknown }).default : mod;
+  return compilePack(doc, origin, name);
+}
+
+/**
+ * Load every configured pack, highest precedence first: learned fixes,
+ * project config, packages named on the command line or in config, user config.
+ * Packages named in the project config only load with `allowProjectPacks`.
+ */
+export function loadPatternPacks(options: LoadPacksOptions = {}): PatternPack[] {
+  const cwd = options.cwd ?? process.cwd();
+  const userFile = path.resolve(options.userConfig ?? path.join(os.homedir(), PROJECT_CONFIG_FILE));
+  const packs: PatternPack[] = [];
+  const npmNames: string[] = [...(options.packages ?? [])];
+  let userPack: PatternPack | null = null;
+
+  if (!options.noConfig) {
+    const project = findProjectConfig(cwd);
+    if (project) {
+      packs.push(compilePack(project.doc, project.file, 'project'));
+      const names = packageNames(project.doc, project.file);
+      // Walking up from a directory under home can find the user config itself
+      if (options.allowProjectPacks || project.file === userFile) npmNames.push(...names);
+      else if (names.length) options.onIgnoredPackages?.(project.file, names);
+    }
+    if (project?.file !== userFile && fs.existsSync(userFile)) {
+      const doc = readJson(userFile);
+      userPack = compilePack(doc, userFile, 'user');
+      npmNames.push(...packageNames(doc, userFile));
+    }
+  }
+
+  for (const name of new Set(npmNames)) {
+    packs.push(loadNpmPack(name, cwd));
+  }
+
+  if (!options.noConfig) {
+    if (userPack) packs.push(userPack);
+
+    const knowledgeFile = findKnowledgeBase(cwd);
+    const learned = knowledgeFile ? knowledgePackDoc(loadKnowledgeBase(knowledgeFile)) : null;
+    if (learned?.patterns.length) packs.unshift(compilePack(learned, knowledgeFile!, learned.name));
+  }
+
+  return packs;
+}
+
+/**
+ * Merge packs with the built-in database. Entries are ordered by priority
+ * (highest first); at equal priority, pack entries come before built-ins in
+ * pack precedence order. An entry with `overrides` removes every lower
+ * precedence entry with that title.
+ */
+export function buildDatabase(packs: PatternPack[], builtins: readonly ErrorEntry[] = ERROR_DB): ErrorEntry[] {
+  const ordered: ErrorEntry[] = [...packs.flatMap(p => p.entries), ...builtins];
+  const overridden = new Set<string>();
+  const kept: ErrorEntry[] = [];
+
+  for (const entry of ordered) {
+    if (overridden.has(entry.title)) continue;
+    if (entry.overrides) overridden.add(entry.overrides);
+    kept.push(entry);
+  }
+
+  return kept
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => (b.entry.priority ?? 0) - (a.entry.priority ?? 0) || a.index - b.index)
+    .map(({ entry }) => entry);
+}
+
+export function entrySource(entry: ErrorEntry): string {
+  return entry.source ?? BUILTIN_SOURCE;
+}
@@ -0,0 +1,147 @@
+// ── CI Log Preprocessing ──
+//
+// CI output wraps the lines patterns are written against: ANSI colors,
+// GitHub Actions timestamps and `##[group]` markers, GitLab section markers,
+// and the `pkg:task: ` prefixes Turborepo, Nx and `pnpm -r` put in front of
+// each workspace's output. Every line is cleaned before it is matched, and
+// the package and task that printed it are kept as its segment.
+
+export interface LogSegment {
+  /** Workspace package name, or its directory for `pnpm -r`. */
+  package: string | null;
+  /** Script or target, e.g. 'build'. */
+  task: string | null;
+  /** Enclosing CI group: a GitHub Actions step or GitLab section. */
+  group: string | null;
+}
+
+export interface LogLine {
+  /** The line without CI formatting, indentation kept. */
+  text: string;
+  segment: LogSegment | null;
+}
+
+const ANSI = /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+/** GitHub Actions (`2026-10-19T09:00:00.0000000Z `) and GitLab (`... 00O+ `) timestamps. */
+const TIMESTAMP = /^\uFEFF?\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2}) (?:\d{2}[OE]\+? )?/;
+
+/** `##[group]Run pnpm build`, `::endgroup::`, `##[error]message`. */
+const GITHUB_COMMAND = /^(?:##\[(\w+)\]|::(\w+)(?: [^:]*)?::)(.*)$/;
+
+const GITLAB_SECTION = /^section_(start|end):\d+:([\w.-]+)(?:\[[^\]]*\])?\r?/;
+
+/** Turborepo and Nx: `@app/web:build: `, `web:test:unit: `. */
+const TASK_PREFIX = /^((?:@[\w.-]+\/)?[\w.-]+):([A-Za-z][\w.-]*(?::[A-Za-z][\w.-]*)*?):(?: |$)/;
+
+/** `pnpm -r`: `packages/web build: ` on output, `packages/web build$ tsc` on the command. */
+const PNPM_PREFIX = /^((?:\.{1,2}\/)?[\w@.-]+(?:\/[\w@.-]+)+) ([A-Za-z][\w:.-]*)[$:](?: |$)/;
+
+/** Headers that start a package's output: `> nx run web:build`, npm's `> @app/web@1.0.0 build`. */
+const SECTION_HEADERS = [
+  /^> nx run ((?:@[\w.-]+\/)?[\w.-]+):([\w.-]+(?::[\w.-]+)*)/,
+  /^> ((?:@[\w.-]+\/)?[\w.-]+)@\S+ ([\w:.-]+)(?: |$)/,
+];
+
+/** Text with ANSI escape sequences removed. */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI, '');
+}
+
+/** `@app/web:build`, or the group name for output outside any package. */
+export function segmentLabel(segment: LogSegment): string {
+  if (segment.package) return segment.task ? `${segment.package}:${segment.task}` : segment.package;
+  return segment.group ?? segment.task ?? '';
+}
+
+function taskPrefix(text: string): RegExpMatchArray | null {
+  const slash = text.indexOf('/');
+  // pnpm's prefix is a directory, so it has a slash before the first space
+  return text.match(TASK_PREFIX) ?? (slash > 0 && text.indexOf(' ') > slash ? text.match(PNPM_PREFIX) : null);
+}
+
+function packageTask(text: string): { package: string; task: string } | null {
+  const m = taskPrefix(text);
+  return m ? { package: m[1], task: m[2] } : null;
+}
+
+/**
+ * Cleans lines one at a time, remembering the group and package header
+ * they are under. A line's own `pkg:task: ` prefix wins over the header.
+ * Marker lines become blank, so line numbers stay those of the input.
+ */
+export class LogPreprocessor {
+  private group: string | null = null;
+  private section: { package: string; task: string } | null = null;
+  private segments = new Map<string, LogSegment>();
+  private last: LogSegment | null = null;
+
+  push(rawLine: string): LogLine {
+    // Cheap first-character checks keep plain lines off the slower paths
+    let text = rawLine.includes('\x1b') ? stripAnsi(rawLine) : rawLine;
+    if (/^[\d\uFEFF]/.test(text)) text = text.replace(TIMESTAMP, '');
+
+    const section = text.startsWith('section_') ? text.match(GITLAB_SECTION) : null;
+    if (section) {
+      this.startGroup(section[1] === 'start' ? section[2] : null);
+      text = text.slice(section[0].length);
+    }
+    // Progress bars redraw with `\r`; only the last state was visible
+    while (text.endsWith('\r')) text = text.slice(0, -1);
+    if (text.includes('\r')) text = text.slice(text.lastIndexOf('\r') + 1);
+
+    const command = text.startsWith('##[') || text.startsWith('::') ? text.match(GITHUB_COMMAND) : null;
+    if (command) {
+      const name = command[1] ?? command[2];
+      if (name === 'group') {
+        this.startGroup(command[3].trim() || null);
+        text = '';
+      } else if (name === 'endgroup') {
+        this.startGroup(null);
+        text = '';
+      } else {
+        text = command[3];
+      }
+    }
+
+    const header = text.startsWith('> ') ? SECTION_HEADERS.map(re => text.match(re)).find(Boolean) : null;
+    if (header) this.section = { package: header[1], task: header[2] };
+
+    const prefix = taskPrefix(text);
+    if (prefix) text = text.slice(prefix[0].length);
+    const owner = prefix ? { package: prefix[1], task: prefix[2] } : this.section;
+    return { text, segment: this.segment(owner?.package ?? null, owner?.task ?? null, this.group) };
+  }
+
+  /** A group named like a task (Turborepo's `::group::@app/web:build`) is that package's output. */
+  private startGroup(name: string | null): void {
+    const owner = name ? packageTask(`${name}: `) : null;
+    this.section = owner;
+    this.group = owner ? null : name;
+  }
+
+  /** One object per distinct segment, so segments compare by identity. */
+  private segment(pkg: string | null, task: string | null, group: string | null): LogSegment | null {
+    if (pkg === null && task === null && group === null) return null;
+    const last = this.last;
+    if (last && last.package === pkg && last.task === task && last.group === group) return last;
+    const key = `${pkg}\0${task}\0${group}`;
+    let segment = this.segments.get(key);
+    if (!segment) {
+      segment = { package: pkg, task, group };
+      this.segments.set(key, segment);
+    }
+    return this.last = segment;
+  }
+}
+
+/** Every line of the input, cleaned and with its segment. */
+export function preprocessLog(input: string): LogLine[] {
+  const preprocessor = new LogPreprocessor();
+  return input.split('\n').map(line => preprocessor.push(line));
+}
+
+/** The input without CI formatting, for the stack parser and everything else that reads it whole. */
+export function cleanLog(input: string): string {
+  return preprocessLog(input).map(l => l.text).join('\n');
+}
@@ -0,0 +1,275 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createRequire } from 'node:module';
+import { type ErrorEntry, type FixInstruction } from './database.js';
+
+// ── Project Probe ──
+//
+// Reads what a fix depends on from the project on disk: package.json, the
+// lockfile, tsconfig.json, the Node version and the OS. Nothing runs and
+// nothing is written. Entries declare `alternatives` whose conditions are
+// checked against these facts, and auto-fix commands use the project's
+// package manager.
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+export interface ProjectFacts {
+  /** Directory of the nearest package.json, else the probed directory. */
+  root: string;
+  packageJson: Record<string, unknown> | null;
+  /** package.json "type"; null without a package.json. */
+  packageType: 'module' | 'commonjs' | null;
+  /** From the lockfile, else from the "packageManager" field. */
+  packageManager: PackageManager | null;
+  /** Lockfiles in the directory closest to the project that has any, as absolute paths. */
+  lockfiles: string[];
+  /** The "packageManager" field, e.g. `pnpm@9.1.0`. */
+  declaredPackageManager: string | null;
+  /** pnpm-workspace.yaml or a "workspaces" field next to the lockfile. */
+  workspace: boolean;
+  /** Nearest tsconfig.json up to the project root, with `extends` merged. */
+  tsconfig: { file: string; compilerOptions: Record<string, unknown> } | null;
+  /** Version of the Node running ai-error. */
+  nodeVersion: string;
+  nodeMajor: number;
+  /** .nvmrc or .node-version. */
+  pinnedNode: { file: string; version: string } | null;
+  /** package.json "engines.node". */
+  engines: string | null;
+  platform: NodeJS.Platform;
+}
+
+/**
+ * Facts an alternative applies to. Every named fact must be known and match;
+ * list values match any of their items.
+ */
+export interface FactCondition {
+  packageType?: 'module' | 'commonjs';
+  packageManager?: PackageManager | PackageManager[];
+  workspace?: boolean;
+  /** Inclusive bounds on the Node major version. */
+  nodeMajor?: { min?: number; max?: number };
+  /** Whether the project has a tsconfig.json. */
+  tsconfig?: boolean;
+  /** tsconfig compilerOptions values; strings compare case-insensitively. */
+  compilerOptions?: Record<string, string | boolean | (string | boolean)[]>;
+  platform?: NodeJS.Platform | NodeJS.Platform[];
+}
+
+export const CONDITION_KEYS = ['packageType', 'packageManager', 'workspace', 'nodeMajor', 'tsconfig', 'compilerOptions', 'platform'] as const;
+
+/** An explanation, fix or command that replaces the entry's own when its condition holds. */
+export interface FixAlternative {
+  when: FactCondition;
+  explanation?: string;
+  /** Replaces the fix and, with it, the entry's steps. */
+  fix?: string;
+  steps?: FixInstruction[];
+  /** Replaces autoFixCmd and autoFixCmdByPlatform; null means no command. */
+  autoFixCmd?: string | null;
+}
+
+const LOCKFILES: Record<string, PackageManager> = {
+  'package-lock.json': 'npm',
+  'npm-shrinkwrap.json': 'npm',
+  'pnpm-lock.yaml': 'pnpm',
+  'yarn.lock': 'yarn',
+  'bun.lock': 'bun',
+  'bun.lockb': 'bun',
+};
+
+/** Most `extends` hops followed in a tsconfig chain. */
+const MAX_EXTENDS = 8;
+
+function readJsonFile(file: string): Record<string, unknown> | null {
+  try {
+    const doc = JSON.parse(stripJsonComments(fs.readFileSync(file, 'utf8')));
+    return doc && typeof doc === 'object' && !Array.isArray(doc) ? doc : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Strings, comments, and commas followed only by whitespace or comments before a closing bracket. */
+const JSONC_TOKENS = /"(?:[^"\\]|\\.)*"|\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|,(?=(?:\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*[}\]])/g;
+
+/** tsconfig files are JSON with comments and trailing commas. Strings are left alone. */
+export function stripJsonComments(text: string): string {
+  return text.replace(JSONC_TOKENS, token => (token.startsWith('"') ? token : ''));
+}
+
+function findUp(start: string, names: string[], stop?: string): string | null {
+  let dir = start;
+  for (;;) {
+    for (const name of names) {
+      if (fs.existsSync(path.join(dir, name))) return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir || dir === stop) return null;
+    dir = parent;
+  }
+}
+
+function resolveExtends(ref: string, fromDir: string): string | null {
+  if (ref.startsWith('.') || path.isAbsolute(ref)) {
+    const file = path.resolve(fromDir, ref);
+    return fs.existsSync(file) ? file : fs.existsSync(`${file}.json`) ? `${file}.json` : null;
+  }
+  const req = createRequire(path.join(fromDir, 'noop.js'));
+  for (const candidate of [ref, `${ref}/tsconfig.json`, `${ref}.json`]) {
+    try {
+      return req.resolve(candidate);
+    } catch {
+      // Try the next form
+    }
+  }
+  return null;
+}
+
+function readTsconfig(file: string, depth = 0): Record<string, unknown> {
+  const doc = readJsonFile(file);
+  if (!doc) return {};
+  const own = (doc.compilerOptions && typeof doc.compilerOptions === 'object' ? doc.compilerOptions : {}) as Record<string, unknown>;
+  const bases = depth < MAX_EXTENDS ? [doc.extends].flat().filter((r): r is string => typeof r === 'string') : [];
+  const inherited = bases
+    .map(ref => resolveExtends(ref, path.dirname(file)))
+    .map(base => (base ? readTsconfig(base, depth + 1) : {}));
+  return Object.assign({}, ...inherited, own);
+}
+
+function packageManagerName(field: string | null): PackageManager | null {
+  const name = field?.split('@')[0];
+  return name === 'npm' || name === 'pnpm' || name === 'yarn' || name === 'bun' ? name : null;
+}
+
+/** Read the project facts for `cwd`. Missing or unreadable files leave their facts null. */
+export function probeProject(cwd: string = process.cwd()): ProjectFacts {
+  const start = path.resolve(cwd);
+  const pkgDir = findUp(start, ['package.json']);
+  const root = pkgDir ?? start;
+  const packageJson = pkgDir ? readJsonFile(path.join(pkgDir, 'package.json')) : null;
+
+  const lockDir = findUp(start, Object.keys(LOCKFILES));
+  const lockfiles = lockDir ? Object.keys(LOCKFILES).filter(f => fs.existsSync(path.join(lockDir, f))).map(f => path.join(lockDir, f)) : [];
+  const declaredPackageManager = typeof packageJson?.packageManager === 'string' ? packageJson.packageManager : null;
+  const lockRoot = lockDir ? readJsonFile(path.join(lockDir, 'package.json')) : null;
+
+  const tsDir = findUp(start, ['tsconfig.json'], root);
+  const tsFile = tsDir ? path.join(tsDir, 'tsconfig.json') : null;
+
+  const pinDir = findUp(start, ['.nvmrc', '.node-version']);
+  const pinFile = pinDir ? ['.nvmrc', '.node-version'].map(f => path.join(pinDir, f)).find(f => fs.existsSync(f))! : null;
+  const engines = (packageJson?.engines as Record<string, unknown> | undefined)?.node;
+
+  return {
+    root,
+    packageJson,
+    packageType: packageJson ? (packageJson.type === 'module' ? 'module' : 'commonjs') : null,
+    packageManager: lockfiles.length ? LOCKFILES[path.basename(lockfiles[0])] : packageManagerName(declaredPackageManager),
+    lockfiles,
+    declaredPackageManager,
+    workspace: lockDir !== null && (fs.existsSync(path.join(lockDir, 'pnpm-workspace.yaml')) || Array.isArray(lockRoot?.workspaces) || Array.isArray((lockRoot?.workspaces as Record<string, unknown> | undefined)?.packages)),
+    tsconfig: tsFile ? { file: tsFile, compilerOptions: readTsconfig(tsFile) } : null,
+    nodeVersion: process.versions.node,
+    nodeMajor: parseInt(process.versions.node),
+    pinnedNode: pinFile ? { file: pinFile, version: fs.readFileSync(pinFile, 'utf8').trim() } : null,
+    engines: typeof engines === 'string' ? engines : null,
+    platform: process.platform,
+  };
+}
+
+// ── Conditions ──
+
+function anyOf<T>(wanted: T | T[], actual: T): boolean {
+  return (Array.isArray(wanted) ? wanted : [wanted]).includes(actual);
+}
+
+function optionMatches(wanted: string | boolean | (string | boolean)[], actual: unknown): boolean {
+  const norm = (v: unknown): unknown => (typeof v === 'string' ? v.toLowerCase() : v);
+  return (Array.isArray(wanted) ? wanted : [wanted]).some(w => norm(w) === norm(actual));
+}
+
+export function conditionHolds(when: FactCondition, facts: ProjectFacts): boolean {
+  if (when.packageType !== undefined && facts.packageType !== when.packageType) return false;
+  if (when.packageManager !== undefined && (!facts.packageManager || !anyOf(when.packageManager, facts.packageManager))) return false;
+  if (when.workspace !== undefined && facts.workspace !== when.workspace) return false;
+  if (when.nodeMajor && ((when.nodeMajor.min ?? 0) > facts.nodeMajor || (when.nodeMajor.max ?? Infinity) < facts.nodeMajor)) return false;
+  if (when.tsconfig !== undefined && (facts.tsconfig !== null) !== when.tsconfig) return false;
+  if (when.compilerOptions) {
+    if (!facts.tsconfig) return false;
+    for (const [key, wanted] of Object.entries(when.compilerOptions)) {
+      if (!optionMatches(wanted, facts.tsconfig.compilerOptions[key])) return false;
+    }
+  }
+  if (when.platform !== undefined && !anyOf(when.platform, facts.platform)) return false;
+  return true;
+}
+
+// ── Package Manager Commands ──
+
+const COMMANDS: Record<Exclude<PackageManager, 'npm'>, { install: string; add: string; globalAdd: string; remove: string; run: string; ci: string }> = {
+  pnpm: { install: 'pnpm install', add: 'pnpm add', globalAdd: 'pnpm add -g', remove: 'pnpm remove', run: 'pnpm run', ci: 'pnpm install --frozen-lockfile' },
+  yarn: { install: 'yarn install', add: 'yarn add', globalAdd: 'yarn global add', remove: 'yarn remove', run: 'yarn run', ci: 'yarn install --frozen-lockfile' },
+  bun: { install: 'bun install', add: 'bun add', globalAdd: 'bun add -g', remove: 'bun remove', run: 'bun run', ci: 'bun install --frozen-lockfile' },
+};
+
+/**
+ * Rewrite npm commands (`npm install`, `npm install <pkg>`, `npm uninstall`,
+ * `npm run`, `npm ci`) for another package manager. Other npm commands and
+ * `npx` are left alone; npx works in any project.
+ */
+export function translateCommand(command: string, pm: PackageManager): string {
+  if (pm === 'npm') return command;
+  const to = COMMANDS[pm];
+  return command.replace(/\bnpm (install|i|add|uninstall|un|remove|rm|run|run-script|ci)\b([^&|;]*)/g, (_all, verb: string, rest: string) => {
+    const args = rest.trim().split(/\s+/).filter(Boolean);
+    const trailing = rest.match(/\s*$/)![0];
+    if (verb === 'ci') return `${to.ci}${args.length ? ` ${args.join(' ')}` : ''}${trailing}`;
+    if (verb === 'run' || verb === 'run-script') return `${to.run} ${args.join(' ')}${trailing}`;
+    const global = args.some(a => a === '-g' || a === '--global');
+    const kept = args.filter(a => a !== '-g' && a !== '--global').map(a => (a === '--save-dev' ? '-D' : a));
+    const packages = kept.filter(a => !a.startsWith('-'));
+    if (['uninstall', 'un', 'remove', 'rm'].includes(verb)) return `${to.remove} ${kept.join(' ')}${trailing}`;
+    if (!packages.length) return `${to.install}${kept.length ? ` ${kept.join(' ')}` : ''}${trailing}`;
+    return `${global ? to.globalAdd : to.add} ${kept.join(' ')}${trailing}`;
+  });
+}
+
+/** Step languages whose code is commands, translated like autoFixCmd. */
+const SHELL = ['sh', 'bash', 'shell'];
+
+/**
+ * The entry as it applies to this project: the first alternative whose
+ * condition holds replaces its explanation, fix or command, and commands
+ * (shell steps included) use the project's package manager. Returns the entry itself when nothing changes.
+ */
+export function adaptEntry(entry: ErrorEntry, facts: ProjectFacts): ErrorEntry {
+  const alt = entry.alternatives?.find(a => conditionHolds(a.when, facts));
+  const pm = facts.packageManager;
+  const shellSteps = entry.steps?.some(s => s.code && SHELL.includes(s.lang ?? ''));
+  if (!alt && (!pm || pm === 'npm' || (!entry.autoFixCmd && !entry.autoFixCmdByPlatform && !shellSteps))) return entry;
+
+  const adapted: ErrorEntry = { ...entry };
+  if (alt) {
+    if (alt.explanation !== undefined) adapted.explanation = alt.explanation;
+    if (alt.fix !== undefined) adapted.fix = alt.fix;
+    if (alt.fix !== undefined || alt.steps !== undefined) adapted.steps = alt.steps;
+    if (alt.autoFixCmd !== undefined) {
+      adapted.autoFixCmd = alt.autoFixCmd ?? undefined;
+      adapted.autoFixCmdByPlatform = undefined;
+    }
+  }
+  if (pm) {
+    if (adapted.autoFixCmd) adapted.autoFixCmd = translateCommand(adapted.autoFixCmd, pm);
+    if (adapted.autoFixCmdByPlatform) {
+      adapted.autoFixCmdByPlatform = Object.fromEntries(Object.entries(adapted.autoFixCmdByPlatform)
+        .map(([platform, cmd]) => [platform, cmd ? translateCommand(cmd, pm) : cmd]));
+    }
+    adapted.steps = adapted.steps?.map(s => (s.code && SHELL.includes(s.lang ?? '') ? { ...s, code: s.code.split('\n').map(l => translateCommand(l, pm)).join('\n') } : s));
+  }
+  return adapted;
+}
+
+export function adaptDatabase(db: readonly ErrorEntry[], facts: ProjectFacts): ErrorEntry[] {
+  return db.map(entry => adaptEntry(entry, facts));
+}
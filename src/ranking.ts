@@ -0,0 +1,106 @@
+import { type MatchResult } from './analyze.js';
+import { type ErrorEntry } from './database.js';
+
+// ── Ranking ──
+//
+// Every match gets a confidence between 0 and 1 that it is the root cause,
+// from three signals:
+//
+//   specificity  how much literal text the pattern requires
+//   position     distance from the first error in the output; later errors
+//                are often consequences of it
+//   severity     errors outrank warnings, warnings outrank infos
+
+const WEIGHTS = { specificity: 0.5, position: 0.3, severity: 0.2 };
+
+const SEVERITY_WEIGHT: Record<ErrorEntry['severity'], number> = { error: 1, warning: 0.6, info: 0.3 };
+const SEVERITY_RANK: Record<ErrorEntry['severity'], number> = { error: 2, warning: 1, info: 0 };
+
+/** Literal characters at which specificity reaches 0.5. */
+const SPECIFICITY_MIDPOINT = 12;
+
+const specificityCache = new WeakMap<RegExp, number>();
+
+/** Number of characters a pattern requires literally, ignoring classes, wildcards and syntax. */
+export function literalLength(pattern: RegExp): number {
+  const src = pattern.source;
+  let literals = 0;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === '\\') {
+      // \d, \w, \s and \b match a class or a position; any other escape is a literal
+      const next = src[++i];
+      if (next !== undefined && !'dDwWsSbB'.includes(next)) literals++;
+    } else if (ch === '[') {
+      while (i < src.length && src[i] !== ']') i += src[i] === '\\' ? 2 : 1;
+    } else if (ch === '(' && src[i + 1] === '?') {
+      // (?:, (?=, (?!, (?<=, (?<!, (?<name>
+      const named = src.slice(i).match(/^\(\?(?:<[A-Za-z_$][\w$]*>|<[=!]|[:=!])/);
+      if (named) i += named[0].length - 1;
+    } else if (ch === '{' && /^\{\d+(?:,\d*)?\}/.test(src.slice(i))) {
+      i = src.indexOf('}', i);
+    } else if (!'()|?*+.^$'.includes(ch)) {
+      literals++;
+    }
+  }
+  return literals;
+}
+
+/** 0-1 score for how specific a pattern is; longer literal text scores higher. */
+export function patternSpecificity(pattern: RegExp): number {
+  let score = specificityCache.get(pattern);
+  if (score === undefined) {
+    const literals = literalLength(pattern);
+    score = literals / (literals + SPECIFICITY_MIDPOINT);
+    specificityCache.set(pattern, score);
+  }
+  return score;
+}
+
+function byLine(a: MatchResult, b: MatchResult): number {
+  return a.lineNumber - b.lineNumber;
+}
+
+/**
+ * Set `confidence` on each match. Position is measured in order of first
+ * appearance, relative to the first error-severity match.
+ */
+export function scoreMatches(matches: MatchResult[]): void {
+  const inOrder = [...matches].sort(byLine);
+  const firstError = Math.max(0, inOrder.findIndex(m => m.entry.severity === 'error'));
+
+  inOrder.forEach((m, index) => {
+    const position = 1 / (1 + 0.5 * Math.abs(index - firstError));
+    const score = WEIGHTS.specificity * patternSpecificity(m.entry.pattern)
+      + WEIGHTS.position * position
+      + WEIGHTS.severity * SEVERITY_WEIGHT[m.entry.severity];
+    m.confidence = Math.round(score * 100) / 100;
+  });
+}
+
+/**
+ * True when `specific` should hide `generic`: it is more specific, at least
+ * as severe, and matched in the same error block as every occurrence of
+ * `generic` (a `Cannot find module` line and its `code: 'MODULE_NOT_FOUND'`).
+ */
+function suppresses(specific: MatchResult, generic: MatchResult): boolean {
+  if (patternSpecificity(specific.entry.pattern) <= patternSpecificity(generic.entry.pattern)) return false;
+  if (SEVERITY_RANK[specific.entry.severity] < SEVERITY_RANK[generic.entry.severity]) return false;
+  const blocks = new Set(specific.occurrences.map(o => o.block));
+  return generic.occurrences.every(o => blocks.has(o.block));
+}
+
+/**
+ * Drop matches that a more specific overlapping match explains, score the
+ * rest and order them most likely root cause first.
+ */
+export function rankMatches(matches: MatchResult[]): MatchResult[] {
+  const bySpecificity = [...matches].sort((a, b) => patternSpecificity(b.entry.pattern) - patternSpecificity(a.entry.pattern));
+  const kept: MatchResult[] = [];
+  for (const m of bySpecificity) {
+    if (!kept.some(k => suppresses(k, m))) kept.push(m);
+  }
+
+  scoreMatches(kept);
+  return kept.sort((a, b) => b.confidence - a.confidence || byLine(a, b));
+}
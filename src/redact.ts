@@ -0,0 +1,113 @@
+import * as os from 'node:os';
+import { PackError, findProjectConfig } from './packs.js';
+
+// ── Redaction ──
+//
+// Logs carry connection strings, tokens, emails and home-directory paths.
+// Output meant for sharing (every --format except terminal, and
+// `ai-error report`) goes through these rules first. Projects add their own
+// under "redact" in .ai-error.json:
+//
+//   { "redact": ["tenant-[0-9]+", { "name": "customer", "pattern": "cus_\\w+" }] }
+
+export interface RedactionRule {
+  /** Shown in the placeholder and the counts, e.g. `aws-access-key`. */
+  name: string;
+  /** Must have the `g` flag. */
+  pattern: RegExp;
+  /** `$1` and so on keep parts of the match. Defaults to `[REDACTED:<name>]`. */
+  replacement?: string;
+}
+
+export interface LoadRedactionOptions {
+  cwd?: string;
+  /** Extra regex sources, e.g. from `--redact-pattern`. */
+  patterns?: string[];
+  /** Skip the project config's "redact" rules. */
+  noConfig?: boolean;
+}
+
+const SECRET_KEYS = '[\\w-]*(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|auth|credentials?)[\\w-]*';
+
+function homeRule(): RedactionRule[] {
+  const home = os.homedir();
+  if (home.length < 2) return [];
+  return [{ name: 'home-path', pattern: new RegExp(`${home.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w.-])`, 'g'), replacement: '~' }];
+}
+
+/** Built-in rules, applied in order after any custom ones. */
+export const REDACTION_RULES: readonly RedactionRule[] = [
+  { name: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { name: 'url-credentials', pattern: /\b([a-z][\w+.-]*:\/\/)[^\s:/@]*:[^\s@/]+@/gi, replacement: '$1[REDACTED:url-credentials]@' },
+  { name: 'jwt', pattern: /\beyJ[\w-]{10,}\.[\w-]{10,}\.[\w-]{10,}/g },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,})\b/g },
+  { name: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: 'stripe-key', pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}/g },
+  { name: 'google-api-key', pattern: /\bAIza[\w-]{35}\b/g },
+  { name: 'npm-token', pattern: /\bnpm_[A-Za-z0-9]{36}\b/g },
+  { name: 'api-key', pattern: /\bsk-[\w-]{20,}/g },
+  { name: 'bearer-token', pattern: /\b(Bearer|Basic|Token)\s+[\w.~+/=-]{8,}/g, replacement: '$1 [REDACTED:bearer-token]' },
+  // password=..., "apiKey": "...", AWS_SECRET_ACCESS_KEY: ...; the key stays so the reader knows what was there
+  { name: 'secret', pattern: new RegExp(`\\b(${SECRET_KEYS})(["']?\\s*[:=]\\s*["']?)(?!\\[REDACTED|Bearer\\b|Basic\\b|Token\\b)[^\\s"'\`,;&]{4,}`, 'gi'), replacement: '$1$2[REDACTED:secret]' },
+  { name: 'email', pattern: /\b(?!git@)[\w.%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g },
+  { name: 'home-path', pattern: /(?:\/Users|\/home)\/[^/\s:'"`]+|\b[A-Za-z]:\\Users\\[^\\\s:'"`]+/gi, replacement: '~' },
+  ...homeRule(),
+];
+
+/** Replace every match of each rule in turn, adding to `counts` by rule name. */
+export function redact(text: string, rules: readonly RedactionRule[] = REDACTION_RULES, counts: Record<string, number> = {}): string {
+  for (const rule of rules) {
+    const found = text.match(rule.pattern)?.length ?? 0;
+    if (!found) continue;
+    counts[rule.name] = (counts[rule.name] ?? 0) + found;
+    text = text.replace(rule.pattern, rule.replacement ?? `[REDACTED:${rule.name}]`);
+  }
+  return text;
+}
+
+/**
+ * A copy of a JSON-like value with every string redacted, object keys
+ * included: `occurrenceStats.byFile` is keyed by file path.
+ */
+export function redactValue<T>(value: T, rules: readonly RedactionRule[] = REDACTION_RULES, counts: Record<string, number> = {}): T {
+  if (typeof value === 'string') return redact(value, rules, counts) as T;
+  if (Array.isArray(value)) return value.map(v => redactValue(v, rules, counts)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [redact(k, rules, counts), redactValue(v, rules, counts)])) as T;
+  }
+  return value;
+}
+
+/** Custom rules: regex source strings, or `{ name, pattern, flags, replacement }` objects. */
+export function compileRedactionRules(raw: unknown, origin: string): RedactionRule[] {
+  if (!Array.isArray(raw)) throw new PackError(origin, '"redact" must be an array');
+  return raw.map((r, i) => {
+    const rule = (typeof r === 'string' ? { pattern: r } : r) as Record<string, unknown>;
+    if (!rule || typeof rule.pattern !== 'string' || !rule.pattern) {
+      throw new PackError(origin, `redact[${i}] must be a regex string or an object with a "pattern"`);
+    }
+    for (const key of ['name', 'flags', 'replacement'] as const) {
+      if (rule[key] !== undefined && typeof rule[key] !== 'string') throw new PackError(origin, `redact[${i}].${key} must be a string`);
+    }
+    const flags = ((rule.flags as string | undefined) ?? 'i').replace('g', '');
+    try {
+      return {
+        name: (rule.name as string | undefined) ?? 'custom',
+        pattern: new RegExp(rule.pattern, `${flags}g`),
+        ...(rule.replacement !== undefined ? { replacement: rule.replacement as string } : {}),
+      };
+    } catch (err) {
+      throw new PackError(origin, `redact[${i}] has an invalid regex /${rule.pattern}/: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+}
+
+/** Rules from the command line and the project config, then the built-ins. */
+export function loadRedactionRules(options: LoadRedactionOptions = {}): RedactionRule[] {
+  const rules = compileRedactionRules(options.patterns ?? [], '--redact-pattern');
+  const project = options.noConfig ? null : findProjectConfig(options.cwd ?? process.cwd());
+  const configured = (project?.doc as Record<string, unknown> | undefined)?.redact;
+  if (configured !== undefined) rules.push(...compileRedactionRules(configured, project!.file));
+  return [...rules, ...REDACTION_RULES];
+}
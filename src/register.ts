@@ -0,0 +1,7 @@
+// Side-effect entry point for `node -r @lxgicstudios/ai-error/register` and
+// `node --import @lxgicstudios/ai-error/register`. Set AI_ERROR_WARNINGS=0 to
+// leave warnings alone.
+
+import { installHooks } from './hooks.js';
+
+installHooks({ warnings: process.env.AI_ERROR_WARNINGS !== '0' });
@@ -0,0 +1,82 @@
+import { errorCodeOf, matchValues, type MatchResult } from './analyze.js';
+import { buildFixPlan, fillPlaceholders } from './autofix.js';
+import { type DocLink, type FixInstruction } from './database.js';
+import { interpolate, templateReferences } from './template.js';
+
+// ── Fix Rendering ──
+//
+// The terminal, the results document behind every --format, the runtime
+// hooks and the test reporters all render a match's fix through renderFix,
+// so they show the same text, steps, links and command.
+
+export interface RenderedFix {
+  /** One-line summary with captures filled in. */
+  fix: string;
+  steps: FixInstruction[];
+  docs: DocLink[];
+  /** Named captures and computed variables. */
+  variables: Record<string, string>;
+  /** Command for this platform, with the placeholders the error answered filled in. */
+  autoFixCmd: string | null;
+}
+
+/** Node's list of the system errors it documents. */
+const SYSTEM_ERRORS = new Set([
+  'EACCES', 'EADDRINUSE', 'ECONNREFUSED', 'ECONNRESET', 'EEXIST', 'EISDIR', 'EMFILE',
+  'ENOENT', 'ENOTDIR', 'ENOTEMPTY', 'ENOTFOUND', 'EPERM', 'EPIPE', 'ETIMEDOUT',
+]);
+
+/** Official page for an error code: Node `ERR_*` codes and system errors, Rust `E0382`. */
+export function codeDocs(code: string | null): DocLink[] {
+  if (!code) return [];
+  if (/^ERR_[A-Z0-9_]+$/.test(code)) {
+    return [{ title: `Node.js ${code}`, url: `https://nodejs.org/api/errors.html#${code.toLowerCase()}` }];
+  }
+  if (SYSTEM_ERRORS.has(code)) {
+    return [{ title: 'Node.js common system errors', url: 'https://nodejs.org/api/errors.html#common-system-errors' }];
+  }
+  if (/^E\d{4}$/.test(code)) {
+    return [{ title: `Rust ${code}`, url: `https://doc.rust-lang.org/error_codes/${code}.html` }];
+  }
+  return [];
+}
+
+export function renderFix(match: MatchResult, input: string, platform: NodeJS.Platform = process.platform): RenderedFix {
+  const { entry, groups } = match;
+  const variables = matchValues(match);
+  const fill = (text: string): string => interpolate(text, groups, variables);
+  // A step about `$<PORT>` says nothing useful when the error didn't give the port.
+  const answered = (text: string): boolean => templateReferences(text).names.every(name => variables[name]);
+
+  const docs: DocLink[] = [];
+  const code = match.occurrences[0]?.code ?? errorCodeOf(match.matchedLine);
+  for (const link of [...(entry.docs ?? []).map(d => ({ title: fill(d.title), url: fill(d.url) })), ...codeDocs(code)]) {
+    if (!docs.some(d => d.url === link.url)) docs.push(link);
+  }
+
+  const [step] = buildFixPlan([match], input, platform);
+  return {
+    fix: fill(entry.fix),
+    steps: (entry.steps ?? [])
+      .filter(s => answered(s.text) && answered(s.code ?? ''))
+      .map(s => ({ ...s, text: fill(s.text), ...(s.code !== undefined ? { code: fill(s.code) } : {}) })),
+    docs,
+    variables,
+    autoFixCmd: step ? step.command ?? fillPlaceholders(step.template, step.resolved, platform).command : null,
+  };
+}
+
+/**
+ * Plain-text fix for outputs without formatting (annotations, test
+ * failures): the summary, then numbered steps with their code indented
+ * under them, then the docs links.
+ */
+export function fixText(fix: Pick<RenderedFix, 'fix' | 'steps' | 'docs'>): string {
+  const lines = [fix.fix];
+  fix.steps.forEach((step, i) => {
+    lines.push(`${i + 1}. ${step.text}`);
+    if (step.code) lines.push(...step.code.split('\n').map(l => `   ${l}`));
+  });
+  for (const doc of fix.docs) lines.push(`Docs: ${doc.url}`);
+  return lines.join('\n');
+}
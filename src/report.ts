@@ -0,0 +1,145 @@
+import * as os from 'node:os';
+import { runDoctor, type DoctorFinding } from './doctor.js';
+import { fence, getFormatter } from './formatters.js';
+import { type ProjectFacts } from './probe.js';
+import { REDACTION_RULES, redactValue, type RedactionRule } from './redact.js';
+import { type DiagnosisResults } from './results.js';
+import { type StackError } from './stack.js';
+import { VERSION } from './version.js';
+
+// ── Report Bundles ──
+//
+// `ai-error report` packs everything someone else needs to look at a failure
+// into one Markdown or JSON document: the input, the diagnoses, the parsed
+// stack and the environment. The whole bundle is redacted before it is
+// returned, so it can be pasted into an issue as is.
+
+export const REPORT_VERSION = 1;
+
+/** Lines of input kept, from the end, where the error usually is. */
+const MAX_REPORT_LINES = 300;
+
+/** Dependencies whose versions commonly matter to a diagnosis. */
+const KEY_PACKAGES = ['typescript', 'react', 'next', 'vite', 'webpack', 'esbuild', 'express', 'jest', 'vitest', '@types/node'];
+
+export interface ReportEnvironment {
+  node: string;
+  os: string;
+  arch: string;
+  packageManager: string | null;
+  packageType: string | null;
+  workspace: boolean;
+  /** tsconfig `module` and `moduleResolution`, when there is a tsconfig. */
+  typescript: { module: string | null; moduleResolution: string | null } | null;
+  /** Ranges of KEY_PACKAGES the project depends on. */
+  packages: Record<string, string>;
+  ci: boolean;
+}
+
+export interface ReportBundle {
+  reportVersion: typeof REPORT_VERSION;
+  tool: { name: 'ai-error'; version: string };
+  createdAt: string;
+  environment: ReportEnvironment;
+  /** `ai-error doctor` findings for the project. */
+  findings: DoctorFinding[];
+  input: { text: string; lines: number; truncated: boolean };
+  results: DiagnosisResults;
+  /** Replacements made, by rule name. Empty when redaction was off. */
+  redactions: Record<string, number>;
+}
+
+export interface ReportOptions {
+  /** Default true. */
+  redact?: boolean;
+  rules?: readonly RedactionRule[];
+  now?: Date;
+}
+
+function reportEnvironment(facts: ProjectFacts): ReportEnvironment {
+  const pkg = facts.packageJson ?? {};
+  const deps = { ...(pkg.devDependencies as Record<string, string> | undefined), ...(pkg.dependencies as Record<string, string> | undefined) };
+  const ts = facts.tsconfig?.compilerOptions;
+  return {
+    node: facts.nodeVersion,
+    os: `${os.type()} ${os.release()}`,
+    arch: process.arch,
+    packageManager: facts.packageManager,
+    packageType: facts.packageType,
+    workspace: facts.workspace,
+    typescript: ts ? { module: ts.module ? String(ts.module) : null, moduleResolution: ts.moduleResolution ? String(ts.moduleResolution) : null } : null,
+    packages: Object.fromEntries(KEY_PACKAGES.filter(name => typeof deps[name] === 'string').map(name => [name, deps[name]])),
+    ci: Boolean(process.env.CI),
+  };
+}
+
+export function buildReport(results: DiagnosisResults, input: string, facts: ProjectFacts, options: ReportOptions = {}): ReportBundle {
+  const lines = input.replace(/\n+$/, '').split('\n');
+  const report: ReportBundle = {
+    reportVersion: REPORT_VERSION,
+    tool: { name: 'ai-error', version: VERSION },
+    createdAt: (options.now ?? new Date()).toISOString(),
+    environment: reportEnvironment(facts),
+    findings: runDoctor(facts),
+    input: { text: lines.slice(-MAX_REPORT_LINES).join('\n'), lines: lines.length, truncated: lines.length > MAX_REPORT_LINES },
+    results,
+    redactions: {},
+  };
+  if (options.redact === false) return report;
+  const redactions: Record<string, number> = {};
+  return { ...redactValue(report, options.rules ?? REDACTION_RULES, redactions), redactions };
+}
+
+/** Stack tree as text, in the shape Node prints it. */
+export function stackText(errors: readonly StackError[], indent = ''): string[] {
+  const out: string[] = [];
+  for (const err of errors) {
+    const name = err.name ? `${err.name}${err.code ? ` [${err.code}]` : ''}` : '';
+    out.push(`${indent}${[name, err.message].filter(Boolean).join(': ') || '(no message)'}`);
+    for (const f of err.frames) {
+      const loc = f.file ? `${f.file}${f.line !== null ? `:${f.line}` : ''}${f.col !== null ? `:${f.col}` : ''}` : '<unknown>';
+      out.push(`${indent}    at ${f.functionName ? `${f.functionName} (${loc})` : loc}`);
+    }
+    if (err.errors.length) out.push(`${indent}  [errors]:`, ...stackText(err.errors, `${indent}    `));
+    if (err.cause) {
+      const [head, ...rest] = stackText([err.cause], `${indent}  `);
+      out.push(`${indent}  [cause]: ${head.trimStart()}`, ...rest);
+    }
+  }
+  return out;
+}
+
+export function reportMarkdown(report: ReportBundle): string {
+  const env = report.environment;
+  const redacted = Object.entries(report.redactions);
+  const out: string[] = ['# ai-error report', ''];
+  out.push(`Generated by ai-error ${report.tool.version} on ${report.createdAt}.${redacted.length
+    ? ` Redacted: ${redacted.map(([name, n]) => `${name} ×${n}`).join(', ')}.`
+    : ''}`, '');
+
+  out.push('## Environment', '', '| | |', '|---|---|');
+  out.push(`| Node | ${env.node} |`, `| OS | ${env.os} (${env.arch}) |`);
+  if (env.packageManager) out.push(`| Package manager | ${env.packageManager}${env.workspace ? ' (workspace)' : ''} |`);
+  if (env.packageType) out.push(`| Package type | ${env.packageType} |`);
+  if (env.typescript) out.push(`| TypeScript | module ${env.typescript.module ?? 'default'}, moduleResolution ${env.typescript.moduleResolution ?? 'default'} |`);
+  const packages = Object.entries(env.packages);
+  if (packages.length) out.push(`| Packages | ${packages.map(([name, range]) => `${name} ${range}`).join(', ')} |`);
+  if (env.ci) out.push('| CI | yes |');
+  out.push('');
+
+  if (report.findings.length) {
+    out.push('### Doctor', '');
+    for (const f of report.findings) out.push(`- **${f.title}** (${f.id}): ${f.detail} Fix: ${f.fix}`);
+    out.push('');
+  }
+
+  out.push(getFormatter('markdown')!.format(report.results), '');
+
+  if (report.results.stack.some(err => err.frames.length || err.cause || err.errors.length)) {
+    out.push('## Stack', '', ...fence(stackText(report.results.stack).join('\n')), '');
+  }
+
+  const shown = report.input.truncated ? `Last ${report.input.text.split('\n').length} of ${report.input.lines} lines` : `${report.input.lines} line${report.input.lines !== 1 ? 's' : ''}`;
+  out.push('## Input', '', `<details><summary>${shown}</summary>`, '', ...fence(report.input.text), '', '</details>');
+  return out.join('\n');
+}
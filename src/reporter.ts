@@ -0,0 +1,62 @@
+import { c } from './colors.js';
+import { type ErrorEntry } from './database.js';
+import { diagnoseError, projectDatabase, summarizeDiagnosis, type DiagnosisSummary, type ErrorDiagnosis } from './runtime.js';
+
+// ── Test Failure Diagnosis ──
+//
+// Shared by the Jest and Vitest reporters: diagnose each failed test's error
+// and print one summary of the matched entries when the run finishes.
+
+export interface ReporterOptions {
+  /** Entries to match against. Defaults to the built-ins plus the project's pattern packs. */
+  db?: readonly ErrorEntry[];
+  /** Where the summary is written. Defaults to stderr. */
+  stream?: NodeJS.WritableStream;
+  /** Defaults to on when the stream is a TTY and NO_COLOR is unset. */
+  color?: boolean;
+}
+
+export interface DiagnosedFailure {
+  /** Full test name, suites included. */
+  test: string;
+  summary: DiagnosisSummary;
+}
+
+/** Test runners color their failure messages; entries match the plain text. */
+const ANSI = /\x1b\[[0-9;]*m/g;
+
+export class FailureDiagnoser {
+  readonly diagnosed: DiagnosedFailure[] = [];
+  private failures = 0;
+  private db: () => readonly ErrorEntry[];
+  private stream: NodeJS.WritableStream;
+  private color: boolean;
+
+  constructor(options: ReporterOptions = {}) {
+    this.db = options.db ? () => options.db! : projectDatabase();
+    this.stream = options.stream ?? process.stderr;
+    this.color = options.color ?? ((this.stream as { isTTY?: boolean }).isTTY === true && !process.env.NO_COLOR);
+  }
+
+  /** Diagnose one failure. Returns null when nothing matched. */
+  diagnose(test: string, error: unknown): { diagnosis: ErrorDiagnosis; summary: DiagnosisSummary } | null {
+    this.failures++;
+    const diagnosis = diagnoseError(typeof error === 'string' ? error.replace(ANSI, '') : error, { db: this.db() });
+    const summary = summarizeDiagnosis(diagnosis);
+    if (!summary) return null;
+    this.diagnosed.push({ test, summary });
+    return { diagnosis, summary };
+  }
+
+  /** Print the run's diagnoses. Nothing is printed when no failure matched. */
+  printSummary(): void {
+    if (!this.diagnosed.length) return;
+    const paint = (code: string, text: string): string => (this.color ? `${code}${text}${c.reset}` : text);
+    const lines = [`${paint(c.bold + c.magenta, 'ai-error:')} ${paint(c.bold, `${this.diagnosed.length} of ${this.failures} failure${this.failures !== 1 ? 's' : ''} diagnosed`)}`];
+    for (const { test, summary } of this.diagnosed) {
+      lines.push(`  ${paint(c.red, '✗')} ${test}`);
+      lines.push(`    ${paint(c.bold, summary.title)}: ${summary.fix}`);
+    }
+    this.stream.write(`\n${lines.join('\n')}\n\n`);
+  }
+}
@@ -0,0 +1,119 @@
+import { extractStackInfo, matchesBySegment, occurrenceStats, stackLocation, type MatchResult, type Occurrence, type OccurrenceStats, type SourceLocation } from './analyze.js';
+import { type CodeFrame } from './codeframe.js';
+import { type DocLink, type ErrorEntry, type FixInstruction } from './database.js';
+import { fingerprint, normalizeErrorLine } from './knowledge.js';
+import { entrySource } from './packs.js';
+import { type LogSegment } from './preprocess.js';
+import { renderFix } from './render.js';
+import { type StackError } from './stack.js';
+import { VERSION } from './version.js';
+
+// ── Results Document ──
+//
+// The stable shape behind `--json` and every `--format`. It is described by
+// schema/results-v1.schema.json; bump RESULTS_SCHEMA_VERSION on any change
+// that removes or retypes a field.
+
+export const RESULTS_SCHEMA_VERSION = 1;
+
+export interface DiagnosisResult {
+  /** Stable rule id derived from the entry title, e.g. 'ts-property-missing'. */
+  id: string;
+  title: string;
+  category: string;
+  /** Pattern pack the entry came from, 'built-in' for ERROR_DB. */
+  source: string;
+  /** Hash of the normalized matched line, as recorded in the knowledge base. */
+  fingerprint: string;
+  severity: ErrorEntry['severity'];
+  explanation: string;
+  /** Fix with capture groups filled in. */
+  fix: string;
+  /** Ordered fix steps, filled in the same way. */
+  steps: FixInstruction[];
+  docs: DocLink[];
+  /** Named captures and computed variables. */
+  variables: Record<string, string>;
+  /** Command for the current platform, with placeholders the error answered filled in. */
+  autoFixCmd: string | null;
+  matchedLine: string;
+  lineNumber: number;
+  /** Where the first occurrence points, else the first user frame of the stack. */
+  location: SourceLocation | null;
+  occurrenceCount: number;
+  occurrences: Occurrence[];
+  /** 0-1 likelihood that this is the root cause; matches are sorted by it. */
+  confidence: number;
+}
+
+/** The matches one workspace package, task or CI group printed. */
+export interface SegmentResult extends LogSegment {
+  summary: { errors: number; warnings: number; infos: number };
+  /** Ids of the matches, most likely root cause first. */
+  matches: string[];
+}
+
+export interface DiagnosisResults {
+  schemaVersion: typeof RESULTS_SCHEMA_VERSION;
+  tool: { name: 'ai-error'; version: string };
+  summary: { errors: number; warnings: number; infos: number };
+  matchCount: number;
+  occurrenceStats: OccurrenceStats;
+  matches: DiagnosisResult[];
+  /** Diagnoses grouped by the segment of the log they came from; empty for plain logs. */
+  segments: SegmentResult[];
+  sourceLocation: SourceLocation | null;
+  stack: StackError[];
+  /** Present when code context was requested. */
+  context?: CodeFrame[];
+}
+
+/** Lowercase, dash-separated id for an entry title. */
+export function ruleId(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function severityCounts(matches: MatchResult[]): DiagnosisResults['summary'] {
+  return {
+    errors: matches.filter(m => m.entry.severity === 'error').length,
+    warnings: matches.filter(m => m.entry.severity === 'warning').length,
+    infos: matches.filter(m => m.entry.severity === 'info').length,
+  };
+}
+
+export function buildResults(matches: MatchResult[], input: string, stack: StackError[], codeFrames?: CodeFrame[]): DiagnosisResults {
+  const sourceLocation = extractStackInfo(input, stack);
+  const runtimeLocation = stackLocation(stack);
+
+  return {
+    schemaVersion: RESULTS_SCHEMA_VERSION,
+    tool: { name: 'ai-error', version: VERSION },
+    summary: severityCounts(matches),
+    matchCount: matches.length,
+    occurrenceStats: occurrenceStats(matches),
+    matches: matches.map(m => ({
+      id: ruleId(m.entry.title),
+      title: m.entry.title,
+      category: m.entry.category,
+      source: entrySource(m.entry),
+      fingerprint: fingerprint(normalizeErrorLine(m.matchedLine.split('\n')[0])),
+      severity: m.entry.severity,
+      explanation: m.entry.explanation,
+      ...renderFix(m, input),
+      matchedLine: m.matchedLine,
+      lineNumber: m.lineNumber,
+      location: m.occurrences[0].location ?? runtimeLocation,
+      occurrenceCount: m.occurrences.length,
+      occurrences: m.occurrences,
+      confidence: m.confidence,
+    })),
+    segments: matchesBySegment(matches).map(({ segment, matches }) => ({
+      ...segment,
+      summary: severityCounts(matches),
+      matches: matches.map(m => ruleId(m.entry.title)),
+    })),
+    sourceLocation,
+    stack,
+    ...(codeFrames ? { context: codeFrames } : {}),
+  };
+}
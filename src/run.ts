@@ -0,0 +1,110 @@
+import { spawn } from 'node:child_process';
+
+// ── Command Wrapper ──
+
+export interface RunOptions {
+  cwd?: string;
+  /** Most recent output kept for analysis, in bytes. Older output is dropped. */
+  maxBufferBytes?: number;
+  /** Where the child's output is copied. Defaults to this process's streams. */
+  stdout?: NodeJS.WritableStream;
+  stderr?: NodeJS.WritableStream;
+}
+
+export interface RunResult {
+  /** Child exit code; null when it was killed by a signal. */
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  /** Captured stdout and stderr, interleaved in arrival order. */
+  output: string;
+  /** True when older output was dropped to stay under maxBufferBytes. */
+  truncated: boolean;
+}
+
+export const DEFAULT_MAX_BUFFER_BYTES = 4 * 1024 * 1024;
+
+/** Signals passed on to the child while it runs. */
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP'];
+
+/** Keeps the last `limit` bytes of a stream of chunks. */
+class TailBuffer {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  truncated = false;
+
+  constructor(private limit: number) {}
+
+  push(chunk: Buffer): void {
+    this.chunks.push(chunk);
+    this.size += chunk.length;
+    while (this.size > this.limit && this.chunks.length > 1) {
+      this.size -= this.chunks.shift()!.length;
+      this.truncated = true;
+    }
+    if (this.size > this.limit) {
+      const only = this.chunks[0];
+      this.chunks[0] = only.subarray(only.length - this.limit);
+      this.size = this.limit;
+      this.truncated = true;
+    }
+  }
+
+  toString(): string {
+    const text = Buffer.concat(this.chunks).toString('utf8');
+    // Drop the partial line left at the cut
+    return this.truncated ? text.slice(text.indexOf('\n') + 1) : text;
+  }
+}
+
+/**
+ * Run a command with stdin inherited, copying stdout and stderr through
+ * unchanged while keeping a bounded copy of both for analysis.
+ * Signals sent to this process are forwarded to the child.
+ */
+export function runCommand(command: string[], options: RunOptions = {}): Promise<RunResult> {
+  const buffer = new TailBuffer(options.maxBufferBytes ?? DEFAULT_MAX_BUFFER_BYTES);
+  const out = options.stdout ?? process.stdout;
+  const err = options.stderr ?? process.stderr;
+
+  return new Promise(resolve => {
+    const child = spawn(command[0], command.slice(1), {
+      cwd: options.cwd,
+      stdio: ['inherit', 'pipe', 'pipe'],
+      // npm, npx and friends are .cmd shims on Windows
+      shell: process.platform === 'win32',
+    });
+
+    const forward = (signal: NodeJS.Signals): void => {
+      // A terminal Ctrl-C already reaches the child through the process group
+      if (signal === 'SIGINT' && process.stdin.isTTY) return;
+      if (child.exitCode === null && child.signalCode === null) child.kill(signal);
+    };
+    for (const signal of FORWARDED_SIGNALS) process.on(signal, forward);
+    const cleanup = (): void => {
+      for (const signal of FORWARDED_SIGNALS) process.off(signal, forward);
+    };
+
+    child.stdout!.on('data', (chunk: Buffer) => {
+      out.write(chunk);
+      buffer.push(chunk);
+    });
+    child.stderr!.on('data', (chunk: Buffer) => {
+      err.write(chunk);
+      buffer.push(chunk);
+    });
+
+    child.on('error', error => {
+      cleanup();
+      const message = `${error.message}\n`;
+      err.write(message);
+      buffer.push(Buffer.from(message));
+      // Same code a shell uses for a command it can't find or run
+      resolve({ exitCode: (error as NodeJS.ErrnoException).code === 'ENOENT' ? 127 : 126, signal: null, output: buffer.toString(), truncated: buffer.truncated });
+    });
+
+    child.on('close', (code, signal) => {
+      cleanup();
+      resolve({ exitCode: code, signal, output: buffer.toString(), truncated: buffer.truncated });
+    });
+  });
+}
@@ -0,0 +1,205 @@
+import { inspect } from 'node:util';
+import { analyzeInput, stackLocation, type MatchResult, type SourceLocation } from './analyze.js';
+import { c } from './colors.js';
+import { ERROR_DB, type DocLink, type ErrorEntry, type FixInstruction } from './database.js';
+import { buildDatabase, loadPatternPacks } from './packs.js';
+import { adaptDatabase, probeProject } from './probe.js';
+import { renderFix } from './render.js';
+import { applySourceMaps } from './sourcemap.js';
+import { parseStack, type StackError } from './stack.js';
+
+// ── Runtime Diagnosis ──
+//
+// Diagnose a live Error object rather than text someone copied out of a
+// terminal. The error's own `name`, `code`, `stack`, `cause` and AggregateError
+// `errors` build the stack tree, and the same properties are rendered into the
+// text the matcher sees, so `error.code` counts even when the message leaves
+// it out. The register hook, the Express middleware and the test reporters
+// are all thin wrappers around `diagnoseError`.
+
+export interface DiagnoseErrorOptions {
+  /** Entries to match against. Defaults to the built-ins. */
+  db?: readonly ErrorEntry[];
+  /** Map compiled frames back to source (default true). */
+  sourceMaps?: boolean;
+  cwd?: string;
+}
+
+export interface ErrorDiagnosis {
+  /** The error as the matcher saw it: each stack, with codes, sub-errors and causes. */
+  text: string;
+  stack: StackError[];
+  /** Most likely root cause first. */
+  matches: MatchResult[];
+  /** First frame in user code, after source maps. */
+  location: SourceLocation | null;
+}
+
+/** The top match of a diagnosis in a form that can be attached to a response, a test result or a log line. */
+export interface DiagnosisSummary {
+  title: string;
+  category: string;
+  severity: ErrorEntry['severity'];
+  explanation: string;
+  fix: string;
+  steps: FixInstruction[];
+  docs: DocLink[];
+  autoFixCmd: string | null;
+  confidence: number;
+  location: SourceLocation | null;
+}
+
+/** Most errors taken from one tree of causes and sub-errors. */
+const MAX_ERRORS = 16;
+
+type ErrorLike = { name?: unknown; message?: unknown; stack?: unknown; code?: unknown; cause?: unknown; errors?: unknown };
+
+/** Error instances, and plain objects carrying an error's message or stack (as test runners serialize them). */
+function isErrorLike(value: unknown): value is ErrorLike {
+  return value instanceof Error
+    || (typeof value === 'object' && value !== null && (typeof (value as ErrorLike).message === 'string' || typeof (value as ErrorLike).stack === 'string'));
+}
+
+function describe(value: unknown): string {
+  return typeof value === 'string' ? value : inspect(value, { depth: 2, breakLength: Infinity });
+}
+
+function stackLines(err: ErrorLike): string[] {
+  const name = typeof err.name === 'string' && err.name ? err.name : 'Error';
+  const message = typeof err.message === 'string' ? err.message : '';
+  const lines = (typeof err.stack === 'string' && err.stack ? err.stack : `${name}${message ? `: ${message}` : ''}`).split('\n');
+  // Node system errors keep their code off the header: `Error: connect ECONNREFUSED ...`
+  if (typeof err.code === 'string' && lines[0].startsWith(name) && !lines[0].includes(err.code)) {
+    lines[0] = `${name} [${err.code}]${lines[0].slice(name.length)}`;
+  }
+  return lines;
+}
+
+function errorLines(value: unknown, seen: Set<unknown>): string[] {
+  if (!isErrorLike(value)) return [describe(value)];
+  if (seen.has(value) || seen.size >= MAX_ERRORS) return [];
+  seen.add(value);
+
+  const lines = stackLines(value);
+  if (Array.isArray(value.errors) && value.errors.length) {
+    lines.push('  [errors]: [');
+    for (const sub of value.errors) lines.push(...errorLines(sub, seen).map(l => `    ${l}`));
+    lines.push('  ]');
+  }
+  if (value.cause !== undefined) {
+    const [head, ...rest] = errorLines(value.cause, seen);
+    if (head !== undefined) lines.push(`  [cause]: ${head}`, ...rest.map(l => `  ${l}`));
+  }
+  return lines;
+}
+
+/** Render an error, its sub-errors and its causes as text in the shape Node prints them. */
+export function errorText(error: unknown): string {
+  return errorLines(error, new Set()).join('\n');
+}
+
+function stackErrorOf(value: unknown, seen: Set<unknown>): StackError | null {
+  if (!isErrorLike(value)) {
+    return { name: '', code: null, message: describe(value), frames: [], cause: null, errors: [] };
+  }
+  if (seen.has(value) || seen.size >= MAX_ERRORS) return null;
+  seen.add(value);
+
+  const [parsed] = parseStack(stackLines(value).join('\n'));
+  return {
+    name: typeof value.name === 'string' ? value.name : parsed?.name ?? '',
+    code: typeof value.code === 'string' ? value.code : parsed?.code ?? null,
+    message: typeof value.message === 'string' ? value.message : parsed?.message ?? '',
+    frames: parsed?.frames ?? [],
+    cause: value.cause !== undefined ? stackErrorOf(value.cause, seen) : null,
+    errors: Array.isArray(value.errors)
+      ? value.errors.map(sub => stackErrorOf(sub, seen)).filter((e): e is StackError => e !== null)
+      : [],
+  };
+}
+
+/** Build the stack tree from the error object itself rather than from printed text. */
+export function stackFromError(error: unknown): StackError[] {
+  const root = stackErrorOf(error, new Set());
+  return root ? [root] : [];
+}
+
+/** Match an error object (or anything thrown) against the database. */
+export function diagnoseError(error: unknown, options: DiagnoseErrorOptions = {}): ErrorDiagnosis {
+  const text = errorText(error);
+  const parsed = stackFromError(error);
+  const stack = options.sourceMaps === false ? parsed : applySourceMaps(parsed, { cwd: options.cwd });
+  return {
+    text,
+    stack,
+    matches: analyzeInput(text, options.db ?? ERROR_DB),
+    location: stackLocation(stack),
+  };
+}
+
+/** The most likely match, or null when nothing matched. */
+export function summarizeDiagnosis(diagnosis: ErrorDiagnosis): DiagnosisSummary | null {
+  const [top] = diagnosis.matches;
+  if (!top) return null;
+  const { fix, steps, docs, autoFixCmd } = renderFix(top, diagnosis.text);
+  return {
+    title: top.entry.title,
+    category: top.entry.category,
+    severity: top.entry.severity,
+    explanation: top.entry.explanation,
+    fix,
+    steps,
+    docs,
+    autoFixCmd,
+    confidence: top.confidence,
+    location: diagnosis.location,
+  };
+}
+
+export interface FormatDiagnosisOptions {
+  /** Use ANSI colors. Defaults to off. */
+  color?: boolean;
+}
+
+/** A few lines for stderr or a test failure: the top match, its fix and where it happened. */
+export function formatDiagnosis(diagnosis: ErrorDiagnosis, options: FormatDiagnosisOptions = {}): string {
+  const summary = summarizeDiagnosis(diagnosis);
+  if (!summary) return '';
+  const paint = (code: string, text: string): string => (options.color ? `${code}${text}${c.reset}` : text);
+
+  const lines = [
+    `${paint(c.bold + c.magenta, 'ai-error:')} ${paint(c.bold, summary.title)} ${paint(c.dim, `[${summary.category}] ${Math.round(summary.confidence * 100)}% likely`)}`,
+    `  ${summary.explanation}`,
+    `  ${paint(c.green, 'Fix:')} ${summary.fix}`,
+  ];
+  summary.steps.forEach((step, i) => {
+    lines.push(`    ${i + 1}. ${step.text}`);
+    if (step.code) lines.push(...step.code.split('\n').map(l => `       ${paint(c.cyan, l)}`));
+  });
+  if (summary.autoFixCmd) lines.push(`  ${paint(c.dim, `Run: ${summary.autoFixCmd}`)}`);
+  if (summary.location) lines.push(`  ${paint(c.dim, `At: ${summary.location.file}:${summary.location.line}:${summary.location.col}`)}`);
+  for (const doc of summary.docs) lines.push(`  ${paint(c.dim, `Docs: ${doc.url}`)}`);
+  const others = diagnosis.matches.slice(1).map(m => m.entry.title);
+  if (others.length) lines.push(`  ${paint(c.dim, `Also matched: ${others.join(', ')}`)}`);
+  return lines.join('\n');
+}
+
+/**
+ * The built-ins plus the project's and user's pattern packs, loaded from
+ * `cwd` on first use and adapted to the project's facts. A broken pack falls
+ * back to the built-ins rather than failing inside an error handler.
+ */
+export function projectDatabase(cwd: string = process.cwd()): () => readonly ErrorEntry[] {
+  let db: readonly ErrorEntry[] | null = null;
+  return () => {
+    if (!db) {
+      try {
+        db = buildDatabase(loadPatternPacks({ cwd }));
+      } catch {
+        db = ERROR_DB;
+      }
+      db = adaptDatabase(db, probeProject(cwd));
+    }
+    return db;
+  };
+}
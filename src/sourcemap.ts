@@ -0,0 +1,278 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { normalizeFrameFile, type StackError, type StackFrame } from './stack.js';
+
+// ── Source Maps ──
+//
+// A small, dependency-free reader for source map v3. Only the lookup we need
+// is implemented: generated line/column to original source/line/column/name.
+
+/**
+ * One decoded segment: [generatedCol] for an unmapped range, else
+ * [generatedCol, sourceIndex, originalLine, originalCol, nameIndex?], all 0-based.
+ */
+type Segment = number[];
+
+export interface SourceMapping {
+  source: string;
+  line: number;
+  col: number;
+  name: string | null;
+}
+
+export interface SourceMapLookup {
+  /** Look up a 0-based generated position. */
+  originalPositionFor(line: number, col: number): SourceMapping | null;
+}
+
+interface RawSourceMap {
+  version?: number;
+  sources?: (string | null)[];
+  sourceRoot?: string;
+  names?: string[];
+  mappings?: string;
+  sections?: { offset: { line: number; column: number }; map: RawSourceMap }[];
+}
+
+class BasicSourceMap implements SourceMapLookup {
+  private lines: Segment[][];
+  private sources: string[];
+  private names: string[];
+
+  constructor(raw: RawSourceMap, mapFile: string) {
+    const root = raw.sourceRoot ? raw.sourceRoot.replace(/\/?$/, '/') : '';
+    const dir = path.dirname(mapFile);
+    this.sources = (raw.sources ?? []).map(s => resolveSource(root + (s ?? ''), dir));
+    this.names = raw.names ?? [];
+    this.lines = decodeMappings(raw.mappings ?? '');
+  }
+
+  originalPositionFor(line: number, col: number): SourceMapping | null {
+    const segments = this.lines[line];
+    if (!segments || segments.length === 0) return null;
+
+    // Last segment starting at or before `col`
+    let lo = 0, hi = segments.length - 1, found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (segments[mid][0] <= col) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    if (found === -1) return null;
+
+    const seg = segments[found];
+    if (seg.length < 4) return null;
+    return {
+      source: this.sources[seg[1]],
+      line: seg[2],
+      col: seg[3],
+      name: seg.length > 4 ? this.names[seg[4]] ?? null : null,
+    };
+  }
+}
+
+class IndexedSourceMap implements SourceMapLookup {
+  constructor(private sections: { line: number; column: number; map: SourceMapLookup }[]) {}
+
+  originalPositionFor(line: number, col: number): SourceMapping | null {
+    let section = null;
+    for (const s of this.sections) {
+      if (s.line < line || (s.line === line && s.column <= col)) section = s;
+      else break;
+    }
+    if (!section) return null;
+    const relCol = line === section.line ? col - section.column : col;
+    return section.map.originalPositionFor(line - section.line, relCol);
+  }
+}
+
+/** Build a lookup from a parsed v3 map, including indexed maps with `sections`. */
+export function parseSourceMap(raw: RawSourceMap, mapFile: string): SourceMapLookup {
+  if (raw.sections) {
+    return new IndexedSourceMap(raw.sections.map(s => ({
+      line: s.offset.line,
+      column: s.offset.column,
+      map: parseSourceMap(s.map, mapFile),
+    })));
+  }
+  return new BasicSourceMap(raw, mapFile);
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map(Array.from(BASE64, (ch, i) => [ch, i]));
+
+/** Decode one base64 VLQ field list, e.g. 'AAgBC' → [0, 0, 16, 1]. */
+export function decodeVlq(text: string): number[] {
+  const out: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const ch of text) {
+    const digit = BASE64_VALUES.get(ch);
+    if (digit === undefined) throw new Error(`invalid base64 VLQ character '${ch}'`);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    out.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+  return out;
+}
+
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  // Source index, original line/column and name index are deltas across the whole file
+  let source = 0, origLine = 0, origCol = 0, name = 0;
+
+  for (const lineText of mappings.split(';')) {
+    const segments: Segment[] = [];
+    let genCol = 0;
+    for (const segText of lineText.split(',')) {
+      if (!segText) continue;
+      const f = decodeVlq(segText);
+      genCol += f[0];
+      if (f.length < 4) {
+        segments.push([genCol]);
+        continue;
+      }
+      source += f[1];
+      origLine += f[2];
+      origCol += f[3];
+      if (f.length >= 5) {
+        name += f[4];
+        segments.push([genCol, source, origLine, origCol, name]);
+      } else {
+        segments.push([genCol, source, origLine, origCol]);
+      }
+    }
+    segments.sort((a, b) => a[0] - b[0]);
+    lines.push(segments);
+  }
+  return lines;
+}
+
+function resolveSource(source: string, mapDir: string): string {
+  // Bundlers write `webpack://app/./src/x.ts`; keep the project-relative part
+  const webpack = source.match(/^webpack:\/\/[^/]*\/(.*)$/);
+  if (webpack) source = webpack[1];
+  else source = normalizeFrameFile(source);
+  if (/^[a-z][\w+.-]+:/i.test(source)) return source;
+  return path.resolve(mapDir, source);
+}
+
+// ── Loading ──
+
+const SOURCE_MAPPING_URL = /\/[/*][#@]\s*sourceMappingURL=([^\s*'"]+)\s*(?:\*\/)?\s*$/;
+
+function readMapFromDataUrl(url: string): RawSourceMap | null {
+  const m = url.match(/^data:application\/json(?:;charset=[\w-]+)?(;base64)?,(.*)$/i);
+  if (!m) return null;
+  const body = m[1] ? Buffer.from(m[2], 'base64').toString('utf8') : decodeURIComponent(m[2]);
+  return JSON.parse(body) as RawSourceMap;
+}
+
+/** The last sourceMappingURL comment in a generated file, if any. */
+export function findSourceMappingUrl(code: string): string | null {
+  // Inline maps can be megabytes long, so find the comment before splitting lines
+  const idx = code.lastIndexOf('sourceMappingURL=');
+  if (idx === -1) return null;
+  const start = code.lastIndexOf('\n', idx) + 1;
+  const end = code.indexOf('\n', idx);
+  const m = code.slice(start, end === -1 ? undefined : end).trim().match(SOURCE_MAPPING_URL);
+  return m ? m[1] : null;
+}
+
+/**
+ * Load the source map for a generated file from disk: an inline data URL or
+ * file named by `//# sourceMappingURL`, else a sibling `<file>.map`.
+ * Returns null when there is no readable map.
+ */
+export function loadSourceMap(file: string): SourceMapLookup | null {
+  let code: string;
+  try {
+    code = fs.readFileSync(file, 'utf8');
+  } catch {
+    return null;
+  }
+
+  try {
+    const url = findSourceMappingUrl(code);
+    if (url?.startsWith('data:')) {
+      const raw = readMapFromDataUrl(url);
+      return raw ? parseSourceMap(raw, file) : null;
+    }
+
+    const candidates = url
+      ? [url.startsWith('file://') ? fileURLToPath(url) : path.resolve(path.dirname(file), decodeURIComponent(url))]
+      : [];
+    candidates.push(`${file}.map`);
+
+    for (const mapFile of candidates) {
+      if (!fs.existsSync(mapFile)) continue;
+      const raw = JSON.parse(fs.readFileSync(mapFile, 'utf8')) as RawSourceMap;
+      return parseSourceMap(raw, mapFile);
+    }
+  } catch {
+    // A corrupt map is treated the same as a missing one
+  }
+  return null;
+}
+
+// ── Frame Rewriting ──
+
+export interface SourceMapOptions {
+  /** Directory that relative frame paths are resolved against. */
+  cwd?: string;
+}
+
+/**
+ * Rewrite frames that point at compiled output to the original source.
+ * Frames without a map are left alone. Rewritten frames keep their compiled
+ * position in `generated`. Maps are cached per file for the call.
+ */
+export function applySourceMaps(roots: StackError[], options: SourceMapOptions = {}): StackError[] {
+  const cwd = options.cwd ?? process.cwd();
+  const cache = new Map<string, SourceMapLookup | null>();
+
+  const mapFrame = (frame: StackFrame): StackFrame => {
+    // `node:internal/...` and other URL schemes have no map; a drive letter isn't a scheme
+    if (!frame.file || frame.line === null || frame.isNative || /^[a-z][\w+.-]+:/i.test(frame.file)) return frame;
+    if (!/\.[cm]?js$/.test(frame.file)) return frame;
+
+    const file = path.resolve(cwd, frame.file);
+    if (!cache.has(file)) cache.set(file, loadSourceMap(file));
+    const map = cache.get(file);
+    if (!map) return frame;
+
+    const pos = map.originalPositionFor(frame.line - 1, (frame.col ?? 1) - 1);
+    if (!pos || !pos.source) return frame;
+
+    const source = path.isAbsolute(pos.source) ? path.relative(cwd, pos.source) || pos.source : pos.source;
+    return {
+      ...frame,
+      functionName: pos.name ?? frame.functionName,
+      file: source.startsWith('..') ? pos.source : source,
+      line: pos.line + 1,
+      col: pos.col + 1,
+      isUserCode: frame.isUserCode && !/(^|[\\/])node_modules[\\/]/.test(pos.source),
+      generated: { file: frame.file, line: frame.line, col: frame.col },
+    };
+  };
+
+  const mapError = (err: StackError): StackError => ({
+    ...err,
+    frames: err.frames.map(mapFrame),
+    cause: err.cause ? mapError(err.cause) : null,
+    errors: err.errors.map(mapError),
+  });
+
+  return roots.map(mapError);
+}
@@ -0,0 +1,311 @@
+import { fileURLToPath } from 'node:url';
+import { languageSegments } from './languages/index.js';
+
+// ── Stack Trace Parsing ──
+//
+// Understands V8 (Node, Chrome, Deno, Bun) `at fn (file:line:col)` frames,
+// SpiderMonkey/JSC `fn@file:line:col` frames and webpack URLs, and follows
+// `[cause]:` blocks, `Caused by:` sections and AggregateError `[errors]:`
+// lists into a tree of errors. Python, Go, Rust and Java output is handed to
+// the parser of its language pack (see languages/).
+
+export interface StackFrame {
+  /** The frame line as it appeared in the input, trimmed. */
+  raw: string;
+  functionName: string | null;
+  file: string | null;
+  line: number | null;
+  col: number | null;
+  isAsync: boolean;
+  isEval: boolean;
+  isNative: boolean;
+  isConstructor: boolean;
+  /** False for node_modules, runtime internals, native and anonymous frames. */
+  isUserCode: boolean;
+  /** Compiled position, set when the frame was rewritten through a source map. */
+  generated?: { file: string; line: number; col: number | null };
+}
+
+export interface StackError {
+  /** Error class, e.g. 'TypeError'. Empty when frames appear without a header. */
+  name: string;
+  /** Node-style code from `Error [ERR_X]: ...`, or a rustc code like E0308. */
+  code: string | null;
+  message: string;
+  frames: StackFrame[];
+  cause: StackError | null;
+  /** Sub-errors of an AggregateError (or Java's `Suppressed:`). */
+  errors: StackError[];
+  /** Language pack that parsed the error. Unset for JavaScript. */
+  language?: string;
+}
+
+const HEADER = /^(?:Uncaught\s+(?:\(in promise\)\s+)?)?((?:[\w$]+\.)*(?:[A-Z][\w$]*(?:Error|Exception)|Error))(?:\s*\[([A-Z0-9_]+)\])?(?::\s*(.*))?$/;
+const LOCATION = /^(.*?):(\d+)(?::(\d+))?$/;
+const EVAL_ORIGIN = /^eval at [^(]* \((.+)\)(?:, .*)?$/;
+const GECKO_FRAME = /^([^@\s]*(?:\s[^@\s]+)*)@(.+)$/;
+const GECKO_EVAL = /^(.*?) line (\d+) > (?:eval|Function)(?::\d+:\d+)?$/;
+const DIAGNOSTIC_COLON = /^((?:[A-Za-z]:)?[\w./\\@~+-]+\.[A-Za-z]\w*):(\d+):(\d+)\b/;
+const DIAGNOSTIC_PAREN = /^((?:[A-Za-z]:)?[\w./\\@~+-]+\.[A-Za-z]\w*)\((\d+),(\d+)\)/;
+
+/** Turn webpack and file:// URLs into plain paths. */
+export function normalizeFrameFile(file: string): string {
+  const webpack = file.match(/^webpack(?:-internal)?:\/\/\/?(?:\([^)]*\)\/)?(.*)$/);
+  if (webpack) return webpack[1];
+  if (file.startsWith('file://')) {
+    try {
+      return fileURLToPath(file);
+    } catch {
+      return file;
+    }
+  }
+  return file;
+}
+
+function isLibraryFile(file: string): boolean {
+  return /(^|[\\/])node_modules[\\/]/.test(file)
+    || /^(node|bun|ext|deno|internal)[:/]/.test(file)
+    || file.startsWith('<')
+    || file === 'native'
+    || file === '[native code]';
+}
+
+function parseLocation(loc: string): { file: string; line: number | null; col: number | null } | null {
+  const m = loc.match(LOCATION);
+  if (!m || !m[1]) return null;
+  return {
+    file: normalizeFrameFile(m[1]),
+    line: parseInt(m[2]),
+    col: m[3] ? parseInt(m[3]) : null,
+  };
+}
+
+function makeFrame(raw: string, functionName: string | null, loc: ReturnType<typeof parseLocation>, flags: Partial<StackFrame> = {}): StackFrame {
+  const frame: StackFrame = {
+    raw,
+    functionName: functionName || null,
+    file: loc?.file ?? null,
+    line: loc?.line ?? null,
+    col: loc?.col ?? null,
+    isAsync: false,
+    isEval: false,
+    isNative: false,
+    isConstructor: false,
+    isUserCode: false,
+    ...flags,
+  };
+  frame.isUserCode = !frame.isNative && frame.file !== null && !isLibraryFile(frame.file);
+  return frame;
+}
+
+function parseV8Frame(raw: string): StackFrame | null {
+  if (!raw.startsWith('at ')) return null;
+  let rest = raw.slice(3).trim();
+  const flags: Partial<StackFrame> = {};
+
+  if (rest.startsWith('async ')) {
+    flags.isAsync = true;
+    rest = rest.slice(6);
+  }
+  if (rest.startsWith('new ')) {
+    flags.isConstructor = true;
+    rest = rest.slice(4);
+  }
+
+  let fn: string | null = null;
+  let loc = rest;
+  const paren = rest.match(/^(.*?) \((.*)\)$/);
+  if (paren) {
+    fn = paren[1];
+    loc = paren[2];
+  }
+
+  if (loc === 'native' || loc === '<anonymous>' || /^index \d+$/.test(loc)) {
+    return makeFrame(raw, fn, null, { ...flags, isNative: loc !== '<anonymous>' });
+  }
+
+  const evalOrigin = loc.match(EVAL_ORIGIN);
+  if (evalOrigin) {
+    // Point at the code that called eval, which is the part a human can open.
+    const inner = evalOrigin[1];
+    const originLoc = parseLocation(inner.match(/\((.+)\)$/)?.[1] ?? inner);
+    return makeFrame(raw, fn, originLoc, { ...flags, isEval: true });
+  }
+
+  const parsed = parseLocation(loc);
+  if (!parsed) {
+    // `at fn` with no location at all (rare, but printed by some runtimes).
+    return paren ? null : makeFrame(raw, rest, null, flags);
+  }
+  return makeFrame(raw, fn, parsed, flags);
+}
+
+function parseGeckoFrame(raw: string): StackFrame | null {
+  const m = raw.match(GECKO_FRAME);
+  if (!m) return null;
+  const flags: Partial<StackFrame> = {};
+  let fn = m[1];
+  const locText = m[2];
+
+  if (fn.startsWith('async*')) {
+    flags.isAsync = true;
+    fn = fn.slice(6);
+  }
+  if (fn === 'global code' || fn === 'module code') fn = '';
+
+  if (locText === '[native code]') {
+    return makeFrame(raw, fn, null, { ...flags, isNative: true });
+  }
+
+  const evalMatch = locText.match(GECKO_EVAL);
+  if (evalMatch) {
+    return makeFrame(raw, fn, { file: normalizeFrameFile(evalMatch[1]), line: parseInt(evalMatch[2]), col: null }, { ...flags, isEval: true });
+  }
+
+  // Require line:col so that `user@example.com` and similar never parse as frames.
+  const parsed = parseLocation(locText);
+  if (!parsed || parsed.col === null) return null;
+  return makeFrame(raw, fn, parsed, flags);
+}
+
+export function parseFrame(line: string): StackFrame | null {
+  const raw = line.trim().replace(/\s*[{,]$/, '');
+  if (!raw) return null;
+  return parseV8Frame(raw) ?? parseGeckoFrame(raw);
+}
+
+function parseHeader(text: string): StackError | null {
+  const m = text.trim().replace(/\s*\{$/, '').match(HEADER);
+  if (!m) return null;
+  return { name: m[1], code: m[2] ?? null, message: m[3] ?? '', frames: [], cause: null, errors: [] };
+}
+
+/** Parse every error, frame, cause and sub-error in the input into a tree. */
+export function parseStack(input: string): StackError[] {
+  return languageSegments(input.split('\n')).flatMap(({ language, lines }) =>
+    language ? language.parseStack(lines) : parseJavaScriptStack(lines));
+}
+
+function parseJavaScriptStack(lines: string[]): StackError[] {
+  const roots: StackError[] = [];
+  let current: StackError | null = null;
+  // Errors whose `{ ... }` property block is currently open.
+  const open: StackError[] = [];
+  // AggregateErrors whose `[errors]: [ ... ]` list is currently open.
+  const aggregates: { owner: StackError; depth: number }[] = [];
+
+  const attach = (node: StackError, parent: StackError | null, asCause: boolean): void => {
+    if (asCause && parent) {
+      let tail = parent;
+      while (tail.cause) tail = tail.cause;
+      tail.cause = node;
+    } else if (aggregates.length && aggregates[aggregates.length - 1].depth === open.length) {
+      aggregates[aggregates.length - 1].owner.errors.push(node);
+    } else {
+      roots.push(node);
+    }
+    current = node;
+  };
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const opensBlock = /\s\{$/.test(line);
+
+    const causeMatch = line.match(/^(?:\[cause\]:|Caused by:)\s*(.*)$/);
+    if (causeMatch) {
+      const parent: StackError | null = line.startsWith('[') ? open[open.length - 1] ?? current : current;
+      const node = parseHeader(causeMatch[1])
+        ?? { name: '', code: null, message: causeMatch[1].replace(/\s*\{$/, ''), frames: [], cause: null, errors: [] };
+      attach(node, parent, true);
+      if (opensBlock) open.push(node);
+      continue;
+    }
+
+    if (/^\[errors\]:\s*\[$/.test(line)) {
+      const owner = open[open.length - 1] ?? current;
+      if (owner) aggregates.push({ owner, depth: open.length });
+      continue;
+    }
+
+    if (/^\],?$/.test(line)) {
+      if (aggregates.length && aggregates[aggregates.length - 1].depth === open.length) aggregates.pop();
+      continue;
+    }
+
+    if (/^\},?$/.test(line)) {
+      open.pop();
+      // Lines after the outermost block belong to whatever comes next
+      current = open[open.length - 1] ?? null;
+      continue;
+    }
+
+    const frame = parseFrame(line);
+    if (frame) {
+      if (!current) attach({ name: '', code: null, message: '', frames: [], cause: null, errors: [] }, null, false);
+      current!.frames.push(frame);
+      if (opensBlock) open.push(current!);
+      continue;
+    }
+
+    const header = parseHeader(line);
+    if (header) {
+      attach(header, null, false);
+      if (opensBlock) open.push(header);
+    }
+  }
+
+  return roots;
+}
+
+/** Every error in the tree, depth-first: an error, its sub-errors, then its cause. */
+export function flattenErrors(roots: StackError[]): StackError[] {
+  const out: StackError[] = [];
+  const visit = (err: StackError): void => {
+    out.push(err);
+    err.errors.forEach(visit);
+    if (err.cause) visit(err.cause);
+  };
+  roots.forEach(visit);
+  return out;
+}
+
+/** Location of a `tsc`/eslint/bundler diagnostic line such as `src/a.ts(3,7)` or `src/a.ts:3:7`. */
+export function parseDiagnosticLocation(line: string): { file: string; line: number; col: number } | null {
+  const trimmed = line.trim();
+  const m = trimmed.match(DIAGNOSTIC_PAREN) ?? trimmed.match(DIAGNOSTIC_COLON);
+  if (!m) return null;
+  return { file: m[1], line: parseInt(m[2]), col: parseInt(m[3]) };
+}
+
+/** Short label for the package or runtime a library frame belongs to. */
+export function frameGroup(frame: StackFrame): string {
+  if (frame.isNative) return 'native';
+  const fn = frame.functionName ?? '';
+  // Java frames name a source file without its directory; the package is in the method name
+  if (/\.(?:java|kt|kts|scala|groovy)$/.test(frame.file ?? '') || (!frame.file && /^[a-z][\w$]*\.[a-z][\w$]*\.[\w$.]+\./.test(fn) && !fn.includes('::'))) {
+    return fn.split('.').slice(0, 2).join('.');
+  }
+  if (/^(?:std|core|alloc)::/.test(fn)) return 'rust std';
+  if (!frame.file) {
+    const crate = fn.match(/^<?(\w+)::/);
+    return crate ? crate[1] : 'anonymous';
+  }
+  if (frame.file.startsWith('<')) return 'anonymous';
+  const pkg = frame.file.match(/node_modules[\\/]((?:@[^\\/]+[\\/])?[^\\/]+)/);
+  if (pkg) return pkg[1].replace(/\\/g, '/');
+  const runtime = frame.file.match(/^(node|bun|ext|deno):/);
+  if (runtime) return `${runtime[1]} internals`;
+  if (frame.file.startsWith('internal/')) return 'node internals';
+  const python = frame.file.match(/[\\/](?:site|dist)-packages[\\/]([^\\/]+?)(?:\.py)?(?:[\\/]|$)/);
+  if (python) return python[1];
+  if (/[\\/]lib[\\/]python\d[\d.]*[\\/]/.test(frame.file)) return 'python stdlib';
+  const goModule = frame.file.match(/[\\/]pkg[\\/]mod[\\/](.+?)@/);
+  if (goModule) return goModule[1].replace(/\\/g, '/');
+  if (/[\\/]go[\\/]src[\\/]/.test(frame.file) || /^(?:runtime|testing)\./.test(fn)) return 'go runtime';
+  const crate = frame.file.match(/[\\/]registry[\\/]src[\\/][^\\/]+[\\/]([\w-]+?)-\d[^\\/]*[\\/]/);
+  if (crate) return crate[1];
+  if (/^\/rustc\/|[\\/]library[\\/](?:std|core|alloc)[\\/]/.test(frame.file)) return 'rust std';
+  return 'user';
+}
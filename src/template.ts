@@ -0,0 +1,88 @@
+import { type ErrorEntry, type VariableSpec } from './database.js';
+
+// ── Fix Templates ──
+//
+// Fixes, steps, docs links and commands refer to capture groups as `$1` or
+// `$<name>`. Variables computed from the captures are referenced the same way
+// as named groups.
+
+const REFERENCE = /\$(\d+)|\$<([A-Za-z_]\w*)>/g;
+
+/**
+ * Substitute every `$1` and `$<name>` in a template. Groups that didn't
+ * participate in the match, and variables that couldn't be computed, become
+ * empty; `$n` past the last group is left as written. Non-empty values go
+ * through `escape` first, e.g. to quote them for a shell.
+ */
+export function interpolate(
+  template: string,
+  groups: readonly (string | undefined)[],
+  values: Record<string, string> = {},
+  escape: (value: string) => string = value => value,
+): string {
+  return template.replace(REFERENCE, (whole, index: string | undefined, name: string | undefined) => {
+    if (index === undefined) return values[name!] ? escape(values[name!]) : '';
+    const n = Number(index);
+    if (n < 1 || n > groups.length) return whole;
+    return groups[n - 1] ? escape(groups[n - 1]!) : '';
+  });
+}
+
+/** The group numbers and names a template refers to. */
+export function templateReferences(template: string): { groups: number[]; names: string[] } {
+  const groups: number[] = [];
+  const names: string[] = [];
+  for (const m of template.matchAll(REFERENCE)) {
+    if (m[1] !== undefined) groups.push(Number(m[1]));
+    else names.push(m[2]);
+  }
+  return { groups, names };
+}
+
+/**
+ * Package to install for a module specifier (`lodash/fp` -> `lodash`).
+ * Empty for paths, `node:` builtins and aliases like `@/components` or `~/lib`.
+ */
+export function packageName(specifier: string): string {
+  if (/^(?:\.|\/|[A-Za-z]:[\\/]|[a-z]+:|[~#]|@\/)/.test(specifier)) return '';
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+/** DefinitelyTyped package for a module specifier: `@types/lodash`, `@types/babel__core`. */
+function typesPackage(specifier: string): string {
+  const name = packageName(specifier);
+  if (!name || name.startsWith('@types/')) return name;
+  return `@types/${name.startsWith('@') ? name.slice(1).replace('/', '__') : name}`;
+}
+
+const TRANSFORMS: Record<NonNullable<VariableSpec['transform']>, (value: string) => string> = {
+  lower: value => value.toLowerCase(),
+  upper: value => value.toUpperCase(),
+  basename: value => value.replace(/[\\/]+$/, '').split(/[\\/]/).pop()!,
+  package: packageName,
+  types: typesPackage,
+};
+
+function computeVariable(spec: VariableSpec, groups: readonly (string | undefined)[], values: Record<string, string>): string | null {
+  let value = typeof spec.from === 'number' ? groups[spec.from - 1] : values[spec.from];
+  if (value && spec.match) {
+    const found = value.match(spec.match);
+    value = found ? found[1] ?? found[0] : undefined;
+  }
+  if (value && spec.transform) value = TRANSFORMS[spec.transform](value);
+  return value || spec.default || null;
+}
+
+/**
+ * Named captures plus the entry's variables, computed in order so a variable
+ * can start from an earlier one. Variables that can't be computed are left out.
+ */
+export function templateValues(entry: ErrorEntry, groups: readonly (string | undefined)[], named: Record<string, string> = {}): Record<string, string> {
+  const values = { ...named };
+  for (const [name, spec] of Object.entries(entry.variables ?? {})) {
+    const value = computeVariable(spec, groups, values);
+    if (value !== null) values[name] = value;
+  }
+  return values;
+}
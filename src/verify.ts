@@ -0,0 +1,346 @@
+import { analyzeInput } from './analyze.js';
+import { type ErrorEntry } from './database.js';
+import { entrySource } from './packs.js';
+import { templateReferences, templateValues } from './template.js';
+
+// ── Database Verification ──
+//
+// Checks every entry against its own examples and against the rest of the
+// database: examples must be diagnosed as that entry, counterexamples must
+// not match it, `$n` and `$<name>` placeholders need a capture group or
+// variable, and patterns shouldn't be able to backtrack catastrophically.
+
+export type VerifyIssueKind =
+  | 'no-examples'
+  | 'example-not-matched'
+  | 'counterexample-matched'
+  | 'shadowed'
+  | 'outranked'
+  | 'redundant'
+  | 'placeholder'
+  | 'backtracking';
+
+export interface VerifyIssue {
+  kind: VerifyIssueKind;
+  /** Errors make `ai-error db verify` fail; warnings are reported only. */
+  level: 'error' | 'warning';
+  title: string;
+  source: string;
+  message: string;
+}
+
+export interface VerifyReport {
+  /** Number of entries checked. */
+  checked: number;
+  examples: number;
+  issues: VerifyIssue[];
+  errors: number;
+  warnings: number;
+}
+
+export interface VerifyOptions {
+  /** Check only these entries (e.g. one pack's), still against the whole database. */
+  only?: (entry: ErrorEntry) => boolean;
+}
+
+// ── Regex Structure ──
+
+interface RegexNode {
+  kind: 'char' | 'any' | 'class' | 'group' | 'assertion' | 'backref';
+  /** Source text of the atom; for groups, the whole group and its quantifier. */
+  text: string;
+  alternatives: RegexNode[][];
+  min: number;
+  max: number;
+}
+
+/** Parse a pattern into nested sequences of quantified atoms. */
+function parseRegex(src: string): RegexNode[][] {
+  let i = 0;
+
+  const quantifier = (node: RegexNode): void => {
+    const q = src.slice(i).match(/^(?:([?*+])|\{(\d+)(?:(,)(\d*))?\})\??/);
+    if (!q) return;
+    i += q[0].length;
+    if (q[1] === '?') [node.min, node.max] = [0, 1];
+    else if (q[1] === '*') [node.min, node.max] = [0, Infinity];
+    else if (q[1] === '+') [node.min, node.max] = [1, Infinity];
+    else {
+      node.min = Number(q[2]);
+      node.max = q[3] ? (q[4] ? Number(q[4]) : Infinity) : node.min;
+    }
+  };
+
+  const atom = (kind: RegexNode['kind'], text: string): RegexNode => ({ kind, text, alternatives: [], min: 1, max: 1 });
+
+  const alternatives = (): RegexNode[][] => {
+    const alts: RegexNode[][] = [[]];
+    while (i < src.length) {
+      const ch = src[i];
+      let node: RegexNode;
+      if (ch === ')') break;
+      if (ch === '|') {
+        alts.push([]);
+        i++;
+        continue;
+      }
+      const start = i;
+      if (ch === '\\') {
+        const next = src[i + 1] ?? '';
+        i += 2;
+        if ('dDwWsS'.includes(next)) node = atom('class', `\\${next}`);
+        else if ('bB'.includes(next)) node = atom('assertion', `\\${next}`);
+        else if (/\d/.test(next)) {
+          i += (src.slice(i).match(/^\d*/)?.[0].length ?? 0);
+          node = atom('backref', src.slice(start, i));
+        } else {
+          const operand = next === 'x' ? /^[0-9a-fA-F]{2}/ : next === 'u' ? /^(?:\{[^}]*\}|[0-9a-fA-F]{4})/
+            : next === 'p' || next === 'P' ? /^\{[^}]*\}/ : next === 'k' ? /^<[^>]*>/ : next === 'c' ? /^[A-Za-z]/ : null;
+          const skipped = operand && src.slice(i).match(operand);
+          if (skipped) i += skipped[0].length;
+          node = atom(next === 'p' || next === 'P' ? 'class' : next === 'k' ? 'backref' : 'char', src.slice(start, i));
+        }
+      } else if (ch === '[') {
+        for (i++; i < src.length && src[i] !== ']'; i++) if (src[i] === '\\') i++;
+        i++;
+        node = atom('class', src.slice(start, i));
+      } else if (ch === '(') {
+        const prefix = src.slice(i).match(/^\((?:\?(?:<[A-Za-z_$][\w$]*>|<[=!]|[:=!]))?/)![0];
+        i += prefix.length;
+        const inner = alternatives();
+        i++;
+        node = atom(/^\(\?<?[=!]/.test(prefix) ? 'assertion' : 'group', src.slice(start, i));
+        node.alternatives = inner;
+      } else if (ch === '.') {
+        i++;
+        node = atom('any', '.');
+      } else if (ch === '^' || ch === '$') {
+        i++;
+        node = atom('assertion', ch);
+      } else {
+        i++;
+        node = atom('char', ch);
+      }
+      quantifier(node);
+      if (node.kind === 'group') node.text = src.slice(start, i);
+      alts[alts.length - 1].push(node);
+    }
+    return alts;
+  };
+
+  return alternatives();
+}
+
+/** Characters used to decide whether two atoms can match the same text. */
+const PROBE_CHARS = ['a', 'Z', '0', '_', ' ', '\t', '-', '.', '/', ':', "'", '"', '(', '<', '@', 'é'];
+
+function atomRegex(node: RegexNode, flags: string): RegExp | null {
+  if (node.kind === 'any') return /./;
+  if (node.kind === 'char' || node.kind === 'class') {
+    try {
+      return new RegExp(node.text, flags.replace(/[gy]/g, ''));
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+function overlaps(a: RegexNode, b: RegexNode, flags: string): boolean {
+  const ra = atomRegex(a, flags);
+  const rb = atomRegex(b, flags);
+  if (!ra || !rb) return false;
+  return PROBE_CHARS.some(ch => ra.test(ch) && rb.test(ch));
+}
+
+function walk(sequences: RegexNode[][], visit: (node: RegexNode) => void): void {
+  for (const seq of sequences) {
+    for (const node of seq) {
+      visit(node);
+      walk(node.alternatives, visit);
+    }
+  }
+}
+
+function hasUnboundedRepeat(sequences: RegexNode[][]): boolean {
+  let found = false;
+  walk(sequences, node => {
+    if (node.max === Infinity) found = true;
+  });
+  return found;
+}
+
+/**
+ * Structures that make a regex backtrack badly on non-matching input:
+ * a repeated group containing an unbounded repeat (`(\w+\s?)+`), a repeated
+ * alternation whose branches can start the same way (`(a|ab)*`), and
+ * adjacent unbounded repeats over the same characters (`.*\s*`).
+ */
+export function backtrackingRisks(pattern: RegExp): { level: VerifyIssue['level']; message: string }[] {
+  const risks: { level: VerifyIssue['level']; message: string }[] = [];
+  const tree = parseRegex(pattern.source);
+
+  walk(tree, node => {
+    if (node.kind !== 'group' || node.max <= 1) return;
+    if (hasUnboundedRepeat(node.alternatives)) {
+      risks.push({ level: 'error', message: `nested quantifier in ${node.text}: exponential backtracking on near misses` });
+      return;
+    }
+    const firsts = node.alternatives.map(seq => seq[0]).filter((n): n is RegexNode => !!n);
+    for (let a = 0; a < firsts.length; a++) {
+      for (let b = a + 1; b < firsts.length; b++) {
+        if (overlaps(firsts[a], firsts[b], pattern.flags)) {
+          risks.push({ level: 'error', message: `repeated alternation with overlapping branches in ${node.text}` });
+          return;
+        }
+      }
+    }
+  });
+
+  const sequences: RegexNode[][] = [...tree];
+  walk(tree, node => sequences.push(...node.alternatives));
+  for (const seq of sequences) {
+    for (let k = 1; k < seq.length; k++) {
+      const [prev, cur] = [seq[k - 1], seq[k]];
+      if (prev.max === Infinity && cur.max === Infinity && overlaps(prev, cur, pattern.flags)) {
+        risks.push({ level: 'warning', message: `adjacent unbounded repeats of ${prev.text} and ${cur.text} can split the same text many ways` });
+      }
+    }
+  }
+  return risks;
+}
+
+// ── Placeholders ──
+
+function emptyMatch(pattern: RegExp): RegExpExecArray {
+  // An empty alternative makes the regex match '', which reports every group
+  return new RegExp(`${pattern.source}|`, pattern.flags.replace(/[gy]/g, '')).exec('')!;
+}
+
+export function captureGroupCount(pattern: RegExp): number {
+  return emptyMatch(pattern).length - 1;
+}
+
+export function captureGroupNames(pattern: RegExp): string[] {
+  return Object.keys(emptyMatch(pattern).groups ?? {});
+}
+
+/** `$n` and `$<name>` references in an entry's fix, steps, docs and commands, with where each appears. */
+function groupReferences(entry: ErrorEntry): { field: string; group?: number; name?: string }[] {
+  const fields: [string, string | null | undefined][] = [
+    ['fix', entry.fix],
+    ...(entry.steps ?? []).flatMap((step, i): [string, string | undefined][] => [[`steps[${i}].text`, step.text], [`steps[${i}].code`, step.code]]),
+    ...(entry.docs ?? []).map((doc, i): [string, string] => [`docs[${i}].url`, doc.url]),
+    ['autoFixCmd', entry.autoFixCmd],
+    ...Object.entries(entry.autoFixCmdByPlatform ?? {}).map(([p, cmd]): [string, string | null | undefined] => [`autoFixCmdByPlatform.${p}`, cmd]),
+    ...(entry.alternatives ?? []).flatMap((alt, i): [string, string | null | undefined][] => [
+      [`alternatives[${i}].fix`, alt.fix],
+      [`alternatives[${i}].autoFixCmd`, alt.autoFixCmd],
+      ...(alt.steps ?? []).flatMap((step, j): [string, string | undefined][] => [[`alternatives[${i}].steps[${j}].text`, step.text], [`alternatives[${i}].steps[${j}].code`, step.code]]),
+    ]),
+  ];
+  return fields.flatMap(([field, text]) => {
+    const { groups, names } = templateReferences(text ?? '');
+    return [...groups.map(group => ({ field, group })), ...names.map(name => ({ field, name }))];
+  });
+}
+
+// ── Verification ──
+
+/** Like `pattern.test`, but unaffected by the g and y flags' lastIndex. */
+function matches(pattern: RegExp, text: string): boolean {
+  return text.search(pattern) !== -1;
+}
+
+function quote(text: string): string {
+  const oneLine = text.replace(/\n/g, '\\n');
+  return JSON.stringify(oneLine.length > 80 ? `${oneLine.slice(0, 77)}...` : oneLine);
+}
+
+export function verifyDatabase(db: readonly ErrorEntry[], options: VerifyOptions = {}): VerifyReport {
+  const issues: VerifyIssue[] = [];
+  const checked = db.filter(e => !options.only || options.only(e));
+  let exampleCount = 0;
+
+  for (const entry of checked) {
+    const report = (kind: VerifyIssueKind, level: VerifyIssue['level'], message: string): void => {
+      issues.push({ kind, level, title: entry.title, source: entrySource(entry), message });
+    };
+    const examples = entry.examples ?? [];
+    exampleCount += examples.length + (entry.counterExamples?.length ?? 0);
+
+    if (examples.length === 0) {
+      report('no-examples', 'warning', 'no examples to check the pattern against');
+    }
+
+    for (const example of examples) {
+      const own = example.match(entry.pattern);
+      if (!own) {
+        report('example-not-matched', 'error', `example ${quote(example)} doesn't match ${entry.pattern}`);
+        continue;
+      }
+      const values = templateValues(entry, own.slice(1), Object.fromEntries(Object.entries(own.groups ?? {}).map(([k, v]) => [k, v ?? ''])));
+      for (const { field, group, name } of groupReferences(entry)) {
+        if (group !== undefined && group <= own.length - 1 && own[group] === undefined) {
+          report('placeholder', 'warning', `$${group} in ${field} is empty for example ${quote(example)}`);
+        } else if (name !== undefined && name in values && !values[name]) {
+          report('placeholder', 'warning', `$<${name}> in ${field} is empty for example ${quote(example)}`);
+        }
+      }
+
+      // Examples are short, so the naive matcher is cheaper than building an index each time
+      const diagnosed = analyzeInput(example, db, { indexed: false });
+      const mine = diagnosed.find(m => m.entry === entry);
+      if (!mine) {
+        const claimed = diagnosed.find(m => m.entry.title === entry.title);
+        const by = claimed ? `an earlier "${claimed.entry.title}" entry (${claimed.entry.pattern})` : diagnosed.map(m => `"${m.entry.title}"`).join(', ');
+        report('shadowed', 'error', `example ${quote(example)} is reported as ${by || 'nothing'}`);
+      } else if (diagnosed[0] !== mine) {
+        report('outranked', 'warning', `example ${quote(example)} ranks "${diagnosed[0].entry.title}" first`);
+      }
+    }
+
+    for (const counter of entry.counterExamples ?? []) {
+      if (matches(entry.pattern, counter)) {
+        report('counterexample-matched', 'error', `counterexample ${quote(counter)} matches ${entry.pattern}`);
+      }
+    }
+
+    const groups = captureGroupCount(entry.pattern);
+    const known = [...captureGroupNames(entry.pattern)];
+    for (const [name, spec] of Object.entries(entry.variables ?? {})) {
+      if (typeof spec.from === 'number' ? spec.from > groups : !known.includes(spec.from)) {
+        report('placeholder', 'error', `variables.${name} starts from ${typeof spec.from === 'number' ? `group ${spec.from}` : `"${spec.from}"`}, which ${entry.pattern} doesn't capture`);
+      }
+      known.push(name);
+    }
+    for (const { field, group, name } of groupReferences(entry)) {
+      if (group !== undefined && group > groups) {
+        report('placeholder', 'error', `$${group} in ${field} but ${entry.pattern} has ${groups} capture group${groups !== 1 ? 's' : ''}`);
+      } else if (name !== undefined && !known.includes(name)) {
+        report('placeholder', 'error', `$<${name}> in ${field} is neither a named group of ${entry.pattern} nor a variable`);
+      }
+    }
+
+    // Another entry that matches exactly this one's examples, and vice versa, adds nothing
+    const index = db.indexOf(entry);
+    const twin = db.find((other, i) => i < index && examples.length > 0 && other.examples?.length
+      && examples.every(x => matches(other.pattern, x))
+      && other.examples.every(x => matches(entry.pattern, x)));
+    if (twin) {
+      report('redundant', 'warning', `matches the same examples as "${twin.title}" (${twin.pattern})`);
+    }
+
+    for (const risk of backtrackingRisks(entry.pattern)) {
+      report('backtracking', risk.level, risk.message);
+    }
+  }
+
+  return {
+    checked: checked.length,
+    examples: exampleCount,
+    issues,
+    errors: issues.filter(i => i.level === 'error').length,
+    warnings: issues.filter(i => i.level === 'warning').length,
+  };
+}
@@ -0,0 +1,11 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/** Version from package.json, which sits one level above dist/ and src/. */
+export const VERSION: string = (() => {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8')).version;
+  } catch {
+    return '0.0.0';
+  }
+})();
@@ -0,0 +1,53 @@
+import { type DiagnosisSummary } from './runtime.js';
+import { FailureDiagnoser, type ReporterOptions } from './reporter.js';
+
+// ── Vitest Reporter ──
+//
+//   // vitest.config.ts
+//   test: { reporters: ['default', '@lxgicstudios/ai-error/vitest-reporter'] }
+//
+// Stores the diagnosis of each failed test on `task.meta.aiError` (where
+// other reporters and the JSON output can read it) and prints a summary
+// after the run.
+
+/** The parts of Vitest's task tree the reporter reads and annotates. */
+interface VitestTask {
+  name: string;
+  type: string;
+  tasks?: VitestTask[];
+  suite?: VitestTask;
+  meta?: Record<string, unknown> & { aiError?: DiagnosisSummary };
+  result?: { state?: string; errors?: unknown[] };
+}
+
+function fullName(task: VitestTask): string {
+  const names: string[] = [];
+  for (let t: VitestTask | undefined = task; t; t = t.suite) {
+    if (t.name) names.unshift(t.name);
+  }
+  return names.join(' › ');
+}
+
+class AiErrorVitestReporter {
+  private diagnoser: FailureDiagnoser;
+
+  constructor(options: ReporterOptions = {}) {
+    this.diagnoser = new FailureDiagnoser(options);
+  }
+
+  onFinished(files: VitestTask[] = []): void {
+    const visit = (task: VitestTask): void => {
+      task.tasks?.forEach(visit);
+      // Files and suites fail on their own when a hook or the import throws
+      const [error] = task.result?.errors ?? [];
+      if (task.result?.state !== 'fail' || error === undefined) return;
+      const found = this.diagnoser.diagnose(fullName(task), error);
+      if (found) (task.meta ??= {}).aiError = found.summary;
+    };
+    files.forEach(visit);
+    this.diagnoser.printSummary();
+  }
+}
+
+// Assigned to module.exports so both require() and import get the class itself
+export = AiErrorVitestReporter;
@@ -0,0 +1,78 @@
+// Grouping lines into one result per title, occurrence counts and segments,
+// checked on whole analyzeInput results over small packs.
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { analyzeInput, compilePack, matchesBySegment, occurrenceStats, segmentLabel } from '../dist/index.js';
+
+/** Entries of a pack built from `patterns`, errors unless they say otherwise. */
+function pack(...patterns) {
+  return compilePack({
+    name: 'test',
+    patterns: patterns.map(p => ({ category: 'Test', explanation: 'Test entry.', fix: 'Fix it.', severity: 'error', ...p })),
+  }, 'test.json', 'test').entries;
+}
+
+/** A match as `title line ×occurrences confidence`, for comparing whole results. */
+function summary(m) {
+  return `${m.entry.title} L${m.lineNumber} ×${m.occurrences.length} ${m.confidence}`;
+}
+
+const TSC = pack(
+  { title: 'Name Not Found', pattern: "error TS2304: Cannot find name '(\\w+)'" },
+  { title: 'Missing Property', pattern: "error TS2339: Property '(\\w+)' does not exist" },
+);
+
+test('entries sharing a title are one result, and each line counts once', () => {
+  const db = pack(
+    { title: 'Port In Use', pattern: 'EADDRINUSE' },
+    { title: 'Port In Use', pattern: 'address already in use :::(\\d+)' },
+  );
+  const matches = analyzeInput([
+    'Error: listen EADDRINUSE: address already in use :::3000',
+    '',
+    'Error: listen EADDRINUSE: address already in use :::3001',
+  ].join('\n'), db);
+
+  assert.deepEqual(matches.map(summary), ['Port In Use L1 ×2 0.73']);
+  // The first entry to match a line describes it
+  assert.deepEqual(matches[0].occurrences.map(o => [o.lineNumber, o.groups, o.code, o.block]), [
+    [1, [], 'EADDRINUSE', 1],
+    [3, [], 'EADDRINUSE', 2],
+  ]);
+});
+
+test('occurrenceStats counts every occurrence by file and code', () => {
+  const matches = analyzeInput([
+    "src/a.ts(3,5): error TS2304: Cannot find name 'foo'.",
+    "src/a.ts(9,1): error TS2304: Cannot find name 'bar'.",
+    "src/b.ts(1,1): error TS2339: Property 'x' does not exist on type 'Y'.",
+  ].join('\n'), TSC);
+
+  assert.deepEqual(matches.map(summary), ['Name Not Found L1 ×2 0.87', 'Missing Property L3 ×1 0.78']);
+  assert.deepEqual(matches[0].occurrences.map(o => [o.location, o.named, o.groups]), [
+    [{ file: 'src/a.ts', line: 3, col: 5 }, {}, ['foo']],
+    [{ file: 'src/a.ts', line: 9, col: 1 }, {}, ['bar']],
+  ]);
+  assert.deepEqual(occurrenceStats(matches), {
+    total: 3,
+    byFile: { 'src/a.ts': 2, 'src/b.ts': 1 },
+    byCode: { TS2304: 2, TS2339: 1 },
+  });
+  assert.deepEqual(occurrenceStats([]), { total: 0, byFile: {}, byCode: {} });
+});
+
+test('matchesBySegment lists each match under every package that printed it', () => {
+  const matches = analyzeInput([
+    "@acme/web:build: src/a.ts(3,5): error TS2304: Cannot find name 'foo'.",
+    "@acme/api:build: src/b.ts(1,1): error TS2339: Property 'x' does not exist on type 'Y'.",
+    "@acme/api:build: src/c.ts(2,2): error TS2304: Cannot find name 'baz'.",
+    "src/d.ts(1,1): error TS2304: Cannot find name 'qux'.",
+  ].join('\n'), TSC);
+
+  assert.deepEqual(matches.map(summary), ['Name Not Found L1 ×3 0.87', 'Missing Property L2 ×1 0.78']);
+  assert.deepEqual(matchesBySegment(matches).map(s => [segmentLabel(s.segment), s.matches.map(m => m.entry.title)]), [
+    ['@acme/web:build', ['Name Not Found']],
+    ['@acme/api:build', ['Name Not Found', 'Missing Property']],
+  ]);
+});
@@ -0,0 +1,77 @@
+// Fix plans for --apply: quoting captured values, risk classes and which
+// commands make it into the plan.
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ERROR_DB, analyzeInput, buildFixPlan, classifyCommand, shellQuote } from '../dist/index.js';
+
+function plan(input, platform = 'linux', hasProgram = () => true) {
+  return buildFixPlan(analyzeInput(input, ERROR_DB), input, platform, hasProgram);
+}
+
+test('shellQuote passes plain values and quotes the rest as one argument', () => {
+  const cases = [
+    ['express', 'linux', 'express'],
+    ['@types/node', 'linux', '@types/node'],
+    ['a$(id)', 'linux', "'a$(id)'"],
+    ["it's", 'linux', "'it'\\''s'"],
+    ['a&b', 'win32', '"a&b"'],
+    ['C:\\x y', 'win32', '"C:\\x y"'],
+    ['50%', 'win32', null],
+    ['say "hi"', 'win32', null],
+    ['-g', 'linux', null],
+  ];
+  for (const [value, platform, expected] of cases) {
+    assert.equal(shellQuote(value, platform), expected, `${value} on ${platform}`);
+  }
+});
+
+test('classifyCommand', () => {
+  const cases = [
+    ['npm install express', 'safe'],
+    ['python -m pip install requests', 'safe'],
+    ['cd app && npm install', 'safe'],
+    ['node --max-old-space-size=8192 index.js', 'launches'],
+    ['node', 'launches'],
+    ['npm run dev', 'launches'],
+    ['open -a Docker', 'launches'],
+    ['export NODE_OPTIONS=--openssl-legacy-provider', 'shell-only'],
+    ['ulimit -n 10240', 'shell-only'],
+    ['rm -rf node_modules && npm install', 'destructive'],
+    ['rm -rf node_modules/.vite && npm run dev', 'destructive'],
+    ['sudo systemctl start docker', 'privileged'],
+  ];
+  for (const [cmd, risk] of cases) assert.equal(classifyCommand(cmd), risk, cmd);
+});
+
+test('captured text is quoted into the command and cannot raise or lower its risk', () => {
+  const [step] = plan("Error: Cannot find module 'a$(id); rm -rf ~'");
+  assert.equal(step.command, "npm install 'a$(id); rm -rf ~'");
+  assert.equal(step.risk, 'safe');
+});
+
+test('a capture that cannot be passed safely drops the command', () => {
+  assert.deepEqual(plan("Error: Cannot find module '-g'"), []);
+});
+
+test('memory fixes are printed for the shell rather than run', () => {
+  const [heap] = plan('FATAL ERROR: Reached heap limit Allocation failed - JavaScript heap out of memory');
+  assert.equal(heap.command, 'export NODE_OPTIONS=--max-old-space-size=8192');
+  assert.equal(heap.risk, 'shell-only');
+  assert.equal(plan('Error: ENOMEM: not enough memory, read', 'win32')[0].command, 'set NODE_OPTIONS=--max-old-space-size=4096');
+});
+
+test('commands for a package manager that is not installed are left out', () => {
+  const linker = 'error: linker `cc` not found';
+  assert.equal(plan(linker, 'linux', name => name === 'apt-get')[0].command, 'sudo apt-get install -y build-essential');
+  assert.deepEqual(plan(linker, 'linux', name => name === 'dnf'), []);
+  assert.equal(plan(linker, 'darwin', () => false)[0].command, 'xcode-select --install');
+});
+
+test('placeholders the error answers are filled, the rest are missing', () => {
+  const [step] = plan('Error: EADDRINUSE: address already in use :::3000');
+  assert.equal(step.command, 'lsof -i :3000 | grep LISTEN');
+  const [remote] = plan('fatal: remote origin already exists.');
+  assert.equal(remote.command, null);
+  assert.deepEqual(remote.missing, ['new-url']);
+});
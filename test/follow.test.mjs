@@ -0,0 +1,73 @@
+// Tailing a log file: multibyte characters split between reads, truncation
+// and a path that can't be read.
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { followFile } from '../dist/index.js';
+
+function tempFile(t) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-error-follow-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return path.join(dir, 'app.log');
+}
+
+/**
+ * Follow `file` from the start until `count` lines have arrived, calling
+ * `step` after each poll so the test can change the file in between.
+ */
+function collect(file, count, step = () => {}) {
+  const lines = [];
+  const controller = new AbortController();
+  const done = followFile(file, line => {
+    lines.push(line);
+    if (lines.length >= count) controller.abort();
+  }, { fromStart: true, pollInterval: 5, signal: controller.signal });
+  const timer = setInterval(() => step(lines), 5);
+  const timeout = setTimeout(() => controller.abort(), 5000);
+  return done.then(() => lines).finally(() => {
+    clearInterval(timer);
+    clearTimeout(timeout);
+  });
+}
+
+test('a character split across two reads is decoded whole', async t => {
+  const file = tempFile(t);
+  // The 64 KB read boundary falls inside the three bytes of "€"
+  const line = `${'x'.repeat(64 * 1024 - 1)}€ end`;
+  fs.writeFileSync(file, `${line}\nnext\n`);
+  assert.deepEqual(await collect(file, 2), [line, 'next']);
+});
+
+test('a character split across two writes is decoded whole', async t => {
+  const file = tempFile(t);
+  const euro = Buffer.from('€');
+  fs.writeFileSync(file, Buffer.concat([Buffer.from('price: '), euro.subarray(0, 1)]));
+  let written = false;
+  const lines = await collect(file, 1, () => {
+    if (written) return;
+    written = true;
+    fs.appendFileSync(file, Buffer.concat([euro.subarray(1), Buffer.from('5\n')]));
+  });
+  assert.deepEqual(lines, ['price: €5']);
+});
+
+test('a truncated file is read again from the top', async t => {
+  const file = tempFile(t);
+  fs.writeFileSync(file, 'first run\n');
+  let truncated = false;
+  const lines = await collect(file, 2, seen => {
+    if (truncated || !seen.length) return;
+    truncated = true;
+    fs.writeFileSync(file, 'two\n');
+  });
+  assert.deepEqual(lines, ['first run', 'two']);
+});
+
+test('a path that can\'t be read rejects', async t => {
+  // A directory opens but fails to read, even for root
+  const dir = path.dirname(tempFile(t));
+  await assert.rejects(followFile(dir, () => {}, { pollInterval: 5 }), { code: 'EISDIR' });
+});
@@ -0,0 +1,35 @@
+// Output formats built from real diagnoses of the built-in database.
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ERROR_DB, analyzeInput, buildResults, getFormatter, parseStack } from '../dist/index.js';
+
+function format(name, input) {
+  return getFormatter(name).format(buildResults(analyzeInput(input, ERROR_DB), input, parseStack(input)));
+}
+
+test('markdown fences are longer than any backtick run they contain', () => {
+  const out = format('markdown', "Error: Cannot find module 'a```b'");
+  assert.ok(out.includes("````\nError: Cannot find module 'a```b'\n````"));
+  assert.match(out, /^````sh\nnpm install .a```b.\n````$/m);
+  assert.ok(!/^```\n/m.test(out));
+});
+
+function sarifUris(input, cwd) {
+  const results = buildResults(analyzeInput(input, ERROR_DB), input, parseStack(input));
+  const sarif = JSON.parse(getFormatter('sarif').format(results, { cwd }));
+  return sarif.runs[0].results.map(r => r.locations?.[0].physicalLocation.artifactLocation);
+}
+
+test('SARIF locations are relative to the project root', () => {
+  const error = "TypeError: Cannot read properties of undefined (reading 'x')";
+  assert.deepEqual(sarifUris(`${error}\n    at main (/work/app/src/my file.ts:2:1)`, '/work/app'), [{ uri: 'src/my%20file.ts', uriBaseId: '%SRCROOT%' }]);
+  assert.deepEqual(sarifUris(`${error}\n    at main (C:\\work\\app\\src\\x.ts:2:1)`, 'C:\\work\\app'), [{ uri: 'src/x.ts', uriBaseId: '%SRCROOT%' }]);
+  assert.deepEqual(sarifUris("src/app.ts(3,5): error TS2304: Cannot find name 'foo'.", '/work/app'), [{ uri: 'src/app.ts', uriBaseId: '%SRCROOT%' }]);
+});
+
+test('SARIF compares redacted paths with a redacted root', () => {
+  const error = "TypeError: Cannot read properties of undefined (reading 'x')";
+  assert.deepEqual(sarifUris(`${error}\n    at main (~/app/src/x.ts:2:1)`, '~/app'), [{ uri: 'src/x.ts', uriBaseId: '%SRCROOT%' }]);
+  assert.deepEqual(sarifUris(`${error}\n    at main (/opt/lib/x.js:2:1)`, '~/app'), [{ uri: '/opt/lib/x.js' }]);
+});
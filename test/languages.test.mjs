@@ -0,0 +1,100 @@
+// Language detection: which lines identify each language, and how a mixed
+// CI log is split into blocks and same-language runs.
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { BlockTracker, detectLanguage, languageSegments } from '../dist/index.js';
+
+const DETECTED = [
+  ['python', 'Traceback (most recent call last):'],
+  ['python', '  File "/app/main.py", line 3, in <module>'],
+  ['python', "ModuleNotFoundError: No module named 'requests'"],
+  ['python', "TypeError: 'NoneType' object is not subscriptable"],
+  ['python', 'During handling of the above exception, another exception occurred:'],
+  ['python', 'The above exception was the direct cause of the following exception:'],
+  ['python', 'error: externally-managed-environment'],
+  ['python', 'ERROR: Could not find a version that satisfies the requirement torch==9.9'],
+  ['go', 'panic: runtime error: index out of range [5] with length 3'],
+  ['go', 'goroutine 1 [running]:'],
+  ['go', 'fatal error: all goroutines are asleep - deadlock!'],
+  ['go', './main.go:12:2: undefined: foo'],
+  ['go', 'go: updates to go.mod needed; to update it:'],
+  ['rust', 'error[E0308]: mismatched types'],
+  ['rust', 'warning[unused_imports]: unused import: `std::fs`'],
+  ['rust', "thread 'main' panicked at src/main.rs:4:5:"],
+  ['rust', '  --> src/main.rs:4:5'],
+  ['rust', '   Compiling serde v1.0.188'],
+  ['rust', 'error: could not compile `app` (bin "app") due to 1 previous error'],
+  ['java', 'Exception in thread "main" java.lang.NullPointerException'],
+  ['java', 'Caused by: java.io.FileNotFoundException: config.yml (No such file or directory)'],
+  ['java', '\tat com.acme.App.main(App.java:12)'],
+  ['java', 'src/main/java/App.java:5: error: cannot find symbol'],
+  ['java', 'e: file:///app/src/main/kotlin/Main.kt:3:5 Unresolved reference: foo'],
+  // JavaScript and TypeScript are the default, so nothing claims them
+  [null, "TypeError: Cannot read properties of undefined (reading 'x')"],
+  [null, 'TypeError: x is not a function'],
+  [null, '    at main (/app/index.js:3:1)'],
+  [null, "Error: Cannot find module 'express'"],
+  [null, 'SyntaxError: Unexpected token }'],
+  [null, "src/app.ts(3,5): error TS2304: Cannot find name 'foo'."],
+];
+
+test('detectLanguage recognizes the lines only one language prints', () => {
+  for (const [language, line] of DETECTED) {
+    assert.equal(detectLanguage(line)?.name ?? null, language, line);
+  }
+});
+
+/** A CI log with a block in every language, one `[block, language, line]` row per line; null for blank lines. */
+const MIXED = [
+  [1, 'js', 'npm ERR! code ELIFECYCLE'],
+  [2, 'python', 'Traceback (most recent call last):'],
+  [2, 'python', '  File "/app/scripts/seed.py", line 8, in <module>'],
+  [2, 'python', '    import requests'],
+  [2, 'python', "ModuleNotFoundError: No module named 'requests'"],
+  [3, 'js', "TypeError: Cannot read properties of undefined (reading 'id')"],
+  [3, 'js', '    at seed (/app/src/seed.js:12:5)'],
+  [4, 'go', 'panic: runtime error: invalid memory address or nil pointer dereference'],
+  [4, 'go', '[signal SIGSEGV: segmentation violation code=0x1 addr=0x0 pc=0x48f1a2]'],
+  [null, null, ''],
+  [5, 'go', 'goroutine 1 [running]:'],
+  [5, 'go', 'main.main()'],
+  [5, 'go', '\t/app/cmd/main.go:14 +0x1d'],
+  [5, 'go', 'exit status 2'],
+  [6, 'rust', 'error[E0425]: cannot find value `x` in this scope'],
+  [6, 'rust', ' --> src/main.rs:2:13'],
+  [6, 'rust', '  |'],
+  [6, 'rust', '2 |     let y = x;'],
+  [6, 'rust', '  |             ^ not found in this scope'],
+  [7, 'java', 'Exception in thread "main" java.lang.IllegalStateException: boom'],
+  [7, 'java', '\tat com.acme.App.main(App.java:9)'],
+  [7, 'java', 'Caused by: java.io.IOException: disk'],
+  [7, 'java', '\t... 1 more'],
+];
+
+test('BlockTracker starts a block where a line does not continue the last one', () => {
+  const tracker = new BlockTracker();
+  const rows = MIXED.map(([, , line]) => (tracker.push(line) ? [tracker.block, tracker.language?.name ?? 'js', line] : [null, null, line]));
+  assert.deepEqual(rows, MIXED);
+});
+
+test('a block switches to the first language one of its lines identifies', () => {
+  const tracker = new BlockTracker();
+  // A wrapper's JavaScript-looking header with the Python frame under it
+  for (const line of ['Error: seed script failed', '  File "/app/seed.py", line 2, in <module>']) tracker.push(line);
+  assert.deepEqual([tracker.block, tracker.language?.name], [1, 'python']);
+});
+
+test('languageSegments joins consecutive blocks of the same language', () => {
+  const segments = languageSegments(MIXED.map(([, , line]) => line));
+  assert.deepEqual(segments.map(s => [s.language?.name ?? null, s.lines.length]), [
+    [null, 1],
+    ['python', 4],
+    [null, 2],
+    ['go', 7],
+    ['rust', 5],
+    ['java', 4],
+  ]);
+  // The blank line stays with the Go block above it
+  assert.equal(segments[3].lines[2], '');
+});
@@ -0,0 +1,45 @@
+// The pattern index only decides which regexes run on a line, so it must
+// find exactly what testing every entry on every line finds. Checked on every
+// example in the built-in database and on the benchmark's real logs; the
+// benchmark itself only measures speed.
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ERROR_DB, analyzeInput } from '../dist/index.js';
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'bench', 'fixtures');
+
+/** Everything a caller can observe about the matches, in order. */
+function snapshot(matches) {
+  return matches.map(m => ({
+    title: m.entry.title,
+    pattern: String(m.entry.pattern),
+    confidence: m.confidence,
+    occurrences: m.occurrences,
+  }));
+}
+
+function assertSameAsNaive(text, label) {
+  const naive = analyzeInput(text, ERROR_DB, { indexed: false });
+  assert.deepEqual(snapshot(analyzeInput(text, ERROR_DB)), snapshot(naive), label);
+  return naive.length;
+}
+
+test('indexed matching finds what naive matching finds for every database example', () => {
+  const examples = ERROR_DB.flatMap(e => [...(e.examples ?? []), ...(e.counterExamples ?? [])]);
+  assert.ok(examples.length > ERROR_DB.length);
+  for (const example of examples) assertSameAsNaive(example, example);
+  // One log with all of them, so ranking and block boundaries interact
+  assert.ok(assertSameAsNaive(examples.join('\n'), 'all examples') > 100);
+});
+
+test('indexed matching finds what naive matching finds on the benchmark logs', () => {
+  const logs = fs.readdirSync(FIXTURES).filter(f => f.endsWith('.log')).sort();
+  assert.ok(logs.length > 0);
+  const texts = logs.map(f => fs.readFileSync(path.join(FIXTURES, f), 'utf8'));
+  logs.forEach((name, i) => assert.ok(assertSameAsNaive(texts[i], name) > 0, `${name} matches something`));
+  assertSameAsNaive(texts.join('\n'), 'all fixtures');
+});
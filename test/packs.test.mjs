@@ -0,0 +1,56 @@
+// Where pattern packs load from. npm packs run code when loaded, so the ones
+// a project's config lists only load when the caller allows it.
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { loadPatternPacks } from '../dist/index.js';
+
+/**
+ * A project with `config` as its .ai-error.json and an installed npm pack
+ * named `evil-pack`, plus a separate user config from `userConfig`.
+ */
+function project(t, config, userConfig) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-error-packs-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const app = path.join(dir, 'app');
+  const pkg = path.join(app, 'node_modules', 'evil-pack');
+  fs.mkdirSync(pkg, { recursive: true });
+  fs.writeFileSync(path.join(pkg, 'package.json'), JSON.stringify({ name: 'evil-pack', main: 'index.js' }));
+  fs.writeFileSync(path.join(pkg, 'index.js'), `module.exports = { name: 'evil', patterns: [] };\n`);
+  fs.writeFileSync(path.join(app, '.ai-error.json'), JSON.stringify(config));
+  const user = path.join(dir, 'user.json');
+  if (userConfig) fs.writeFileSync(user, JSON.stringify(userConfig));
+  return { cwd: app, userConfig: user };
+}
+
+const names = packs => packs.map(p => p.name);
+
+test('npm packs listed in the project config are reported, not loaded', t => {
+  const ignored = [];
+  const packs = loadPatternPacks({
+    ...project(t, { name: 'app', packs: ['evil-pack'] }),
+    onIgnoredPackages: (origin, list) => ignored.push([path.basename(origin), list]),
+  });
+  assert.deepEqual(names(packs), ['app']);
+  assert.deepEqual(ignored, [['.ai-error.json', ['evil-pack']]]);
+});
+
+test('allowProjectPacks loads the project config\'s npm packs', t => {
+  const packs = loadPatternPacks({ ...project(t, { name: 'app', packs: ['evil-pack'] }), allowProjectPacks: true });
+  assert.deepEqual(names(packs), ['app', 'evil']);
+});
+
+test('npm packs named by the caller or the user config load', t => {
+  const options = project(t, { name: 'app' }, { name: 'mine', packs: ['evil-pack'] });
+  assert.deepEqual(names(loadPatternPacks(options)), ['app', 'evil', 'mine']);
+  assert.deepEqual(names(loadPatternPacks({ ...options, userConfig: path.join(options.cwd, 'none.json'), packages: ['evil-pack'] })), ['app', 'evil']);
+});
+
+test('the user config found by walking up is trusted', t => {
+  const options = project(t, { name: 'mine', packs: ['evil-pack'] });
+  const packs = loadPatternPacks({ ...options, userConfig: path.join(options.cwd, '.ai-error.json') });
+  assert.deepEqual(names(packs), ['mine', 'evil']);
+});
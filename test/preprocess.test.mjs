@@ -0,0 +1,131 @@
+// CI log preprocessing: each kind of formatting a CI system or monorepo tool
+// wraps lines in, and the segment (package, task or CI group) each line ends
+// up under.
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { LogPreprocessor, cleanLog, preprocessLog, segmentLabel, stripAnsi } from '../dist/index.js';
+
+/** Each case's log, and `[text, segment label]` for every line of it; null for lines outside any segment. */
+const CASES = [
+  {
+    name: 'ANSI colors and hyperlinks',
+    log: [
+      '\x1b[31merror\x1b[39m TS2304: \x1b[1mCannot find name\x1b[22m',
+      '\x1b]8;;https://nodejs.org\x07docs\x1b]8;;\x07 done',
+    ],
+    lines: [['error TS2304: Cannot find name', null], ['docs done', null]],
+  },
+  {
+    name: 'GitHub Actions timestamps, groups and workflow commands',
+    log: [
+      '2026-10-19T09:00:00.1234567Z ##[group]Run pnpm build',
+      '2026-10-19T09:00:01.0000000Z Error: boom',
+      '2026-10-19T09:00:02.0000000Z ##[endgroup]',
+      '2026-10-19T09:00:03.0000000Z ##[error]Process completed with exit code 1.',
+      '::error file=src/a.ts,line=1::Cannot find name',
+    ],
+    lines: [
+      ['', 'Run pnpm build'],
+      ['Error: boom', 'Run pnpm build'],
+      ['', null],
+      ['Process completed with exit code 1.', null],
+      ['Cannot find name', null],
+    ],
+  },
+  {
+    name: 'GitLab sections and job log timestamps',
+    log: [
+      'section_start:1697700000:install_deps[collapsed=true]\r\x1b[0KInstalling dependencies',
+      'npm ERR! code E404',
+      'section_end:1697700001:install_deps\r\x1b[0K',
+      '2026-10-19T09:00:00.000000Z 01O npm ERR! 404 Not Found',
+    ],
+    lines: [
+      ['Installing dependencies', 'install_deps'],
+      ['npm ERR! code E404', 'install_deps'],
+      ['', null],
+      ['npm ERR! 404 Not Found', null],
+    ],
+  },
+  {
+    name: 'Turborepo task prefixes and groups',
+    log: [
+      "@acme/web:build: src/a.ts(1,1): error TS2304: Cannot find name 'x'.",
+      '@acme/api:test:unit: FAIL src/a.test.ts',
+      'web:lint: ',
+      '::group::@acme/web:build',
+      'cache miss, executing 1a2b3c',
+      '::endgroup::',
+    ],
+    lines: [
+      ["src/a.ts(1,1): error TS2304: Cannot find name 'x'.", '@acme/web:build'],
+      ['FAIL src/a.test.ts', '@acme/api:test:unit'],
+      ['', 'web:lint'],
+      ['', '@acme/web:build'],
+      ['cache miss, executing 1a2b3c', '@acme/web:build'],
+      ['', null],
+    ],
+  },
+  {
+    name: 'Nx and npm script headers',
+    log: [
+      '> nx run web:build:production',
+      '',
+      'Error: boom',
+      '> @acme/api@1.0.0 test',
+      'FAIL src/a.test.ts',
+    ],
+    lines: [
+      ['> nx run web:build:production', 'web:build:production'],
+      ['', 'web:build:production'],
+      ['Error: boom', 'web:build:production'],
+      ['> @acme/api@1.0.0 test', '@acme/api:test'],
+      ['FAIL src/a.test.ts', '@acme/api:test'],
+    ],
+  },
+  {
+    name: 'pnpm -r directory prefixes',
+    log: [
+      'packages/web build$ tsc',
+      'packages/web build: src/a.ts(1,1): error TS2304',
+      '../libs/ui lint: warning  Unexpected console statement',
+    ],
+    lines: [
+      ['tsc', 'packages/web:build'],
+      ['src/a.ts(1,1): error TS2304', 'packages/web:build'],
+      ['warning  Unexpected console statement', '../libs/ui:lint'],
+    ],
+  },
+  {
+    name: 'progress bars redrawn with carriage returns',
+    log: ['Downloading 10%\rDownloading 50%\rDownloading 100%\r\r', 'Error: ECONNRESET\r'],
+    lines: [['Downloading 100%', null], ['Error: ECONNRESET', null]],
+  },
+];
+
+for (const { name, log, lines } of CASES) {
+  test(`preprocessLog: ${name}`, () => {
+    const actual = preprocessLog(log.join('\n')).map(l => [l.text, l.segment ? segmentLabel(l.segment) : null]);
+    assert.deepEqual(actual, lines);
+  });
+}
+
+test('a segment seen again is the same object, so matches can be grouped by it', () => {
+  const preprocessor = new LogPreprocessor();
+  const [web, api, webAgain] = ['web:build: a', 'api:build: b', 'web:build: c'].map(l => preprocessor.push(l).segment);
+  assert.deepEqual(web, { package: 'web', task: 'build', group: null });
+  assert.notEqual(web, api);
+  assert.equal(web, webAgain);
+});
+
+test('a line prefix wins over the header it is under', () => {
+  const lines = preprocessLog('> nx run web:build\napi:test: FAIL\nstill web');
+  assert.deepEqual(lines.map(l => segmentLabel(l.segment)), ['web:build', 'api:test', 'web:build']);
+});
+
+test('cleanLog keeps one line per input line, indentation included', () => {
+  const log = '2026-10-19T09:00:00.0000000Z ##[group]Test\n2026-10-19T09:00:01.0000000Z     at main (/app/index.js:1:1)\n::endgroup::';
+  assert.equal(cleanLog(log), '\n    at main (/app/index.js:1:1)\n');
+  assert.equal(stripAnsi('\x1b[2K\x1b[1G\x1b[?25lok'), 'ok');
+});
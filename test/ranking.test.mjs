@@ -0,0 +1,69 @@
+// Ranking: confidence from specificity, position and severity, and specific
+// matches hiding generic ones in the same error block. The packs are small so
+// every confidence can be worked out by hand.
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { analyzeInput, compilePack } from '../dist/index.js';
+
+/** Entries of a pack built from `patterns`, errors unless they say otherwise. */
+function pack(...patterns) {
+  return compilePack({
+    name: 'test',
+    patterns: patterns.map(p => ({ category: 'Test', explanation: 'Test entry.', fix: 'Fix it.', severity: 'error', ...p })),
+  }, 'test.json', 'test').entries;
+}
+
+/** A match as `title line ×occurrences confidence`, for comparing whole results. */
+function summary(m) {
+  return `${m.entry.title} L${m.lineNumber} ×${m.occurrences.length} ${m.confidence}`;
+}
+
+test('confidence weighs specificity, distance from the first error and severity', () => {
+  const db = pack(
+    { title: 'Deprecated', pattern: 'deprecated', severity: 'warning' },
+    { title: 'Refused', pattern: 'connect ECONNREFUSED' },
+    { title: 'Pool Closed', pattern: 'pool is closed' },
+  );
+  const matches = analyzeInput([
+    'warning: deprecated option "poolSize"',
+    'Error: connect ECONNREFUSED 127.0.0.1:5432',
+    'Error: pool is closed',
+  ].join('\n'), db);
+
+  // Refused: 0.5 * 20/32 + 0.3 * 1 + 0.2 * 1
+  // Pool Closed: 0.5 * 14/26 + 0.3 * 1/1.5 + 0.2 * 1
+  // Deprecated: 0.5 * 10/22 + 0.3 * 1/1.5 + 0.2 * 0.6
+  assert.deepEqual(matches.map(summary), ['Refused L2 ×1 0.81', 'Pool Closed L3 ×1 0.67', 'Deprecated L1 ×1 0.55']);
+});
+
+const MODULE_NOT_FOUND = [
+  "Error: Cannot find module 'left-pad'",
+  'Require stack:',
+  '- /app/index.js',
+  '    at Module._resolveFilename (node:internal/modules/cjs/loader:1207:15) {',
+  "  code: 'MODULE_NOT_FOUND',",
+  "  requireStack: [ '/app/index.js' ]",
+  '}',
+];
+
+test('a more specific match in the same error block hides a generic one', () => {
+  const db = pack(
+    { title: 'Error Code', pattern: "code: '(\\w+)'" },
+    { title: 'Module Missing', pattern: "Cannot find module '([^']+)'" },
+  );
+  assert.deepEqual(analyzeInput(MODULE_NOT_FOUND.join('\n'), db).map(summary), ['Module Missing L1 ×1 0.82']);
+
+  // Seen again outside that block, the generic match explains something else
+  const elsewhere = [...MODULE_NOT_FOUND, '', 'Error: EPERM', "  code: 'EPERM'"].join('\n');
+  assert.deepEqual(analyzeInput(elsewhere, db).map(summary), ['Module Missing L1 ×1 0.82', 'Error Code L5 ×2 0.6']);
+});
+
+test('a less severe match does not hide a generic error', () => {
+  const db = pack(
+    { title: 'Error Code', pattern: "code: '(\\w+)'" },
+    { title: 'Module Missing', pattern: "Cannot find module '([^']+)'", severity: 'warning' },
+  );
+  // The warning loses the position and severity points to the error after it
+  assert.deepEqual(analyzeInput(MODULE_NOT_FOUND.join('\n'), db).map(summary), ['Error Code L5 ×1 0.7', 'Module Missing L1 ×1 0.64']);
+});
@@ -0,0 +1,225 @@
+// Diagnosing error objects at runtime: the error tree itself, the process
+// hooks, the Express middleware and the Jest and Vitest reporters, each fed
+// the plain objects its host would hand it.
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ERROR_DB, FailureDiagnoser, aiErrorMiddleware, diagnoseError, formatDiagnosis, installHooks, summarizeDiagnosis } from '../dist/index.js';
+import JestReporter from '../dist/jest-reporter.js';
+import VitestReporter from '../dist/vitest-reporter.js';
+
+const REFUSED = {
+  name: 'Error',
+  message: 'connect ECONNREFUSED 127.0.0.1:5432',
+  code: 'ECONNREFUSED',
+  stack: 'Error: connect ECONNREFUSED 127.0.0.1:5432\n    at TCPConnectWrap.afterConnect [as oncomplete] (node:net:1555:16)',
+};
+
+const WRAPPED = {
+  name: 'Error',
+  message: 'database unavailable',
+  stack: 'Error: database unavailable\n    at connect (/app/src/db.js:10:11)',
+  cause: REFUSED,
+};
+
+const MISSING_MODULE = "Error: Cannot find module 'express'\n    at Object.<anonymous> (/app/src/server.js:1:17)";
+
+/** A stream that keeps what is written to it. */
+function collector() {
+  const chunks = [];
+  return { chunks, stream: { write: chunk => { chunks.push(String(chunk)); return true; } } };
+}
+
+test('diagnoseError matches the cause and keeps the error tree', () => {
+  const diagnosis = diagnoseError(WRAPPED, { db: ERROR_DB, sourceMaps: false });
+  assert.deepEqual(diagnosis.matches.map(m => m.entry.title), ['PostgreSQL: Connection Refused']);
+  assert.deepEqual(diagnosis.location, { file: '/app/src/db.js', line: 10, col: 11 });
+  const [root] = diagnosis.stack;
+  assert.deepEqual([root.message, root.cause.message, root.cause.code], ['database unavailable', 'connect ECONNREFUSED 127.0.0.1:5432', 'ECONNREFUSED']);
+  assert.match(diagnosis.text, /\n {2}\[cause\]: Error: connect ECONNREFUSED/);
+
+  const summary = summarizeDiagnosis(diagnosis);
+  assert.equal(summary.title, 'PostgreSQL: Connection Refused');
+  assert.deepEqual(summary.location, diagnosis.location);
+  assert.match(formatDiagnosis(diagnosis), /^ai-error: PostgreSQL: Connection Refused \[Database\] \d+% likely\n[^]*\n {2}At: \/app\/src\/db\.js:10:11/);
+});
+
+test('diagnoseError reads sub-errors and codes the message leaves out', () => {
+  const aggregate = {
+    name: 'AggregateError',
+    message: 'all attempts failed',
+    stack: 'AggregateError: all attempts failed\n    at retry (/app/src/retry.js:4:9)',
+    errors: [WRAPPED, { name: 'Error', message: 'require() failed', code: 'ERR_REQUIRE_ESM' }, 'not an error'],
+  };
+  const diagnosis = diagnoseError(aggregate, { db: ERROR_DB, sourceMaps: false });
+  const [root] = diagnosis.stack;
+  assert.deepEqual(root.errors.map(e => [e.name, e.code, e.message]), [
+    ['Error', null, 'database unavailable'],
+    ['Error', 'ERR_REQUIRE_ESM', 'require() failed'],
+    ['', null, 'not an error'],
+  ]);
+  assert.equal(root.errors[0].cause.code, 'ECONNREFUSED');
+  // The code is only on the object, and the printed tree is one block, so the stronger entry wins it
+  assert.match(diagnosis.text, /\n {4}Error \[ERR_REQUIRE_ESM\]: require\(\) failed\n/);
+  assert.deepEqual(diagnosis.matches.map(m => m.entry.title), ['Require ESM Module']);
+
+  // A thrown non-error still gets a diagnosis, with nothing matched
+  const thrown = diagnoseError(42, { db: ERROR_DB, sourceMaps: false });
+  assert.deepEqual([thrown.matches, summarizeDiagnosis(thrown)], [[], null]);
+});
+
+test('installHooks writes crashes and warnings to the stream, and its remover takes the listeners off', () => {
+  const before = ['uncaughtExceptionMonitor', 'warning'].map(e => process.listenerCount(e));
+  const { chunks, stream } = collector();
+  const origins = [];
+  const remove = installHooks({ db: ERROR_DB, stream, color: false, onDiagnosis: (d, origin) => origins.push(origin) });
+  try {
+    assert.deepEqual(['uncaughtExceptionMonitor', 'warning'].map(e => process.listenerCount(e)), before.map(n => n + 1));
+
+    process.emit('uncaughtExceptionMonitor', WRAPPED, 'unhandledRejection');
+    const warning = { name: 'DeprecationWarning', code: 'DEP0005', message: 'Buffer() is deprecated due to security and usability issues.' };
+    process.emit('warning', warning);
+    process.emit('warning', warning);
+    process.emit('uncaughtExceptionMonitor', new Error('nothing known'), 'uncaughtException');
+  } finally {
+    remove();
+  }
+  assert.deepEqual(['uncaughtExceptionMonitor', 'warning'].map(e => process.listenerCount(e)), before);
+
+  assert.deepEqual(origins, ['unhandledRejection', 'warning', 'warning', 'uncaughtException']);
+  // A warning is reported once, and an unmatched error not at all
+  assert.equal(chunks.length, 2);
+  assert.match(chunks[0], /^\nai-error: PostgreSQL: Connection Refused /);
+  assert.match(chunks[1], /^\nai-error: Deprecation Warning /);
+  assert.ok(chunks.every(c => c.endsWith('\n\n') && !c.includes('\x1b[')));
+
+  process.emit('uncaughtExceptionMonitor', WRAPPED, 'uncaughtException');
+  assert.equal(chunks.length, 2);
+});
+
+test('installHooks can leave warnings alone', () => {
+  const before = process.listenerCount('warning');
+  const remove = installHooks({ db: ERROR_DB, warnings: false, stream: collector().stream });
+  assert.equal(process.listenerCount('warning'), before);
+  remove();
+});
+
+/** A response with the parts of Express's the middleware touches, recording headers it sets. */
+function response(headersSent = false) {
+  const headers = {};
+  return { headers, locals: {}, headersSent, setHeader: (name, value) => { headers[name] = value; } };
+}
+
+test('the middleware passes the error on unchanged and stores the summary on res.locals', t => {
+  const logged = [];
+  t.mock.method(console, 'error', (...args) => logged.push(args.join(' ')));
+  const err = Object.assign(new Error("Cannot find module 'express'"), { stack: MISSING_MODULE });
+  const res = response();
+  const passed = [];
+
+  aiErrorMiddleware({ db: ERROR_DB })(err, { method: 'GET', originalUrl: '/users?id=1', url: '/users' }, res, e => passed.push(e));
+
+  assert.equal(passed.length, 1);
+  assert.equal(passed[0], err);
+  assert.equal(res.locals.aiError.title, 'Module Not Found');
+  assert.deepEqual(res.headers, {});
+  assert.equal(logged.length, 1);
+  assert.match(logged[0], /^GET \/users\?id=1\nai-error: Module Not Found /);
+});
+
+test('the middleware sends the title in a header only when asked, and before the headers go out', t => {
+  t.mock.method(console, 'error', () => {});
+  const err = { message: 'x', stack: MISSING_MODULE };
+  const cases = [
+    [{ header: true }, false, { 'X-AI-Error': 'Module Not Found' }],
+    [{ header: true }, true, {}],
+    [{}, false, {}],
+  ];
+  for (const [options, headersSent, headers] of cases) {
+    const res = response(headersSent);
+    aiErrorMiddleware({ db: ERROR_DB, log: false, ...options })(err, {}, res, () => {});
+    assert.deepEqual(res.headers, headers);
+  }
+  assert.equal(console.error.mock.callCount(), 0);
+});
+
+test('the middleware still calls next when nothing matched or the response has no locals', () => {
+  const passed = [];
+  const res = response();
+  aiErrorMiddleware({ db: ERROR_DB, log: false })('plain string', {}, res, e => passed.push(e));
+  aiErrorMiddleware({ db: ERROR_DB, log: false })(WRAPPED, {}, {}, e => passed.push(e));
+  assert.deepEqual(passed, ['plain string', WRAPPED]);
+  assert.deepEqual(res.locals, {});
+});
+
+test('FailureDiagnoser prints one summary of the failures it matched', () => {
+  const { chunks, stream } = collector();
+  const diagnoser = new FailureDiagnoser({ db: ERROR_DB, stream, color: false });
+  diagnoser.printSummary();
+  assert.deepEqual(chunks, []);
+
+  assert.equal(diagnoser.diagnose('db › connects', WRAPPED).summary.title, 'PostgreSQL: Connection Refused');
+  assert.equal(diagnoser.diagnose('math › adds', new Error('expected 3 to be 4')), null);
+  // Runner output is colored; entries match the plain text
+  assert.equal(diagnoser.diagnose('server › boots', `\x1b[31m${MISSING_MODULE}\x1b[39m`).summary.title, 'Module Not Found');
+  diagnoser.printSummary();
+
+  assert.equal(chunks.length, 1);
+  const [head, ...rest] = chunks[0].trim().split('\n');
+  assert.equal(head, 'ai-error: 2 of 3 failures diagnosed');
+  assert.deepEqual(rest.filter(l => l.startsWith('  ✗')), ['  ✗ db › connects', '  ✗ server › boots']);
+});
+
+test('the Jest reporter annotates failed assertions and the suite message', () => {
+  const { chunks, stream } = collector();
+  const reporter = new JestReporter({}, { db: ERROR_DB, stream, color: false });
+  const failed = { fullName: 'server boots', status: 'failed', failureMessages: [`\x1b[31m${MISSING_MODULE}\x1b[39m`], failureDetails: [] };
+  const passed = { fullName: 'server stops', status: 'passed', failureMessages: [] };
+  const unknown = { fullName: 'math adds', status: 'failed', failureMessages: ['Error: expected 3 to be 4'] };
+  const result = { testFilePath: '/app/test/server.test.js', testResults: [failed, passed, unknown], failureMessage: '● server boots' };
+
+  reporter.onTestResult(undefined, result);
+
+  assert.equal(failed.aiError.title, 'Module Not Found');
+  assert.equal(failed.failureMessages.length, 2);
+  assert.match(failed.failureMessages[1], /^ai-error: Module Not Found\n/);
+  assert.equal(passed.aiError, undefined);
+  assert.deepEqual([unknown.aiError, unknown.failureMessages.length], [undefined, 1]);
+  assert.match(result.failureMessage, /^● server boots\n {2}● server boots\n\n {4}ai-error: Module Not Found\n/);
+
+  reporter.onRunComplete();
+  assert.match(chunks.join(''), /ai-error: 1 of 2 failures diagnosed/);
+});
+
+test('the Jest reporter diagnoses a suite that failed to load', () => {
+  const { chunks, stream } = collector();
+  const reporter = new JestReporter(undefined, { db: ERROR_DB, stream, color: false });
+  const result = { testFilePath: '/app/test/db.test.js', testResults: [], testExecError: WRAPPED, failureMessage: 'Test suite failed to run' };
+  reporter.onTestResult(undefined, result);
+  assert.match(result.failureMessage, /\n {2}● \/app\/test\/db\.test\.js\n\n {4}ai-error: PostgreSQL: Connection Refused\n/);
+  reporter.onRunComplete();
+  assert.match(chunks.join(''), /✗ \/app\/test\/db\.test\.js/);
+});
+
+test('the Vitest reporter stores diagnoses on task.meta under the full test name', () => {
+  const { chunks, stream } = collector();
+  const reporter = new VitestReporter({ db: ERROR_DB, stream, color: false });
+  const file = { name: 'db.test.ts', type: 'suite', tasks: [] };
+  const suite = { name: 'db', type: 'suite', suite: file, tasks: [] };
+  const connects = { name: 'connects', type: 'test', suite, result: { state: 'fail', errors: [WRAPPED] } };
+  const closes = { name: 'closes', type: 'test', suite, meta: { tag: 'slow' }, result: { state: 'pass' } };
+  const loads = { name: 'loads', type: 'test', suite, result: { state: 'fail', errors: [{ message: 'x', stack: MISSING_MODULE }] } };
+  suite.tasks.push(connects, closes, loads);
+  file.tasks.push(suite);
+
+  reporter.onFinished([file]);
+
+  assert.equal(connects.meta.aiError.title, 'PostgreSQL: Connection Refused');
+  assert.equal(loads.meta.aiError.title, 'Module Not Found');
+  assert.deepEqual(closes.meta, { tag: 'slow' });
+  assert.equal(suite.meta, undefined);
+  const printed = chunks.join('');
+  assert.match(printed, /ai-error: 2 of 2 failures diagnosed/);
+  assert.match(printed, /✗ db\.test\.ts › db › connects\n/);
+  assert.match(printed, /✗ db\.test\.ts › db › loads\n/);
+});
@@ -0,0 +1,208 @@
+// Source map reader: VLQ decoding, the ways a compiled file points at its
+// map, indexed maps and rewriting stack frames. The maps are generated here
+// from explicit segment lists, so each expected position is readable.
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { applySourceMaps, decodeVlq, findSourceMappingUrl, loadSourceMap, parseSourceMap, parseStack } from '../dist/index.js';
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function encodeVlq(values) {
+  let out = '';
+  for (const value of values) {
+    let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+    do {
+      let digit = vlq & 31;
+      vlq >>>= 5;
+      if (vlq) digit |= 32;
+      out += BASE64[digit];
+    } while (vlq);
+  }
+  return out;
+}
+
+/**
+ * A v3 map from segments [genLine, genCol, source, origLine, origCol, name?],
+ * all 0-based, encoded with the deltas the format uses.
+ */
+function buildMap(segments, { sources = ['../src/app.ts'], names = [], sourceRoot } = {}) {
+  const lines = [];
+  let source = 0, origLine = 0, origCol = 0, name = 0;
+  for (const [genLine, genCol, src, line, col, nameIndex] of [...segments].sort((a, b) => a[0] - b[0] || a[1] - b[1])) {
+    while (lines.length <= genLine) lines.push({ genCol: 0, parts: [] });
+    const current = lines[genLine];
+    const fields = [genCol - current.genCol, src - source, line - origLine, col - origCol];
+    if (nameIndex !== undefined) {
+      fields.push(nameIndex - name);
+      name = nameIndex;
+    }
+    current.parts.push(encodeVlq(fields));
+    current.genCol = genCol;
+    source = src;
+    origLine = line;
+    origCol = col;
+  }
+  return {
+    version: 3,
+    ...(sourceRoot ? { sourceRoot } : {}),
+    sources,
+    names,
+    mappings: lines.map(l => l.parts.join(',')).join(';'),
+  };
+}
+
+const SEGMENTS = [
+  [0, 0, 0, 0, 0],
+  [1, 2, 0, 4, 2, 0],
+  [1, 10, 0, 5, 6],
+  [2, 0, 0, 9, 0],
+];
+
+const CODE = 'var x;\n  boom();\nmain();\n';
+
+function tempDir(t) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-error-sourcemap-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  fs.mkdirSync(path.join(dir, 'dist'));
+  fs.mkdirSync(path.join(dir, 'src'));
+  return dir;
+}
+
+test('decodeVlq decodes signed multi-digit fields', () => {
+  assert.deepEqual(decodeVlq('AAgBC'), [0, 0, 16, 1]);
+  assert.deepEqual(decodeVlq('D'), [-1]);
+  assert.deepEqual(decodeVlq('2H'), [123]);
+  assert.deepEqual(decodeVlq(encodeVlq([0, -17, 1024, -65536])), [0, -17, 1024, -65536]);
+  assert.throws(() => decodeVlq('A!'), /invalid base64 VLQ character/);
+});
+
+test('parseSourceMap finds the segment at or before a column', () => {
+  const map = parseSourceMap(buildMap(SEGMENTS, { names: ['boom'] }), '/app/dist/app.js.map');
+  assert.deepEqual(map.originalPositionFor(1, 2), { source: path.resolve('/app/src/app.ts'), line: 4, col: 2, name: 'boom' });
+  assert.deepEqual(map.originalPositionFor(1, 8), { source: path.resolve('/app/src/app.ts'), line: 4, col: 2, name: 'boom' });
+  assert.equal(map.originalPositionFor(1, 12).line, 5);
+  assert.equal(map.originalPositionFor(1, 0), null);
+  assert.equal(map.originalPositionFor(7, 0), null);
+});
+
+test('parseSourceMap applies sourceRoot and keeps the project part of webpack sources', () => {
+  const rooted = parseSourceMap(buildMap(SEGMENTS, { sourceRoot: '../lib' }), '/app/dist/app.js.map');
+  assert.equal(rooted.originalPositionFor(0, 0).source, path.resolve('/app/lib/../src/app.ts'));
+  const webpack = parseSourceMap(buildMap(SEGMENTS, { sources: ['webpack://app/./src/app.ts'] }), '/app/dist/app.js.map');
+  assert.equal(webpack.originalPositionFor(0, 0).source, path.resolve('/app/dist/src/app.ts'));
+});
+
+test('indexed maps look up the section covering a position', () => {
+  const map = parseSourceMap({
+    version: 3,
+    sections: [
+      { offset: { line: 0, column: 0 }, map: buildMap([[0, 0, 0, 0, 0]], { sources: ['../src/a.ts'] }) },
+      { offset: { line: 0, column: 20 }, map: buildMap([[0, 0, 0, 3, 1]], { sources: ['../src/b.ts'] }) },
+      { offset: { line: 5, column: 0 }, map: buildMap([[1, 4, 0, 7, 0]], { sources: ['../src/c.ts'] }) },
+    ],
+  }, '/app/dist/bundle.js.map');
+
+  assert.deepEqual(map.originalPositionFor(0, 10), { source: path.resolve('/app/src/a.ts'), line: 0, col: 0, name: null });
+  assert.deepEqual(map.originalPositionFor(0, 25), { source: path.resolve('/app/src/b.ts'), line: 3, col: 1, name: null });
+  assert.deepEqual(map.originalPositionFor(6, 4), { source: path.resolve('/app/src/c.ts'), line: 7, col: 0, name: null });
+});
+
+test('findSourceMappingUrl reads the last line and block comments', () => {
+  assert.equal(findSourceMappingUrl('x;\n//# sourceMappingURL=app.js.map\n'), 'app.js.map');
+  assert.equal(findSourceMappingUrl('x;\n/*# sourceMappingURL=app.css.map */'), 'app.css.map');
+  assert.equal(findSourceMappingUrl('//# sourceMappingURL=old.map\nx;\n//# sourceMappingURL=new.map'), 'new.map');
+  assert.equal(findSourceMappingUrl('const s = "sourceMappingURL=nope";'), null);
+});
+
+test('loadSourceMap reads an inline base64 map', t => {
+  const dir = tempDir(t);
+  const file = path.join(dir, 'dist', 'app.js');
+  const data = Buffer.from(JSON.stringify(buildMap(SEGMENTS))).toString('base64');
+  fs.writeFileSync(file, `${CODE}//# sourceMappingURL=data:application/json;charset=utf-8;base64,${data}\n`);
+  assert.equal(loadSourceMap(file).originalPositionFor(1, 2).source, path.join(dir, 'src', 'app.ts'));
+});
+
+test('loadSourceMap follows sourceMappingURL to another directory', t => {
+  const dir = tempDir(t);
+  const file = path.join(dir, 'dist', 'app.js');
+  fs.mkdirSync(path.join(dir, 'maps'));
+  fs.writeFileSync(path.join(dir, 'maps', 'app.js.map'), JSON.stringify(buildMap(SEGMENTS, { sources: ['../src/from-url.ts'] })));
+  fs.writeFileSync(`${file}.map`, JSON.stringify(buildMap(SEGMENTS, { sources: ['../src/sibling.ts'] })));
+  fs.writeFileSync(file, `${CODE}//# sourceMappingURL=../maps/app.js.map\n`);
+  assert.equal(loadSourceMap(file).originalPositionFor(0, 0).source, path.join(dir, 'src', 'from-url.ts'));
+});
+
+test('loadSourceMap falls back to a sibling .map file', t => {
+  const dir = tempDir(t);
+  const file = path.join(dir, 'dist', 'app.js');
+  fs.writeFileSync(file, CODE);
+  fs.writeFileSync(`${file}.map`, JSON.stringify(buildMap(SEGMENTS)));
+  assert.equal(loadSourceMap(file).originalPositionFor(2, 0).line, 9);
+});
+
+test('loadSourceMap treats missing and corrupt maps as no map', t => {
+  const dir = tempDir(t);
+  const file = path.join(dir, 'dist', 'app.js');
+  assert.equal(loadSourceMap(file), null);
+  fs.writeFileSync(file, CODE);
+  assert.equal(loadSourceMap(file), null);
+  fs.writeFileSync(`${file}.map`, '{ not json');
+  assert.equal(loadSourceMap(file), null);
+});
+
+test('applySourceMaps rewrites compiled frames and keeps the generated position', t => {
+  const dir = tempDir(t);
+  const file = path.join(dir, 'dist', 'app.js');
+  fs.writeFileSync(file, `${CODE}//# sourceMappingURL=app.js.map\n`);
+  fs.writeFileSync(`${file}.map`, JSON.stringify(buildMap(SEGMENTS, { names: ['boom'] })));
+
+  const roots = parseStack([
+    'Error: boom',
+    `    at boom (${file}:2:3)`,
+    '    at main (dist/app.js:3:1)',
+    '    at node:internal/main/run_main_module:28:49',
+    `    at other (${path.join(dir, 'dist', 'nomap.js')}:1:1)`,
+  ].join('\n'));
+  const [frame, relative, internal, unmapped] = applySourceMaps(roots, { cwd: dir })[0].frames;
+
+  assert.equal(frame.file, path.join('src', 'app.ts'));
+  assert.equal(frame.line, 5);
+  assert.equal(frame.col, 3);
+  assert.equal(frame.functionName, 'boom');
+  assert.deepEqual(frame.generated, { file, line: 2, col: 3 });
+
+  assert.equal(relative.file, path.join('src', 'app.ts'));
+  assert.equal(relative.line, 10);
+  assert.equal(relative.functionName, 'main');
+
+  assert.equal(internal.generated, undefined);
+  assert.equal(unmapped.generated, undefined);
+  assert.equal(unmapped.line, 1);
+});
+
+test('applySourceMaps keeps sources outside cwd absolute', t => {
+  const dir = tempDir(t);
+  const file = path.join(dir, 'dist', 'app.js');
+  fs.writeFileSync(file, CODE);
+  fs.writeFileSync(`${file}.map`, JSON.stringify(buildMap(SEGMENTS)));
+
+  const [frame] = applySourceMaps(parseStack(`Error: boom\n    at boom (${file}:2:3)`), { cwd: path.join(dir, 'dist') })[0].frames;
+  assert.equal(frame.file, path.join(dir, 'src', 'app.ts'));
+});
+
+test('applySourceMaps maps Windows drive-letter paths', { skip: process.platform === 'win32' && 'writes a file named like a drive path' }, t => {
+  // On POSIX this is a file in cwd named `C:\dist\app.js`, which reaches the same scheme check
+  const dir = tempDir(t);
+  const name = 'C:\\dist\\app.js';
+  fs.writeFileSync(path.join(dir, name), CODE);
+  fs.writeFileSync(path.join(dir, `${name}.map`), JSON.stringify(buildMap(SEGMENTS, { sources: ['src/app.ts'] })));
+
+  const [frame] = applySourceMaps(parseStack(`Error: boom\n    at boom (${name}:2:3)`), { cwd: dir })[0].frames;
+  assert.equal(frame.file, 'src/app.ts');
+  assert.equal(frame.line, 5);
+  assert.deepEqual(frame.generated, { file: name, line: 2, col: 3 });
+});
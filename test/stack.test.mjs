@@ -0,0 +1,149 @@
+// Error trees: causes and AggregateError sub-errors, parsed from the way Node
+// prints them and built from live (or serialized) error objects.
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { errorText, parseStack, stackFromError } from '../dist/index.js';
+
+/** An error tree as nested `Name [code]: message (frames)` strings, for comparing whole trees. */
+function shape(err) {
+  const head = `${err.name}${err.code ? ` [${err.code}]` : ''}: ${err.message} (${err.frames.length})`;
+  if (!err.cause && !err.errors.length) return head;
+  return {
+    head,
+    ...(err.errors.length ? { errors: err.errors.map(shape) } : {}),
+    ...(err.cause ? { cause: shape(err.cause) } : {}),
+  };
+}
+
+const NESTED_CAUSES = `Error: outer
+    at f (/app/src/db.js:1:72)
+    at Object.<anonymous> (/app/src/db.js:2:37)
+    ... 5 lines matching cause stack trace ...
+    at node:internal/main/run_main_module:28:49 {
+  [cause]: TypeError: middle
+      at f (/app/src/db.js:1:100)
+      ... 5 lines matching cause stack trace ...
+      at node:internal/main/run_main_module:28:49 {
+    [cause]: Error: inner
+        at f (/app/src/db.js:1:25)
+        at Module._compile (node:internal/modules/cjs/loader:1521:14)
+        at node:internal/main/run_main_module:28:49 {
+      code: 'EINNER'
+    }
+  }
+}`;
+
+const AGGREGATE = `AggregateError: all failed
+    at Object.<anonymous> (/app/src/jobs.js:3:37)
+    at Module._compile (node:internal/modules/cjs/loader:1521:14) {
+  [errors]: [
+    Error: a
+        at Object.<anonymous> (/app/src/jobs.js:3:57)
+        at Module._compile (node:internal/modules/cjs/loader:1521:14),
+    RangeError: b
+        at Object.<anonymous> (/app/src/jobs.js:3:73)
+  ],
+  [cause]: Error [ERR_SOCKET_CLOSED]: Socket is closed
+      at Socket.write (node:net:912:11)
+}`;
+
+test('parseStack nests [cause] blocks inside their property braces', () => {
+  assert.deepEqual(parseStack(NESTED_CAUSES).map(shape), [{
+    head: 'Error: outer (3)',
+    cause: { head: 'TypeError: middle (2)', cause: 'Error: inner (3)' },
+  }]);
+});
+
+test('parseStack collects AggregateError [errors] and the cause after them', () => {
+  assert.deepEqual(parseStack(AGGREGATE).map(shape), [{
+    head: 'AggregateError: all failed (2)',
+    errors: ['Error: a (2)', 'RangeError: b (1)'],
+    cause: 'Error [ERR_SOCKET_CLOSED]: Socket is closed (1)',
+  }]);
+});
+
+test('parseStack reads Caused by: sections and starts a new root after a block closes', () => {
+  const input = [
+    'Error: request failed',
+    '    at fetchUser (/app/src/api.js:10:5)',
+    'Caused by: Error: connect ECONNREFUSED 127.0.0.1:5432',
+    '    at TCPConnectWrap.afterConnect (node:net:1555:16)',
+    '',
+    'TypeError: x is not a function',
+    '    at main (/app/src/index.js:3:1)',
+  ].join('\n');
+  assert.deepEqual(parseStack(input).map(shape), [
+    { head: 'Error: request failed (1)', cause: 'Error: connect ECONNREFUSED 127.0.0.1:5432 (1)' },
+    'TypeError: x is not a function (1)',
+  ]);
+});
+
+/** A plain object shaped like a serialized error, with a one-frame stack. */
+function plain(name, message, extra = {}) {
+  return { name, message, stack: `${name}: ${message}\n    at ${name.toLowerCase()} (/app/src/${name}.js:1:1)`, ...extra };
+}
+
+test('errorText and stackFromError follow sub-errors and causes at every level', () => {
+  const error = plain('AggregateError', 'all failed', {
+    errors: [plain('TypeError', 'a'), plain('RangeError', 'b', { cause: plain('Error', 'deep') })],
+    cause: plain('SyntaxError', 'root'),
+  });
+  assert.equal(errorText(error), [
+    'AggregateError: all failed',
+    '    at aggregateerror (/app/src/AggregateError.js:1:1)',
+    '  [errors]: [',
+    '    TypeError: a',
+    '        at typeerror (/app/src/TypeError.js:1:1)',
+    '    RangeError: b',
+    '        at rangeerror (/app/src/RangeError.js:1:1)',
+    '      [cause]: Error: deep',
+    '          at error (/app/src/Error.js:1:1)',
+    '  ]',
+    '  [cause]: SyntaxError: root',
+    '      at syntaxerror (/app/src/SyntaxError.js:1:1)',
+  ].join('\n'));
+  assert.deepEqual(stackFromError(error).map(shape), [{
+    head: 'AggregateError: all failed (1)',
+    errors: ['TypeError: a (1)', { head: 'RangeError: b (1)', cause: 'Error: deep (1)' }],
+    cause: 'SyntaxError: root (1)',
+  }]);
+});
+
+test('a code the header leaves out is added to it', () => {
+  const refused = plain('Error', 'connect ECONNREFUSED 127.0.0.1:5432', { code: 'ECONNREFUSED' });
+  const missing = plain('Error', "Cannot find module 'x'", { code: 'MODULE_NOT_FOUND' });
+  assert.equal(errorText(refused).split('\n')[0], 'Error: connect ECONNREFUSED 127.0.0.1:5432');
+  assert.equal(errorText(missing).split('\n')[0], "Error [MODULE_NOT_FOUND]: Cannot find module 'x'");
+  assert.equal(stackFromError(missing)[0].code, 'MODULE_NOT_FOUND');
+});
+
+test('plain objects without a stack, and thrown non-errors, still produce text', () => {
+  assert.equal(errorText({ message: 'serialized', code: 'E_TEST' }), 'Error [E_TEST]: serialized');
+  assert.equal(errorText('just a string'), 'just a string');
+  assert.equal(errorText({ message: 'wrapped', cause: { status: 500 } }), 'Error: wrapped\n  [cause]: { status: 500 }');
+  assert.deepEqual(stackFromError({ message: 'serialized', errors: [42] }).map(shape), [{ head: 'Error: serialized (0)', errors: [': 42 (0)'] }]);
+});
+
+test('a cause cycle stops at the first repeat', () => {
+  const a = plain('Error', 'a');
+  const b = plain('Error', 'b', { cause: a });
+  a.cause = b;
+  assert.equal(errorText(b), 'Error: b\n    at error (/app/src/Error.js:1:1)\n  [cause]: Error: a\n      at error (/app/src/Error.js:1:1)');
+  assert.deepEqual(stackFromError(b).map(shape), [{ head: 'Error: b (1)', cause: 'Error: a (1)' }]);
+
+  const self = new Error('self');
+  self.cause = self;
+  assert.equal(stackFromError(self)[0].cause, null);
+});
+
+test('a deep tree is cut off after 16 errors', () => {
+  let error = plain('Error', 'level 0');
+  for (let i = 1; i < 40; i++) error = plain('Error', `level ${i}`, { cause: error });
+
+  let depth = 0;
+  for (let node = stackFromError(error)[0]; node; node = node.cause) depth++;
+  assert.equal(depth, 16);
+  assert.equal(errorText(error).split('\n').filter(l => l.includes('[cause]:')).length, 15);
+  assert.ok(errorText(error).includes('level 24') && !errorText(error).includes('level 23'));
+});
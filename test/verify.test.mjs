@@ -0,0 +1,141 @@
+// `ai-error db verify`: the built-in database must pass, and packs with bad
+// examples, placeholders or patterns must be reported.
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ERROR_DB, backtrackingRisks, captureGroupCount, compilePack, verifyDatabase } from '../dist/index.js';
+
+/** Entries of a pack built from `patterns`, with the fields every entry needs filled in. */
+function pack(...patterns) {
+  return compilePack({
+    name: 'test',
+    schemaVersion: 2,
+    patterns: patterns.map(p => ({ category: 'Test', explanation: 'Test entry.', fix: 'Fix it.', severity: 'error', ...p })),
+  }, 'test.json', 'test').entries;
+}
+
+/** Issues as `kind level title` strings, for comparing whole reports. */
+function issues(db, options) {
+  return verifyDatabase(db, options).issues.map(i => `${i.kind} ${i.level} ${i.title}`);
+}
+
+test('the built-in database verifies without errors', () => {
+  const report = verifyDatabase(ERROR_DB);
+  assert.equal(report.checked, ERROR_DB.length);
+  assert.deepEqual(report.issues.filter(i => i.level === 'error'), []);
+});
+
+test('a pack whose examples and placeholders line up has no issues', () => {
+  const db = pack({
+    title: 'Widget Missing',
+    pattern: "widget '(?<name>[\\w-]+)' not found",
+    fix: 'Register $<name>.',
+    variables: { upper: { from: 'name', transform: 'upper' } },
+    autoFixCmd: 'widgets add $<upper>',
+    examples: ["widget 'spinner' not found"],
+    counterExamples: ['widget not found'],
+  });
+  assert.deepEqual(issues(db), []);
+});
+
+test('examples and counterexamples are checked against the pattern', () => {
+  const db = pack({
+    title: 'Disk Full',
+    pattern: 'ENOSPC',
+    examples: ['Error: ENOSPC: no space left on device', 'disk is full'],
+    counterExamples: ['ENOSPC was handled'],
+  });
+  assert.deepEqual(issues(db), [
+    'example-not-matched error Disk Full',
+    'counterexample-matched error Disk Full',
+  ]);
+});
+
+test('entries without examples are a warning', () => {
+  assert.deepEqual(issues(pack({ title: 'Untested', pattern: 'untested' })), ['no-examples warning Untested']);
+});
+
+test('an example an earlier entry with the same title claims is shadowed', () => {
+  // Entries sharing a title are one result, so the first to match wins the line
+  const db = pack(
+    { title: 'Timeout', pattern: 'timed out', priority: 10, examples: ['request timed out'] },
+    { title: 'Timeout', pattern: 'gateway timed out', examples: ['gateway timed out after 30s'] },
+  );
+  const report = verifyDatabase(db);
+  assert.deepEqual(report.issues.map(i => `${i.kind} ${i.level} ${i.title}`), ['shadowed error Timeout']);
+  assert.match(report.issues[0].message, /reported as an earlier "Timeout" entry \(\/timed out\/i?\)/);
+});
+
+test('two entries matching exactly the same examples are redundant', () => {
+  const db = pack(
+    { title: 'Refused', pattern: 'ECONNREFUSED', examples: ['connect ECONNREFUSED 127.0.0.1:5432'] },
+    { title: 'Refused Again', pattern: 'connect ECONNREFUSED', examples: ['connect ECONNREFUSED 127.0.0.1:6379'] },
+  );
+  assert.ok(issues(db).includes('redundant warning Refused Again'));
+});
+
+test('placeholders need a capture group or variable', () => {
+  const db = pack(
+    { title: 'Group Past The End', pattern: 'bad (\\w+)', fix: 'Fix $1 and $2.', examples: ['bad thing'] },
+    { title: 'Unknown Name', pattern: 'bad name (?<name>\\w+)', fix: 'Fix $<nmae>.', examples: ['bad name x'] },
+    { title: 'Variable From Nothing', pattern: 'bad variable', variables: { pkg: { from: 1 } }, autoFixCmd: 'npm i $<pkg>', examples: ['bad variable'] },
+  );
+  const report = verifyDatabase(db);
+  assert.deepEqual(report.issues.map(i => `${i.kind} ${i.level} ${i.title}`), [
+    'placeholder error Group Past The End',
+    'placeholder error Unknown Name',
+    'placeholder error Variable From Nothing',
+  ]);
+  assert.match(report.issues[0].message, /\$2 in fix but .* has 1 capture group$/);
+  assert.match(report.issues[1].message, /\$<nmae> in fix is neither a named group/);
+  assert.match(report.issues[2].message, /variables\.pkg starts from group 1/);
+});
+
+test('a placeholder left empty by an example is a warning', () => {
+  const db = pack({
+    title: 'Optional Port',
+    pattern: 'listen failed(?: on port (\\d+))?',
+    fix: 'Free port $1.',
+    examples: ['listen failed on port 3000', 'listen failed'],
+  });
+  const report = verifyDatabase(db);
+  assert.deepEqual(report.issues.map(i => `${i.kind} ${i.level}`), ['placeholder warning']);
+  assert.match(report.issues[0].message, /\$1 in fix is empty for example "listen failed"/);
+});
+
+test('backtrackingRisks flags nested and overlapping repeats', () => {
+  const levels = pattern => backtrackingRisks(pattern).map(r => r.level);
+  assert.deepEqual(levels(/(\w+\s?)+$/), ['error']);
+  assert.deepEqual(levels(/(?:a|ab)*c/), ['error']);
+  assert.deepEqual(levels(/Error:.*\s*at/), ['warning']);
+  assert.match(backtrackingRisks(/(\w+\s?)+$/)[0].message, /nested quantifier in \(\\w\+\\s\?\)\+/);
+});
+
+test('backtrackingRisks accepts bounded and disjoint repeats', () => {
+  assert.deepEqual(backtrackingRisks(/^Error: (\w+) at (\d+):(\d+)$/), []);
+  assert.deepEqual(backtrackingRisks(/(?:foo|bar)+/), []);
+  assert.deepEqual(backtrackingRisks(/(\d{1,3}\.){3}\d{1,3}/), []);
+  assert.deepEqual(backtrackingRisks(/[\w.]+@\d+/), []);
+});
+
+test('a pack pattern that can backtrack catastrophically fails verification', () => {
+  const db = pack({ title: 'Slow', pattern: '^(\\w+\\s?)+!$', examples: ['so slow!'] });
+  const report = verifyDatabase(db);
+  assert.equal(report.errors, 1);
+  assert.equal(report.issues[0].kind, 'backtracking');
+});
+
+test('only limits the entries checked, not the database they are checked against', () => {
+  const db = pack(
+    { title: 'Failed', pattern: 'failed', priority: 10 },
+    { title: 'Failed', pattern: 'tests failed', examples: ['3 tests failed'] },
+  );
+  const report = verifyDatabase(db, { only: e => e.pattern.source === 'tests failed' });
+  assert.equal(report.checked, 1);
+  assert.deepEqual(report.issues.map(i => i.kind), ['shadowed']);
+});
+
+test('captureGroupCount counts capturing groups only', () => {
+  assert.equal(captureGroupCount(/a(b)(?:c)(?<d>d)?(?=e)/), 2);
+  assert.equal(captureGroupCount(/no groups|here/g), 0);
+});